@@ -5,7 +5,7 @@
  * Replace the API calls with your translation service of choice.
  */
 
-import type { TranslateOptions, TranslationProvider } from 'poly-lexis';
+import type { TranslateOptions, TranslationProvider, TranslationProviderFactory } from 'poly-lexis';
 
 export class CustomTranslationProvider implements TranslationProvider {
   private apiKey: string;
@@ -133,7 +133,17 @@ export class CustomTranslationProvider implements TranslationProvider {
 }
 
 /**
- * Usage Example:
+ * Factory picked up when this module is set as `providerModule` in .translationsrc.json
+ */
+export const createTranslationProvider: TranslationProviderFactory = () => new CustomTranslationProvider();
+
+/**
+ * Usage with the CLI (compile to JavaScript first, or run the CLI through a TypeScript loader such as tsx):
+ *
+ * // .translationsrc.json
+ * { "providerModule": "./custom-provider.js" }
+ *
+ * Usage from code:
  *
  * import { setTranslationProvider } from 'poly-lexis';
  * import { CustomTranslationProvider } from './custom-provider';
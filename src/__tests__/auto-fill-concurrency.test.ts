@@ -0,0 +1,119 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { autoFillTranslations } from '../translations/cli/auto-fill.js';
+import { resetTranslationProvider, setTranslationProvider } from '../translations/utils/translator.js';
+import type { TranslateOptions, TranslationProvider } from '../translations/utils/translator-interface.js';
+import { writeTranslation } from '../translations/utils/utils.js';
+
+/**
+ * Provider that answers after a random delay so concurrent batches finish out of order
+ */
+class SlowFakeProvider implements TranslationProvider {
+  async translate(options: TranslateOptions): Promise<string> {
+    const [translated] = await this.translateBatch([options.text], options.sourceLang, options.targetLang);
+    return translated;
+  }
+
+  async translateBatch(texts: string[], _sourceLang: string, targetLang: string): Promise<string[]> {
+    await new Promise((resolve) => setTimeout(resolve, Math.floor(Math.random() * 20)));
+    return texts.map((text) => `${targetLang}:${text}`);
+  }
+}
+
+describe('Auto-fill concurrency', () => {
+  let testDir: string;
+  let translationsPath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    translationsPath = path.join(testDir, 'locales');
+
+    const config = {
+      translationsPath: 'locales',
+      languages: ['en', 'fr'],
+      sourceLanguage: 'en',
+      typesOutputPath: 'src/types/i18nTypes.ts',
+      provider: 'deepl'
+    };
+    fs.writeFileSync(path.join(testDir, '.translationsrc.json'), JSON.stringify(config, null, 2));
+
+    setTranslationProvider(new SlowFakeProvider());
+  });
+
+  afterEach(() => {
+    resetTranslationProvider();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('all concurrent fills into one namespace are persisted', async () => {
+    const source: Record<string, string> = {};
+    for (let i = 0; i < 40; i++) {
+      source[`KEY_${i}`] = `Value ${i}`;
+    }
+    writeTranslation(translationsPath, 'en', 'common', source);
+
+    await autoFillTranslations(testDir, { apiKey: 'test-key', concurrency: 8, batchSize: 1, delayMs: 0 });
+
+    const fr = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
+    expect(Object.keys(fr)).toHaveLength(40);
+    for (let i = 0; i < 40; i++) {
+      expect(fr[`KEY_${i}`]).toBe(`fr:Value ${i}`);
+    }
+  });
+
+  test('existing translations in the namespace are kept', async () => {
+    writeTranslation(translationsPath, 'en', 'common', { HELLO: 'Hello', SAVE: 'Save', CANCEL: 'Cancel' });
+    writeTranslation(translationsPath, 'fr', 'common', { HELLO: 'Bonjour', SAVE: '', CANCEL: '' });
+
+    await autoFillTranslations(testDir, { apiKey: 'test-key', concurrency: 2, batchSize: 1, delayMs: 0 });
+
+    const fr = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
+    expect(fr).toEqual({ CANCEL: 'fr:Cancel', HELLO: 'Bonjour', SAVE: 'fr:Save' });
+  });
+
+  test('an invalid batch size sends one text per request and counts progress correctly', async () => {
+    writeTranslation(translationsPath, 'en', 'common', { HELLO: 'Hello', SAVE: 'Save', CANCEL: 'Cancel' });
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    let output: string[];
+
+    try {
+      await autoFillTranslations(testDir, { apiKey: 'test-key', concurrency: 1, batchSize: 0, delayMs: 0 });
+      output = logSpy.mock.calls.map((call) => String(call[0]));
+    } finally {
+      logSpy.mockRestore();
+    }
+
+    const progress = output.filter((line) => line.includes('Translating'));
+    expect(progress).toEqual([
+      '  [1-1/3] Translating 1 keys',
+      '  [2-2/3] Translating 1 keys',
+      '  [3-3/3] Translating 1 keys'
+    ]);
+  });
+
+  test('orphaned keys and namespace files are left for sync to remove', async () => {
+    writeTranslation(translationsPath, 'en', 'common', { HELLO: 'Hello' });
+    writeTranslation(translationsPath, 'fr', 'common', { HELLO: '', OLD_KEY: 'Ancienne clé' });
+    writeTranslation(translationsPath, 'fr', 'legacy', { TITLE: 'Titre' });
+
+    await autoFillTranslations(testDir, { apiKey: 'test-key', delayMs: 0 });
+
+    const fr = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
+    expect(fr).toEqual({ HELLO: 'fr:Hello', OLD_KEY: 'Ancienne clé' });
+    expect(fs.existsSync(path.join(translationsPath, 'fr', 'legacy.json'))).toBe(true);
+  });
+
+  test('a dry run writes no files', async () => {
+    writeTranslation(translationsPath, 'en', 'common', { HELLO: 'Hello' });
+    writeTranslation(translationsPath, 'en', 'settings', { TITLE: 'Settings' });
+    writeTranslation(translationsPath, 'fr', 'common', { HELLO: '', OLD_KEY: 'Ancienne clé' });
+
+    await autoFillTranslations(testDir, { apiKey: 'test-key', delayMs: 0, dryRun: true });
+
+    const fr = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
+    expect(fr).toEqual({ HELLO: '', OLD_KEY: 'Ancienne clé' });
+    expect(fs.existsSync(path.join(translationsPath, 'fr', 'settings.json'))).toBe(false);
+  });
+});
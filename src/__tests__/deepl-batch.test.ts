@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { DeepLTranslateProvider } from '../translations/utils/deepl-translate-provider.js';
+
+const mockFetch = jest.fn<typeof fetch>();
+global.fetch = mockFetch;
+
+/**
+ * Echo every text of the request back with a prefix, like a translation would
+ */
+function echoDeepLResponse(_url: unknown, init?: RequestInit): Promise<Response> {
+  const body = JSON.parse(init?.body as string) as { text: string[] };
+  return Promise.resolve({
+    ok: true,
+    json: async () => ({
+      translations: body.text.map((text) => ({ text: `fr:${text}`, detected_source_language: 'EN' }))
+    })
+  } as unknown as Response);
+}
+
+function requestTexts(callIndex: number): string[] {
+  return (JSON.parse((mockFetch.mock.calls[callIndex][1] as RequestInit).body as string) as { text: string[] }).text;
+}
+
+describe('DeepLTranslateProvider.translateBatch', () => {
+  const provider = new DeepLTranslateProvider();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(echoDeepLResponse);
+  });
+
+  test('sends all texts in a single request when within limits', async () => {
+    const result = await provider.translateBatch(['Hello', 'Goodbye', 'Save'], 'en', 'fr', 'test-key', 0);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(requestTexts(0)).toEqual(['Hello', 'Goodbye', 'Save']);
+    expect(result).toEqual(['fr:Hello', 'fr:Goodbye', 'fr:Save']);
+  });
+
+  test('splits requests at 50 texts and keeps results in input order', async () => {
+    const texts = Array.from({ length: 120 }, (_, i) => `Text ${i}`);
+
+    const result = await provider.translateBatch(texts, 'en', 'fr', 'test-key', 0);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(requestTexts(0)).toHaveLength(50);
+    expect(requestTexts(1)).toHaveLength(50);
+    expect(requestTexts(2)).toHaveLength(20);
+    expect(result).toEqual(texts.map((text) => `fr:${text}`));
+  });
+
+  test('splits requests when the body would exceed the size limit', async () => {
+    const largeText = 'a'.repeat(50 * 1024);
+
+    const result = await provider.translateBatch([largeText, largeText, largeText], 'en', 'fr', 'test-key', 0);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(requestTexts(0)).toHaveLength(2);
+    expect(requestTexts(1)).toHaveLength(1);
+    expect(result).toHaveLength(3);
+  });
+
+  test('preserves placeholders per item', async () => {
+    const result = await provider.translateBatch(
+      ['Hello {{name}}', 'Welcome to Vandelay Industries', '{count} items'],
+      'en',
+      'fr',
+      'test-key',
+      0,
+      { protectedTerms: ['Vandelay Industries'] }
+    );
+
+    expect(requestTexts(0)).toEqual(['Hello XXX_0_XXX', 'Welcome to XXX_0_XXX', 'XXX_0_XXX items']);
+    expect(result).toEqual(['fr:Hello {{name}}', 'fr:Welcome to Vandelay Industries', 'fr:{count} items']);
+  });
+
+  test('throws when DeepL returns a different number of translations', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ translations: [{ text: 'Bonjour', detected_source_language: 'EN' }] })
+    } as unknown as Response);
+
+    await expect(provider.translateBatch(['Hello', 'Goodbye'], 'en', 'fr', 'test-key', 0)).rejects.toThrow(
+      'DeepL API returned 1 translations for 2 texts'
+    );
+  });
+
+  test('returns an empty array without calling the API for an empty batch', async () => {
+    const result = await provider.translateBatch([], 'en', 'fr', 'test-key', 0);
+
+    expect(result).toEqual([]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
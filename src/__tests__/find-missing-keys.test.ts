@@ -0,0 +1,108 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { jest } from '@jest/globals';
+import { addMissingKeys, findMissingKeys } from '../translations/cli/find-missing.js';
+import { getMissingKeyIssues } from '../translations/cli/report.js';
+import { readTranslations, writeTranslation } from '../translations/utils/utils.js';
+
+describe('Find Keys Missing From the Source Language', () => {
+  let testDir: string;
+  let translationsPath: string;
+  let srcPath: string;
+  let logSpy: jest.SpiedFunction<typeof console.log>;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    translationsPath = path.join(testDir, 'locales');
+    srcPath = path.join(testDir, 'src');
+    fs.mkdirSync(srcPath, { recursive: true });
+
+    const config = {
+      translationsPath: 'locales',
+      languages: ['en', 'fr'],
+      sourceLanguage: 'en',
+      typesOutputPath: 'src/types/i18nTypes.ts',
+      searchPaths: ['src'],
+      searchExtensions: ['.ts', '.tsx']
+    };
+    fs.writeFileSync(path.join(testDir, '.translationsrc.json'), JSON.stringify(config, null, 2));
+
+    writeTranslation(translationsPath, 'en', 'common', { SAVE: 'Save', items_one: 'Item', items_other: 'Items' });
+    writeTranslation(translationsPath, 'en', 'checkout', { PAY: 'Pay' });
+    writeTranslation(translationsPath, 'fr', 'common', { SAVE: 'Enregistrer', items_one: '', items_other: '' });
+    writeTranslation(translationsPath, 'fr', 'checkout', { PAY: 'Payer' });
+
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('should report keys used in code that are missing, with their locations', () => {
+    fs.writeFileSync(
+      path.join(srcPath, 'checkout.tsx'),
+      [
+        "const { t } = useTranslation('checkout');",
+        "const pay = t('PAY');",
+        "const button = t('NEW_BUTTON', 'Buy now');",
+        "const count = t('common:items', { count });",
+        `const status = t(\`status.\${state}\`);`,
+        "const again = t('NEW_BUTTON');"
+      ].join('\n')
+    );
+    fs.writeFileSync(path.join(srcPath, 'app.ts'), "t('SAVE');\nt('common:CANCEL');\nt('settings:TITLE');");
+
+    const result = findMissingKeys(testDir);
+
+    expect(result.totalUsages).toBe(7);
+    expect(result.searchedFiles).toBe(2);
+    expect(result.missing).toEqual([
+      {
+        namespace: 'common',
+        key: 'CANCEL',
+        locations: [{ file: 'src/app.ts', line: 2 }]
+      },
+      {
+        namespace: 'common',
+        key: 'settings:TITLE',
+        locations: [{ file: 'src/app.ts', line: 3 }]
+      },
+      {
+        namespace: 'checkout',
+        key: 'NEW_BUTTON',
+        defaultValue: 'Buy now',
+        locations: [
+          { file: 'src/checkout.tsx', line: 3 },
+          { file: 'src/checkout.tsx', line: 6 }
+        ]
+      }
+    ]);
+
+    expect(getMissingKeyIssues(result).map((issue) => `${issue.file}:${issue.line} ${issue.rule}`)).toEqual([
+      'src/app.ts:2 undefined-key',
+      'src/app.ts:3 undefined-key',
+      'src/checkout.tsx:3 undefined-key',
+      'src/checkout.tsx:6 undefined-key'
+    ]);
+  });
+
+  test('should add missing keys with the default value found in code', async () => {
+    fs.writeFileSync(
+      path.join(srcPath, 'checkout.tsx'),
+      "const { t } = useTranslation('checkout');\nt('NEW_BUTTON', { defaultValue: 'Buy now' });\nt('EMPTY_CART');"
+    );
+
+    await addMissingKeys(testDir, findMissingKeys(testDir));
+
+    expect(readTranslations(translationsPath, 'en').checkout).toEqual({
+      EMPTY_CART: '',
+      NEW_BUTTON: 'Buy now',
+      PAY: 'Pay'
+    });
+    expect(readTranslations(translationsPath, 'fr').checkout).toEqual({ EMPTY_CART: '', NEW_BUTTON: '', PAY: 'Payer' });
+    expect(findMissingKeys(testDir).missing).toEqual([]);
+  });
+});
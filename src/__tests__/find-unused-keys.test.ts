@@ -222,6 +222,59 @@ describe('Find Unused Translation Keys', () => {
     expect(result.unused[0].key).toBe('UNUSED');
   });
 
+  test('should resolve plural, dynamic and regex-like keys from translation calls', () => {
+    writeTranslation(translationsPath, 'en', 'common', {
+      items_one: '{{count}} item',
+      items_other: '{{count}} items',
+      'status.active': 'Active',
+      'price (total)': 'Total price',
+      'price (net)': 'Net price'
+    });
+
+    fs.writeFileSync(
+      path.join(srcPath, 'cart.tsx'),
+      `const items = t('items', { count });\nconst status = t(\`status.\${state}\`);\nconst total = t('price (total)');`
+    );
+
+    const result = findUnusedKeys(testDir);
+
+    expect(result.unused).toEqual([
+      { namespace: 'common', key: 'status.active', usageType: 'partial', partialMatches: ['status.*'] },
+      { namespace: 'common', key: 'price (net)', usageType: 'unused', partialMatches: [] }
+    ]);
+  });
+
+  test('should report unused keys per namespace', () => {
+    const config = JSON.parse(fs.readFileSync(path.join(testDir, '.translationsrc.json'), 'utf-8'));
+    fs.writeFileSync(
+      path.join(testDir, '.translationsrc.json'),
+      JSON.stringify({ ...config, defaultNamespace: 'app' })
+    );
+
+    writeTranslation(translationsPath, 'en', 'app', { SAVE: 'Save', CANCEL: 'Cancel', TITLE: 'App' });
+    writeTranslation(translationsPath, 'en', 'settings', { SAVE: 'Save settings', CANCEL: 'Discard', RESET: 'Reset' });
+    writeTranslation(translationsPath, 'en', 'errors', { SAVE: 'Saving failed', CANCEL: 'Cancelled' });
+
+    fs.writeFileSync(
+      path.join(srcPath, 'settings.tsx'),
+      [
+        "const { t } = useTranslation(['settings', 'app']);",
+        "const save = t('SAVE');",
+        "const title = t('TITLE');",
+        'const reset = <Trans i18nKey="RESET" />;',
+        "const failed = t('errors:SAVE');"
+      ].join('\n')
+    );
+    fs.writeFileSync(
+      path.join(srcPath, 'app.ts'),
+      "const cancel = t('CANCEL');\nconst other = t('CANCEL', { ns: 'errors' });"
+    );
+
+    const result = findUnusedKeys(testDir);
+
+    expect(result.unused.map((item) => `${item.namespace}:${item.key}`)).toEqual(['app:SAVE', 'settings:CANCEL']);
+  });
+
   test('should exclude common build directories from search', () => {
     // Setup: Create translations
     writeTranslation(translationsPath, 'en', 'common', {
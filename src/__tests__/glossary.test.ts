@@ -0,0 +1,230 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { validateTranslations } from '../translations/cli/validate.js';
+import type { GlossaryEntry } from '../translations/core/types.js';
+import { DeepLTranslateProvider } from '../translations/utils/deepl-translate-provider.js';
+import { findGlossaryViolations, getGlossaryTerms } from '../translations/utils/glossary.js';
+import { GoogleTranslateProvider } from '../translations/utils/google-translate-provider.js';
+import { preserveVariables, restoreVariables } from '../translations/utils/placeholders.js';
+import { writeTranslation } from '../translations/utils/utils.js';
+
+const mockFetch = jest.fn<typeof fetch>();
+global.fetch = mockFetch;
+
+function makeResponse(data: unknown): Response {
+  return { ok: true, json: async () => data } as unknown as Response;
+}
+
+const glossary: GlossaryEntry[] = [
+  { term: 'Workspace', translations: { de: 'Arbeitsbereich', fr: 'espace de travail' } },
+  { term: 'Shared workspace', translations: { de: 'Gemeinsamer Arbeitsbereich' } },
+  { term: 'API', translations: { fr: 'API' }, caseSensitive: true }
+];
+
+describe('Glossary terms', () => {
+  test('resolves translations for a language, falling back to the base language', () => {
+    expect(getGlossaryTerms(glossary, 'de_at').map((term) => term.term)).toEqual(['Shared workspace', 'Workspace']);
+    expect(getGlossaryTerms(glossary, 'fr')).toHaveLength(2);
+    expect(getGlossaryTerms(glossary, 'es')).toEqual([]);
+  });
+
+  test('replaces terms with placeholders that restore to the forced translation', () => {
+    const { textWithPlaceholders, variableMap } = preserveVariables(
+      'Open your workspace, {{name}}',
+      [],
+      getGlossaryTerms(glossary, 'fr')
+    );
+
+    expect(textWithPlaceholders).toBe('Open your XXX_1_XXX, XXX_0_XXX');
+    expect(restoreVariables('Ouvrez votre XXX_1_XXX, XXX_0_XXX', variableMap)).toBe(
+      'Ouvrez votre espace de travail, {{name}}'
+    );
+  });
+
+  test('leaves terms inside interpolations alone', () => {
+    const { textWithPlaceholders, variableMap } = preserveVariables(
+      'Open {{workspace}} or {workspace} now',
+      [],
+      getGlossaryTerms(glossary, 'fr')
+    );
+
+    expect(textWithPlaceholders).toBe('Open XXX_0_XXX or XXX_1_XXX now');
+    expect(restoreVariables('Ouvrez XXX_0_XXX ou XXX_1_XXX', variableMap)).toBe('Ouvrez {{workspace}} ou {workspace}');
+  });
+
+  test('capitalizes the translation when the matched term starts a sentence', () => {
+    const { variableMap } = preserveVariables('Workspace settings', [], getGlossaryTerms(glossary, 'fr'));
+
+    expect([...variableMap.values()]).toEqual(['Espace de travail']);
+  });
+
+  test('respects case and word boundary options', () => {
+    const terms = getGlossaryTerms(glossary, 'fr');
+
+    expect(preserveVariables('Workspaces and apis', [], terms).textWithPlaceholders).toBe('Workspaces and apis');
+    expect(preserveVariables('Call the API', [], terms).textWithPlaceholders).toBe('Call the XXX_0_XXX');
+  });
+
+  test('finds translations that ignore the glossary', () => {
+    const terms = getGlossaryTerms(glossary, 'de');
+
+    expect(findGlossaryViolations('Open workspace', 'Arbeitsbereich öffnen', terms)).toEqual([]);
+    expect(findGlossaryViolations('Open workspace', 'Arbeitsplatz öffnen', terms).map((term) => term.term)).toEqual([
+      'Workspace'
+    ]);
+    expect(findGlossaryViolations('Save', 'Speichern', terms)).toEqual([]);
+  });
+});
+
+describe('Glossary in providers', () => {
+  let warnSpy: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+  });
+
+  test('Google forces glossary translations through placeholders', async () => {
+    mockFetch.mockResolvedValue(makeResponse({ data: { translations: [{ translatedText: 'XXX_0_XXX öffnen' }] } }));
+
+    const result = await new GoogleTranslateProvider().translate({
+      text: 'Open workspace',
+      sourceLang: 'en',
+      targetLang: 'de',
+      apiKey: 'test-key',
+      glossary
+    });
+
+    expect(JSON.parse(String(mockFetch.mock.calls[0][1]?.body))).toMatchObject({ q: 'Open XXX_0_XXX' });
+    expect(result).toBe('Arbeitsbereich öffnen');
+  });
+
+  test('DeepL creates a native glossary and translates with it', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeResponse({ glossaries: [] }))
+      .mockResolvedValueOnce(makeResponse({ glossary_id: 'glossary-1', name: 'x', ready: true }))
+      .mockResolvedValue(makeResponse({ translations: [{ text: 'Arbeitsbereich öffnen' }] }));
+
+    const provider = new DeepLTranslateProvider();
+    await provider.translateBatch(['Open workspace'], 'en', 'de', 'test-key', 0, { glossary });
+    await provider.translateBatch(['Open workspace'], 'en', 'de', 'test-key', 0, { glossary });
+
+    const createBody = JSON.parse(String(mockFetch.mock.calls[1][1]?.body));
+    expect(createBody).toMatchObject({
+      source_lang: 'en',
+      target_lang: 'de',
+      entries: 'Shared workspace\tGemeinsamer Arbeitsbereich\nWorkspace\tArbeitsbereich',
+      entries_format: 'tsv'
+    });
+
+    // The glossary is looked up once per provider
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+    const translateBody = JSON.parse(String(mockFetch.mock.calls[3][1]?.body));
+    expect(translateBody).toMatchObject({ text: ['Open workspace'], glossary_id: 'glossary-1' });
+  });
+
+  test('DeepL reuses an existing glossary with the same entries', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeResponse({ glossaries: [] }))
+      .mockResolvedValueOnce(makeResponse({ glossary_id: 'glossary-1', name: 'x', ready: true }));
+    mockFetch.mockResolvedValue(makeResponse({ translations: [{ text: 'Arbeitsbereich öffnen' }] }));
+    await new DeepLTranslateProvider().translateBatch(['Open workspace'], 'en', 'de', 'test-key', 0, { glossary });
+    const { name } = JSON.parse(String(mockFetch.mock.calls[1][1]?.body)) as { name: string };
+
+    mockFetch.mockReset();
+    mockFetch
+      .mockResolvedValueOnce(makeResponse({ glossaries: [{ glossary_id: 'glossary-1', name, ready: true }] }))
+      .mockResolvedValue(makeResponse({ translations: [{ text: 'Arbeitsbereich öffnen' }] }));
+    await new DeepLTranslateProvider().translateBatch(['Open workspace'], 'en', 'de', 'test-key', 0, { glossary });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(String(mockFetch.mock.calls[1][1]?.body))).toMatchObject({ glossary_id: 'glossary-1' });
+  });
+
+  test('DeepL forces terms that a native glossary cannot hold through placeholders', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeResponse({ glossaries: [] }))
+      .mockResolvedValueOnce(makeResponse({ glossary_id: 'glossary-1', name: 'x', ready: true }))
+      .mockResolvedValue(makeResponse({ translations: [{ text: 'XXX_0_XXX im Arbeitsbereich' }] }));
+
+    const result = await new DeepLTranslateProvider().translateBatch(
+      ['Sign\nin to your workspace'],
+      'en',
+      'de',
+      'test-key',
+      0,
+      {
+        glossary: [...glossary, { term: 'Sign\nin', translations: { de: 'Anmelden' } }]
+      }
+    );
+
+    expect(JSON.parse(String(mockFetch.mock.calls[1][1]?.body)).entries).not.toContain('Anmelden');
+    expect(JSON.parse(String(mockFetch.mock.calls[2][1]?.body))).toMatchObject({
+      text: ['XXX_0_XXX to your workspace'],
+      glossary_id: 'glossary-1'
+    });
+    expect(result).toEqual(['Anmelden im Arbeitsbereich']);
+  });
+
+  test('DeepL falls back to placeholders when the glossary cannot be created', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeResponse({ glossaries: [] }))
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: async () => ({ message: 'Unsupported glossary language pair' })
+      } as unknown as Response)
+      .mockResolvedValue(makeResponse({ translations: [{ text: 'XXX_0_XXX öffnen' }] }));
+
+    const result = await new DeepLTranslateProvider().translateBatch(['Open workspace'], 'en', 'de', 'test-key', 0, {
+      glossary
+    });
+
+    expect(result).toEqual(['Arbeitsbereich öffnen']);
+    expect(JSON.parse(String(mockFetch.mock.calls[2][1]?.body))).not.toHaveProperty('glossary_id');
+  });
+});
+
+describe('Glossary validation', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('validate reports translations that ignore the glossary', () => {
+    fs.writeFileSync(
+      path.join(testDir, '.translationsrc.json'),
+      JSON.stringify({ translationsPath: 'locales', languages: ['en', 'de', 'fr'], sourceLanguage: 'en', glossary })
+    );
+    const translationsPath = path.join(testDir, 'locales');
+    writeTranslation(translationsPath, 'en', 'common', { OPEN: 'Open workspace', SAVE: 'Save' });
+    writeTranslation(translationsPath, 'de', 'common', { OPEN: 'Arbeitsplatz öffnen', SAVE: 'Speichern' });
+    writeTranslation(translationsPath, 'fr', 'common', { OPEN: "Ouvrir l'espace de travail", SAVE: 'Enregistrer' });
+
+    const result = validateTranslations(testDir);
+
+    expect(result.valid).toBe(false);
+    expect(result.glossary).toEqual([
+      {
+        namespace: 'common',
+        key: 'OPEN',
+        language: 'de',
+        term: 'Workspace',
+        expected: 'Arbeitsbereich',
+        value: 'Arbeitsplatz öffnen'
+      }
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { validateTranslations } from '../translations/cli/validate.js';
+import { DeepLTranslateProvider } from '../translations/utils/deepl-translate-provider.js';
+import {
+  getIcuArgumentNames,
+  parseIcuMessage,
+  printIcuMessage,
+  splitTranslatableMessage
+} from '../translations/utils/icu.js';
+import { writeTranslation } from '../translations/utils/utils.js';
+
+const mockFetch = jest.fn<typeof fetch>();
+global.fetch = mockFetch;
+
+describe('parseIcuMessage', () => {
+  test('parses plural arguments with # and exact selectors', () => {
+    expect(parseIcuMessage('{count, plural, =0 {No items} one {# item} other {# items}}')).toEqual([
+      {
+        type: 'plural',
+        name: 'count',
+        options: [
+          { selector: '=0', message: [{ type: 'literal', value: 'No items' }] },
+          { selector: 'one', message: [{ type: 'pound' }, { type: 'literal', value: ' item' }] },
+          { selector: 'other', message: [{ type: 'pound' }, { type: 'literal', value: ' items' }] }
+        ]
+      }
+    ]);
+  });
+
+  test('handles apostrophe quoting', () => {
+    expect(parseIcuMessage("It's '{literal}' and ''quoted''")).toEqual([
+      { type: 'literal', value: "It's {literal} and 'quoted'" }
+    ]);
+  });
+
+  test('collects argument names from nested messages', () => {
+    const nodes = parseIcuMessage(
+      '{gender, select, female {{count, plural, offset:1 one {She and {name}} other {She and # others}}} other {{name} left}}'
+    );
+
+    expect(getIcuArgumentNames(nodes)).toEqual(['count', 'gender', 'name']);
+    expect(nodes[0]).toMatchObject({ type: 'select', options: [{ message: [{ type: 'plural', offset: 1 }] }, {}] });
+  });
+
+  test('keeps simple argument formats as written', () => {
+    expect(printIcuMessage(parseIcuMessage('Total: {amount, number, ::currency/EUR}'))).toBe(
+      'Total: {amount, number, ::currency/EUR}'
+    );
+  });
+
+  test.each([
+    ['{count, plural, one {# item}}', 'needs an "other" option'],
+    ['{count, plural, one {# item} other {# items}', "Expected '}' before the end of the message"],
+    ['Hello {{name}}', 'Expected an argument name'],
+    ['Hello }', "Unexpected '}'"]
+  ])('rejects %s', (message, error) => {
+    expect(() => parseIcuMessage(message)).toThrow(error);
+  });
+});
+
+describe('splitTranslatableMessage', () => {
+  test('keeps plain and i18next messages whole', () => {
+    expect(splitTranslatableMessage('Hello {{name}}').segments).toEqual(['Hello {{name}}']);
+    expect(splitTranslatableMessage('Hello {name}').segments).toEqual(['Hello {name}']);
+  });
+
+  test('only exposes the text of plural sub-messages', () => {
+    const message = splitTranslatableMessage('You have {count, plural, one {# item} other {# items}} in {place}');
+
+    expect(message.segments).toEqual(['You have', '{#} item', '{#} items', 'in {place}']);
+    expect(message.assemble(['Vous avez', '{#} article', '{#} articles', 'dans {place}'])).toBe(
+      'Vous avez {count, plural, one {# article} other {# articles}} dans {place}'
+    );
+  });
+
+  test('escapes apostrophes and # in translated text', () => {
+    const message = splitTranslatableMessage('{count, plural, one {One file} other {# files}}');
+
+    expect(message.assemble(["L'unique fichier'", '{#} fichiers #1'])).toBe(
+      "{count, plural, one {L'unique fichier''} other {# fichiers '#'1}}"
+    );
+  });
+});
+
+describe('ICU messages in providers', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  test('DeepL translates sub-messages and keeps selectors untouched', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ translations: [{ text: 'XXX_0_XXX Artikel' }, { text: 'XXX_0_XXX Artikel' }] })
+    } as unknown as Response);
+
+    const [result] = await new DeepLTranslateProvider().translateBatch(
+      ['{count, plural, one {# item} other {# items}}'],
+      'en',
+      'de',
+      'test-key'
+    );
+
+    const body = JSON.parse(String(mockFetch.mock.calls[0][1]?.body)) as { text: string[] };
+    expect(body.text).toEqual(['XXX_0_XXX item', 'XXX_0_XXX items']);
+    expect(result).toBe('{count, plural, one {# Artikel} other {# Artikel}}');
+  });
+});
+
+describe('ICU message validation', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    fs.writeFileSync(
+      path.join(testDir, '.translationsrc.json'),
+      JSON.stringify({ translationsPath: 'locales', languages: ['en', 'fr'], sourceLanguage: 'en' })
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('reports translations that do not parse', () => {
+    const translationsPath = path.join(testDir, 'locales');
+    writeTranslation(translationsPath, 'en', 'common', {
+      BROKEN: '{count, plural, one {# item} other {# items}}',
+      GREETING: 'Hello {name}',
+      ITEMS: '{count, plural, one {# item} other {# items}}',
+      LEGACY: 'Hello {{name}}'
+    });
+    writeTranslation(translationsPath, 'fr', 'common', {
+      BROKEN: '{count, plural, one {# article} other {# articles}',
+      GREETING: 'Bonjour {nom}',
+      ITEMS: '{count, plural, one {# article} other {# articles}}',
+      LEGACY: 'Bonjour {{name}}'
+    });
+
+    const result = validateTranslations(testDir);
+
+    expect(result.valid).toBe(false);
+    expect(result.messageFormat).toEqual([
+      expect.objectContaining({ key: 'BROKEN', error: expect.stringContaining("Expected '}'") })
+    ]);
+    expect(result.variableMismatch).toEqual([
+      expect.objectContaining({ key: 'GREETING', missingVariables: ['name'], extraVariables: ['nom'] })
+    ]);
+  });
+});
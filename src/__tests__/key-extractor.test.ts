@@ -0,0 +1,133 @@
+import { extractKeyUsages, resolveKeyUsage } from '../translations/utils/key-extractor.js';
+
+describe('extractKeyUsages', () => {
+  test('collects t, i18n.t and $t calls with their line and default value', () => {
+    const source = [
+      "import i18n from 'i18next';",
+      "const title = t('TITLE');",
+      'const label = i18n.t("LABEL", "Fallback label");',
+      'const vue = $t(`VUE_KEY`);',
+      'function t(key) { return key; }'
+    ].join('\n');
+
+    expect(extractKeyUsages(source, 'src/app.ts')).toEqual([
+      { key: 'TITLE', dynamic: false, file: 'src/app.ts', line: 2 },
+      { key: 'LABEL', dynamic: false, defaultValue: 'Fallback label', file: 'src/app.ts', line: 3 },
+      { key: 'VUE_KEY', dynamic: false, file: 'src/app.ts', line: 4 }
+    ]);
+  });
+
+  test('scopes calls to the namespace of useTranslation and reads <Trans> elements', () => {
+    const source = `
+      export function Settings() {
+        const { t } = useTranslation(['settings', 'common']);
+        return (
+          <div title={t('SAVE')}>
+            <p>Don't lose your changes</p>
+            <Trans i18nKey="WARNING" defaults="Careful" />
+            <Trans ns="errors" i18nKey={'FAILED'}>Failed</Trans>
+          </div>
+        );
+      }
+    `;
+
+    expect(extractKeyUsages(source, 'src/settings.tsx')).toEqual([
+      { key: 'SAVE', dynamic: false, namespaces: ['settings', 'common'], file: 'src/settings.tsx', line: 5 },
+      {
+        key: 'WARNING',
+        dynamic: false,
+        namespaces: ['settings', 'common'],
+        defaultValue: 'Careful',
+        file: 'src/settings.tsx',
+        line: 7
+      },
+      { key: 'FAILED', dynamic: false, namespaces: ['errors'], file: 'src/settings.tsx', line: 8 }
+    ]);
+  });
+
+  test('reads the ns and defaultValue options of t calls', () => {
+    const source = [
+      "const a = t('SAVE', { ns: 'settings', count: items.length });",
+      "const b = t('RETRY', 'Try again', { ns: ['errors', 'common'] });",
+      "const c = t('settings:RESET', { defaultValue: 'Reset', nested: { ns: 'ignored' } });"
+    ].join('\n');
+
+    expect(extractKeyUsages(source, 'src/options.ts')).toEqual([
+      { key: 'SAVE', dynamic: false, namespaces: ['settings'], file: 'src/options.ts', line: 1 },
+      {
+        key: 'RETRY',
+        dynamic: false,
+        namespaces: ['errors', 'common'],
+        defaultValue: 'Try again',
+        file: 'src/options.ts',
+        line: 2
+      },
+      { key: 'settings:RESET', dynamic: false, defaultValue: 'Reset', file: 'src/options.ts', line: 3 }
+    ]);
+  });
+
+  test('keeps the static start of keys built at runtime', () => {
+    const source = `const status = t(\`status.\${code}\`, { code });\nconst other = t(\`\${key}\`);`;
+
+    expect(extractKeyUsages(source, 'src/status.ts')).toEqual([
+      { key: 'status.', dynamic: true, file: 'src/status.ts', line: 1 }
+    ]);
+  });
+
+  test('ignores comments, regular expressions and keys in other strings', () => {
+    const source = [
+      "// t('COMMENTED')",
+      "/* t('BLOCK_COMMENTED') */",
+      "const pattern = /t\\('REGEX'\\)/;",
+      'const text = "t(\'IN_STRING\')";',
+      "const used = t('USED');"
+    ].join('\n');
+
+    expect(extractKeyUsages(source, 'src/misc.ts').map((usage) => usage.key)).toEqual(['USED']);
+  });
+
+  test('reads keys between several closing tags on one line', () => {
+    const source = "<div><span>{t('first')}</span><span>{t('second')}</span><b>{t('third')}</b></div>";
+
+    expect(extractKeyUsages(source, 'src/list.tsx').map((usage) => usage.key)).toEqual(['first', 'second', 'third']);
+  });
+
+  test('reads Vue templates, attributes and script blocks', () => {
+    const source = [
+      '<template>',
+      '  <h1>{{ $t("HEADING") }}</h1>',
+      '  <input :placeholder="$t(\'PLACEHOLDER\')" type="text" />',
+      '</template>',
+      '<script setup lang="ts">',
+      "const message = t('SCRIPT_KEY');",
+      '</script>'
+    ].join('\n');
+
+    expect(extractKeyUsages(source, 'src/Page.vue').map((usage) => [usage.key, usage.line])).toEqual([
+      ['HEADING', 2],
+      ['PLACEHOLDER', 3],
+      ['SCRIPT_KEY', 6]
+    ]);
+  });
+});
+
+describe('resolveKeyUsage', () => {
+  const usage = { dynamic: false, file: 'src/app.ts', line: 1 };
+
+  test('resolves the namespace prefix, the named namespaces or the default namespace', () => {
+    const namespaces = ['common', 'settings'];
+
+    expect(resolveKeyUsage({ ...usage, key: 'settings:SAVE' }, namespaces, 'common')).toEqual({
+      namespaces: ['settings'],
+      key: 'SAVE'
+    });
+    expect(resolveKeyUsage({ ...usage, key: 'SAVE', namespaces: ['settings'] }, namespaces, 'common')).toEqual({
+      namespaces: ['settings'],
+      key: 'SAVE'
+    });
+    expect(resolveKeyUsage({ ...usage, key: 'TIME: {{time}}' }, namespaces, 'common')).toEqual({
+      namespaces: ['common'],
+      key: 'TIME: {{time}}'
+    });
+  });
+});
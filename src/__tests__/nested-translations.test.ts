@@ -2,7 +2,9 @@ import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { validateTranslations } from '../translations/cli/validate.js';
+import { TranslationStore } from '../translations/utils/translation-store.js';
 import {
+  detectFileStructure,
   flattenObject,
   isNestedObject,
   readTranslations,
@@ -593,7 +595,7 @@ describe('Nested Translation Validation', () => {
   });
 
   describe('Sync with nested structures', () => {
-    test('should sync and add missing nested keys as flat keys', () => {
+    test('should sync and create target files in the nested shape of the source', () => {
       // Source with nested structure
       const sourceNested = {
         home: {
@@ -612,12 +614,10 @@ describe('Nested Translation Validation', () => {
 
       syncTranslationStructure(translationsPath, ['en', 'fr'], 'en');
 
-      // After sync, French should have the flattened keys with empty values
+      // After sync, French should mirror the nested source with empty values
       const frContent = JSON.parse(fs.readFileSync(frCommonPath, 'utf-8'));
 
-      // The sync adds missing keys with empty values (flattened from nested source)
-      expect(frContent['home.title']).toBe('');
-      expect(frContent['home.description']).toBe('');
+      expect(frContent).toEqual({ home: { title: '', description: '' } });
     });
 
     test('should clean orphaned nested keys', () => {
@@ -646,10 +646,114 @@ describe('Nested Translation Validation', () => {
       expect(syncResult.cleanedKeys).toHaveLength(1);
       expect(syncResult.cleanedKeys[0].key).toBe('home.orphanedKey');
 
-      // Verify file no longer contains orphaned key
+      // Verify file no longer contains orphaned key and is still nested
       const frContent = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
-      expect(frContent['home.orphanedKey']).toBeUndefined();
-      expect(frContent['home.title']).toBe('Accueil');
+      expect(frContent).toEqual({ home: { title: 'Accueil' } });
     });
   });
 });
+
+describe('Structure preservation on write', () => {
+  let testDir: string;
+  let translationsPath: string;
+
+  const readJson = (language: string, namespace: string) =>
+    JSON.parse(fs.readFileSync(path.join(translationsPath, language, `${namespace}.json`), 'utf-8'));
+
+  const writeJson = (language: string, namespace: string, content: unknown) => {
+    fs.mkdirSync(path.join(translationsPath, language), { recursive: true });
+    fs.writeFileSync(path.join(translationsPath, language, `${namespace}.json`), JSON.stringify(content, null, 2));
+  };
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    translationsPath = path.join(testDir, 'locales');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('should detect nested, flat and ambiguous files', () => {
+    writeJson('en', 'nested', { home: { title: 'Home' } });
+    writeJson('en', 'flat', { 'home.title': 'Home' });
+    writeJson('en', 'plain', { HELLO: 'Hello' });
+
+    expect(detectFileStructure(path.join(translationsPath, 'en', 'nested.json'))).toBe('nested');
+    expect(detectFileStructure(path.join(translationsPath, 'en', 'flat.json'))).toBe('flat');
+    expect(detectFileStructure(path.join(translationsPath, 'en', 'plain.json'))).toBeNull();
+    expect(detectFileStructure(path.join(translationsPath, 'en', 'missing.json'))).toBeNull();
+  });
+
+  test('should round-trip a nested file through read and write', () => {
+    const nested = { home: { title: 'Home', meta: { description: 'Welcome' } }, SAVE: 'Save' };
+    writeJson('en', 'common', nested);
+
+    const translations = readTranslations(translationsPath, 'en');
+    translations.common['home.subtitle'] = 'Subtitle';
+    writeTranslation(translationsPath, 'en', 'common', translations.common);
+
+    expect(readJson('en', 'common')).toEqual({
+      home: { title: 'Home', subtitle: 'Subtitle', meta: { description: 'Welcome' } },
+      SAVE: 'Save'
+    });
+  });
+
+  test('should keep flat files with dot-notation keys flat', () => {
+    writeJson('en', 'common', { 'home.title': 'Home' });
+
+    writeTranslation(translationsPath, 'en', 'common', { 'home.title': 'Home', 'home.subtitle': 'Subtitle' });
+
+    expect(readJson('en', 'common')).toEqual({ 'home.title': 'Home', 'home.subtitle': 'Subtitle' });
+  });
+
+  test('should follow the shape of the same namespace in other languages for new files', () => {
+    writeJson('en', 'common', { home: { title: 'Home' } });
+
+    writeTranslation(translationsPath, 'fr', 'common', { 'home.title': 'Accueil' });
+
+    expect(readJson('fr', 'common')).toEqual({ home: { title: 'Accueil' } });
+  });
+
+  test('should keep each namespace shape in a mixed project', () => {
+    writeJson('en', 'common', { home: { title: 'Home' } });
+    writeJson('en', 'errors', { 'form.required': 'Required' });
+    writeJson('fr', 'common', { home: { title: '' } });
+    writeJson('fr', 'errors', { 'form.required': '' });
+
+    const store = new TranslationStore(translationsPath, 'fr');
+    store.set('common', 'home.title', 'Accueil');
+    store.set('errors', 'form.required', 'Obligatoire');
+    return store.flush().then(() => {
+      expect(readJson('fr', 'common')).toEqual({ home: { title: 'Accueil' } });
+      expect(readJson('fr', 'errors')).toEqual({ 'form.required': 'Obligatoire' });
+    });
+  });
+
+  test('should force a project-wide style when configured', () => {
+    writeJson('en', 'common', { home: { title: 'Home' } });
+    writeJson('en', 'errors', { 'form.required': 'Required' });
+
+    writeTranslation(translationsPath, 'en', 'common', { 'home.title': 'Home' }, 'flat');
+    writeTranslation(translationsPath, 'en', 'errors', { 'form.required': 'Required' }, 'nested');
+
+    expect(readJson('en', 'common')).toEqual({ 'home.title': 'Home' });
+    expect(readJson('en', 'errors')).toEqual({ form: { required: 'Required' } });
+  });
+
+  test('should fall back to flat keys when nesting would lose values', () => {
+    writeJson('en', 'common', { home: { title: 'Home' } });
+
+    writeTranslation(translationsPath, 'en', 'common', { home: 'Home', 'home.title': 'Title' });
+
+    expect(readJson('en', 'common')).toEqual({ home: 'Home', 'home.title': 'Title' });
+  });
+
+  test('should create target files with the forced style during sync', () => {
+    writeJson('en', 'common', { 'home.title': 'Home' });
+
+    syncTranslationStructure(translationsPath, ['en', 'fr'], 'en', { fileStructure: 'nested' });
+
+    expect(readJson('fr', 'common')).toEqual({ home: { title: '' } });
+  });
+});
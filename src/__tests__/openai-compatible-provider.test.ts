@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { isValidLanguageForProvider, TRANSLATION_PROVIDERS } from '../translations/core/schema.js';
+import { OpenAICompatibleTranslateProvider } from '../translations/utils/openai-compatible-translate-provider.js';
+import { buildTranslationContext } from '../translations/utils/translator.js';
+
+const mockFetch = jest.fn<typeof fetch>();
+global.fetch = mockFetch;
+
+function chatResponse(content: string): Response {
+  return {
+    ok: true,
+    json: async () => ({ choices: [{ message: { role: 'assistant', content } }] })
+  } as unknown as Response;
+}
+
+function requestBody(callIndex: number): { model: string; messages: Array<{ role: string; content: string }> } {
+  return JSON.parse((mockFetch.mock.calls[callIndex][1] as RequestInit).body as string);
+}
+
+describe('OpenAICompatibleTranslateProvider', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  test('is registered as a provider', () => {
+    expect(TRANSLATION_PROVIDERS).toContain('openai-compatible');
+    expect(isValidLanguageForProvider('pt_br', 'openai-compatible')).toBe(true);
+  });
+
+  test('posts to the configured base URL and model', async () => {
+    mockFetch.mockResolvedValue(chatResponse('Bonjour'));
+    const provider = new OpenAICompatibleTranslateProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'llama3' });
+
+    const result = await provider.translate({ text: 'Hello', sourceLang: 'en', targetLang: 'fr' });
+
+    expect(result).toBe('Bonjour');
+    expect(mockFetch.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+    expect(requestBody(0).model).toBe('llama3');
+    // No API key means no Authorization header, as local servers expect
+    const headers = (mockFetch.mock.calls[0][1] as RequestInit).headers as Record<string, string>;
+    expect(headers.Authorization).toBeUndefined();
+  });
+
+  test('sends the API key as a bearer token', async () => {
+    mockFetch.mockResolvedValue(chatResponse('Bonjour'));
+    const provider = new OpenAICompatibleTranslateProvider();
+
+    await provider.translate({ text: 'Hello', sourceLang: 'en', targetLang: 'fr', apiKey: 'sk-test' });
+
+    expect(mockFetch.mock.calls[0][0]).toBe('https://api.openai.com/v1/chat/completions');
+    const headers = (mockFetch.mock.calls[0][1] as RequestInit).headers as Record<string, string>;
+    expect(headers.Authorization).toBe('Bearer sk-test');
+  });
+
+  test('sends namespace, key, protected terms and neighbours as context', async () => {
+    mockFetch.mockResolvedValue(chatResponse('Bienvenue chez XXX_0_XXX, XXX_1_XXX'));
+    const provider = new OpenAICompatibleTranslateProvider();
+    const context = buildTranslationContext(
+      { CANCEL: 'Cancel', SAVE: 'Save', WELCOME: 'Welcome to Vandelay Industries, {{name}}' },
+      'common',
+      'WELCOME'
+    );
+
+    const result = await provider.translate({
+      text: 'Welcome to Vandelay Industries, {{name}}',
+      sourceLang: 'en',
+      targetLang: 'fr',
+      protectedTerms: ['Vandelay Industries'],
+      context
+    });
+
+    const userMessage = requestBody(0).messages[1].content;
+    expect(userMessage).toContain('Namespace: common');
+    expect(userMessage).toContain('Key: WELCOME');
+    expect(userMessage).toContain('Vandelay Industries');
+    expect(userMessage).toContain('- SAVE: Save');
+    expect(userMessage).toContain('Welcome to XXX_0_XXX, XXX_1_XXX');
+    expect(result).toBe('Bienvenue chez Vandelay Industries, {{name}}');
+  });
+
+  test('rejects output that drops placeholders', async () => {
+    mockFetch.mockResolvedValue(chatResponse('Bonjour'));
+    const provider = new OpenAICompatibleTranslateProvider();
+
+    await expect(provider.translate({ text: 'Hello {{name}}', sourceLang: 'en', targetLang: 'fr' })).rejects.toThrow(
+      'dropped placeholders XXX_0_XXX'
+    );
+  });
+
+  test('translates batches one text at a time with per-item context', async () => {
+    mockFetch.mockResolvedValueOnce(chatResponse('Enregistrer')).mockResolvedValueOnce(chatResponse('Annuler'));
+    const provider = new OpenAICompatibleTranslateProvider();
+
+    const result = await provider.translateBatch(['Save', 'Cancel'], 'en', 'fr', undefined, 0, {
+      contexts: [
+        { namespace: 'common', key: 'SAVE' },
+        { namespace: 'common', key: 'CANCEL' }
+      ]
+    });
+
+    expect(result).toEqual(['Enregistrer', 'Annuler']);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(requestBody(1).messages[1].content).toContain('Key: CANCEL');
+  });
+
+  test('surfaces API errors', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      json: async () => ({ error: { message: 'Invalid API key' } })
+    } as unknown as Response);
+    const provider = new OpenAICompatibleTranslateProvider();
+
+    await expect(provider.translate({ text: 'Hello', sourceLang: 'en', targetLang: 'fr' })).rejects.toThrow(
+      'OpenAI-compatible API error: Invalid API key (401)'
+    );
+  });
+});
@@ -37,7 +37,7 @@ describe('Orphaned Keys Detection and Removal', () => {
   });
 
   describe('Detection', () => {
-    test('should detect and clean orphaned keys during validation', () => {
+    test('should detect orphaned keys without modifying files', () => {
       // Setup: Create source translations
       writeTranslation(translationsPath, 'en', 'common', {
         hello: 'Hello',
@@ -61,20 +61,19 @@ describe('Orphaned Keys Detection and Removal', () => {
       const frBeforeSync = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
       expect(frBeforeSync.orphanedKey).toBe('This key does not exist in source');
 
-      // Execute validation (which auto-cleans orphaned keys via sync)
+      // Execute validation (read-only)
       const result = validateTranslations(testDir);
 
-      // Assert: After validation with auto-clean, should be valid
-      expect(result.valid).toBe(true);
-      expect(result.orphaned).toHaveLength(0);
+      // Assert: Orphaned keys are reported
+      expect(result.valid).toBe(false);
+      expect(result.orphaned).toEqual([
+        { namespace: 'common', key: 'orphanedKey', language: 'fr', value: 'This key does not exist in source' },
+        { namespace: 'common', key: 'anotherOrphan', language: 'es', value: 'Another orphaned key' }
+      ]);
 
-      // Verify orphaned keys were removed from files
-      const frAfterSync = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
-      expect(frAfterSync.orphanedKey).toBeUndefined();
-      expect(frAfterSync).toEqual({
-        hello: 'Bonjour',
-        goodbye: 'Au revoir'
-      });
+      // Verify the files were left alone
+      const frAfterValidation = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
+      expect(frAfterValidation).toEqual(frBeforeSync);
     });
 
     test('should not detect orphaned keys when all keys match source', () => {
@@ -102,7 +101,7 @@ describe('Orphaned Keys Detection and Removal', () => {
       expect(result.valid).toBe(true);
     });
 
-    test('should detect and clean orphaned keys across multiple namespaces', () => {
+    test('should detect orphaned keys across multiple namespaces and namespace files', () => {
       // Setup: Create source translations with multiple namespaces
       writeTranslation(translationsPath, 'en', 'common', {
         hello: 'Hello'
@@ -129,21 +128,54 @@ describe('Orphaned Keys Detection and Removal', () => {
       expect(frCommonBefore.oldKey).toBe('Old key');
       expect(frErrorsBefore.deprecatedError).toBe('Deprecated');
 
-      // Execute validation (auto-cleans via sync)
+      // Namespace file that no longer exists in source
+      writeTranslation(translationsPath, 'fr', 'legacy', { oldTitle: 'Ancien titre' });
+
+      // Execute validation (read-only)
       const result = validateTranslations(testDir);
 
-      // Assert: Should have cleaned orphaned keys
-      expect(result.orphaned).toHaveLength(0);
+      // Assert: Should report every orphaned key
+      expect(result.orphaned.map(({ namespace, key }) => `${namespace}:${key}`).sort()).toEqual([
+        'common:oldKey',
+        'errors:deprecatedError',
+        'legacy:oldTitle'
+      ]);
 
-      // Verify orphaned keys were removed
-      const frCommonAfter = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
+      // Verify nothing was removed
+      expect(fs.existsSync(path.join(translationsPath, 'fr', 'legacy.json'))).toBe(true);
       const frErrorsAfter = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'errors.json'), 'utf-8'));
-      expect(frCommonAfter.oldKey).toBeUndefined();
-      expect(frErrorsAfter.deprecatedError).toBeUndefined();
+      expect(frErrorsAfter.deprecatedError).toBe('Deprecated');
     });
   });
 
   describe('Removal', () => {
+    test('should only report orphaned keys and namespaces in a dry run', () => {
+      writeTranslation(translationsPath, 'en', 'common', { hello: 'Hello' });
+      writeTranslation(translationsPath, 'fr', 'common', { hello: 'Bonjour', orphanedKey: 'Orphaned' });
+      writeTranslation(translationsPath, 'fr', 'legacy', { oldTitle: 'Ancien titre' });
+
+      const syncResult = syncTranslationStructure(translationsPath, ['en', 'fr', 'es'], 'en', { dryRun: true });
+
+      expect(syncResult.cleanedKeys).toEqual([
+        {
+          language: 'fr',
+          namespace: 'common',
+          key: 'orphanedKey',
+          path: path.join(translationsPath, 'fr', 'common.json')
+        }
+      ]);
+      expect(syncResult.removedNamespaces).toEqual([
+        { language: 'fr', namespace: 'legacy', path: path.join(translationsPath, 'fr', 'legacy.json') }
+      ]);
+      expect(syncResult.createdFiles.map((file) => file.language)).toEqual(['es']);
+
+      // Nothing was written or deleted
+      const frCommon = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
+      expect(frCommon.orphanedKey).toBe('Orphaned');
+      expect(fs.existsSync(path.join(translationsPath, 'fr', 'legacy.json'))).toBe(true);
+      expect(fs.existsSync(path.join(translationsPath, 'es', 'common.json'))).toBe(false);
+    });
+
     test('should remove orphaned keys during sync', () => {
       // Setup: Create source translations
       writeTranslation(translationsPath, 'en', 'common', {
@@ -166,7 +198,8 @@ describe('Orphaned Keys Detection and Removal', () => {
       expect(syncResult.cleanedKeys[0]).toEqual({
         language: 'fr',
         namespace: 'common',
-        key: 'orphanedKey'
+        key: 'orphanedKey',
+        path: path.join(translationsPath, 'fr', 'common.json')
       });
 
       // Assert: File should no longer contain the orphaned key
@@ -269,7 +302,7 @@ describe('Orphaned Keys Detection and Removal', () => {
   });
 
   describe('Validation after sync', () => {
-    test('should pass validation after sync removes orphaned keys', () => {
+    test('should pass validation after --fix removes orphaned keys', () => {
       // Setup: Create source
       writeTranslation(translationsPath, 'en', 'common', {
         hello: 'Hello'
@@ -286,8 +319,8 @@ describe('Orphaned Keys Detection and Removal', () => {
         hello: 'Hola'
       });
 
-      // Execute validation (which triggers sync)
-      const result = validateTranslations(testDir);
+      // Execute validation with fix (which triggers sync)
+      const result = validateTranslations(testDir, { fix: true });
 
       // Assert: Validation should pass after sync
       expect(result.valid).toBe(true);
@@ -447,7 +480,8 @@ describe('Orphaned Keys Detection and Removal', () => {
       expect(syncResult.cleanedKeys[0]).toEqual({
         language: 'fr',
         namespace: 'common',
-        key: 'orphanedKey'
+        key: 'orphanedKey',
+        path: path.join(translationsPath, 'fr', 'common.json')
       });
 
       // Verify orphaned namespace file was removed
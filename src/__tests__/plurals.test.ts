@@ -0,0 +1,135 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { validateTranslations } from '../translations/cli/validate.js';
+import {
+  getExpectedTranslationKeys,
+  getPluralCategories,
+  getSuperfluousPluralForms
+} from '../translations/utils/plurals.js';
+import { readTranslations, syncTranslationStructure, writeTranslation } from '../translations/utils/utils.js';
+
+describe('getPluralCategories', () => {
+  test('uses the CLDR plural rules of each language', () => {
+    expect(getPluralCategories('en')).toEqual(['one', 'other']);
+    expect(getPluralCategories('pl')).toEqual(['one', 'few', 'many', 'other']);
+    expect(getPluralCategories('ja')).toEqual(['other']);
+    expect(getPluralCategories('ar')).toEqual(['zero', 'one', 'two', 'few', 'many', 'other']);
+  });
+
+  test('handles region codes, ordinals and unknown languages', () => {
+    expect(getPluralCategories('pt_br')).toEqual(getPluralCategories('pt-BR'));
+    expect(getPluralCategories('en', true)).toEqual(['one', 'two', 'few', 'other']);
+    expect(getPluralCategories('xx')).toBeNull();
+  });
+});
+
+describe('getExpectedTranslationKeys', () => {
+  const source = {
+    CART_TITLE: 'Cart',
+    items_one: 'One item',
+    items_other: '{{count}} items',
+    step_one: 'First step',
+    step: 'Step'
+  };
+
+  test('gives plural groups the forms of the target language', () => {
+    expect(Object.fromEntries(getExpectedTranslationKeys(source, 'pl'))).toEqual({
+      CART_TITLE: 'CART_TITLE',
+      items_one: 'items_one',
+      items_few: 'items_other',
+      items_many: 'items_other',
+      items_other: 'items_other',
+      step_one: 'step_one',
+      step: 'step'
+    });
+    expect([...getExpectedTranslationKeys(source, 'ja').keys()]).toEqual([
+      'CART_TITLE',
+      'items_other',
+      'step_one',
+      'step'
+    ]);
+  });
+
+  test('keeps a _zero form from the source in every language', () => {
+    const keys = getExpectedTranslationKeys(
+      { items_zero: 'No items', items_one: 'One item', items_other: 'Items' },
+      'ja'
+    );
+
+    expect([...keys.keys()]).toEqual(['items_zero', 'items_other']);
+  });
+
+  test('keeps the source forms for languages without plural rules', () => {
+    expect([...getExpectedTranslationKeys(source, 'xx').keys()]).toEqual(Object.keys(source));
+  });
+
+  test('finds plural forms a language does not use', () => {
+    expect(getSuperfluousPluralForms(source, { items_one: 'x', items_other: 'y', step_one: 'z' }, 'ja')).toEqual([
+      'items_one'
+    ]);
+  });
+});
+
+describe('Plural forms in sync and validation', () => {
+  let testDir: string;
+  let translationsPath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    translationsPath = path.join(testDir, 'locales');
+    fs.writeFileSync(
+      path.join(testDir, '.translationsrc.json'),
+      JSON.stringify({ translationsPath: 'locales', languages: ['en', 'pl', 'ja'], sourceLanguage: 'en' })
+    );
+    writeTranslation(translationsPath, 'en', 'common', { items_one: 'One item', items_other: '{{count}} items' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('creates the plural forms each language needs', () => {
+    syncTranslationStructure(translationsPath, ['en', 'pl', 'ja'], 'en');
+
+    expect(Object.keys(readTranslations(translationsPath, 'pl').common)).toEqual([
+      'items_one',
+      'items_few',
+      'items_many',
+      'items_other'
+    ]);
+    expect(Object.keys(readTranslations(translationsPath, 'ja').common)).toEqual(['items_other']);
+  });
+
+  test('reports missing and superfluous plural forms', () => {
+    writeTranslation(translationsPath, 'pl', 'common', {
+      items_one: 'Jeden element',
+      items_other: '{{count}} elementu'
+    });
+    writeTranslation(translationsPath, 'ja', 'common', { items_one: '1 個', items_other: '{{count}} 個' });
+
+    const result = validateTranslations(testDir);
+
+    expect(result.valid).toBe(false);
+    expect(result.plurals).toEqual([
+      expect.objectContaining({ language: 'pl', key: 'items_few', problem: 'missing', sourceValue: '{{count}} items' }),
+      expect.objectContaining({
+        language: 'pl',
+        key: 'items_many',
+        problem: 'missing',
+        sourceValue: '{{count}} items'
+      }),
+      expect.objectContaining({ language: 'ja', key: 'items_one', problem: 'superfluous', value: '1 個' })
+    ]);
+    expect(result.orphaned).toEqual([]);
+  });
+
+  test('removes superfluous plural forms with --fix', () => {
+    writeTranslation(translationsPath, 'ja', 'common', { items_one: '1 個', items_other: '{{count}} 個' });
+
+    validateTranslations(testDir, { fix: true });
+
+    expect(readTranslations(translationsPath, 'ja').common).toEqual({ items_other: '{{count}} 個' });
+  });
+});
@@ -0,0 +1,180 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { autoFillTranslations } from '../translations/cli/auto-fill.js';
+import { DeepLTranslateProvider } from '../translations/utils/deepl-translate-provider.js';
+import { FailoverTranslateProvider } from '../translations/utils/failover-translate-provider.js';
+import { GoogleTranslateProvider } from '../translations/utils/google-translate-provider.js';
+import { readTranslationLock } from '../translations/utils/lockfile.js';
+import { OpenAICompatibleTranslateProvider } from '../translations/utils/openai-compatible-translate-provider.js';
+import { TranslationProviderError } from '../translations/utils/provider-error.js';
+import { registerTranslationProvider } from '../translations/utils/provider-registry.js';
+import { resetTranslationProvider } from '../translations/utils/translator.js';
+import type { TranslateOptions, TranslationProvider } from '../translations/utils/translator-interface.js';
+import { writeTranslation } from '../translations/utils/utils.js';
+
+/**
+ * Provider that tags translations with its name, or fails with a given HTTP status
+ */
+class TaggingProvider implements TranslationProvider {
+  failWith?: number;
+  readonly calls: string[] = [];
+
+  constructor(private readonly name: string) {}
+
+  async translate(options: TranslateOptions): Promise<string> {
+    const [translated] = await this.translateBatch([options.text], options.sourceLang, options.targetLang);
+    return translated;
+  }
+
+  async translateBatch(texts: string[], _sourceLang: string, targetLang: string): Promise<string[]> {
+    this.calls.push(targetLang);
+    if (this.failWith) {
+      throw new TranslationProviderError(`${this.name} failed (${this.failWith})`, this.name, this.failWith);
+    }
+    return texts.map((text) => `${this.name}:${targetLang}:${text}`);
+  }
+}
+
+describe('FailoverTranslateProvider', () => {
+  let deepl: TaggingProvider;
+  let google: TaggingProvider;
+  let warnSpy: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    deepl = new TaggingProvider('deepl');
+    google = new TaggingProvider('google');
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    // Providers after the primary one read their own key from the environment
+    process.env.GOOGLE_TRANSLATE_API_KEY = 'google-key';
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+    delete process.env.GOOGLE_TRANSLATE_API_KEY;
+  });
+
+  test('skips providers without an API key', async () => {
+    delete process.env.GOOGLE_TRANSLATE_API_KEY;
+    const chain = createChain();
+
+    await expect(chain.translateBatch(['Hello'], 'en', 'sw', 'key', 0)).rejects.toThrow(
+      'No provider with an API key is available for sw'
+    );
+  });
+
+  function createChain(overrides: Record<string, string[]> = {}): FailoverTranslateProvider {
+    return new FailoverTranslateProvider(
+      new Map<string, TranslationProvider>([
+        ['deepl', deepl],
+        ['google', google]
+      ]),
+      ['deepl', 'google'],
+      overrides
+    );
+  }
+
+  test('routes each language to the first provider that supports it', async () => {
+    const chain = createChain();
+
+    expect(await chain.translateBatchWithProvider(['Hello'], 'en', 'fr', 'key', 0)).toEqual({
+      translations: ['deepl:fr:Hello'],
+      provider: 'deepl'
+    });
+    // DeepL has no Swahili, so it goes straight to Google
+    expect(await chain.translateBatchWithProvider(['Hello'], 'en', 'sw', 'key', 0)).toEqual({
+      translations: ['google:sw:Hello'],
+      provider: 'google'
+    });
+    expect(deepl.calls).toEqual(['fr']);
+  });
+
+  test('uses per-language overrides', async () => {
+    const chain = createChain({ fr: ['google'] });
+
+    const result = await chain.translateBatchWithProvider(['Hello'], 'en', 'fr', 'key', 0);
+
+    expect(result.provider).toBe('google');
+    expect(deepl.calls).toHaveLength(0);
+  });
+
+  test.each([503, 429, 456])('falls back to the next provider on %i', async (status) => {
+    deepl.failWith = status;
+    const chain = createChain();
+
+    const result = await chain.translateBatchWithProvider(['Hello'], 'en', 'fr', 'key', 0);
+
+    expect(result).toEqual({ translations: ['google:fr:Hello'], provider: 'google' });
+  });
+
+  test('does not fall back on client errors', async () => {
+    deepl.failWith = 400;
+    const chain = createChain();
+
+    await expect(chain.translateBatch(['Hello'], 'en', 'fr', 'key', 0)).rejects.toThrow('deepl failed (400)');
+    expect(google.calls).toHaveLength(0);
+  });
+
+  test('throws the last error when every provider is unavailable', async () => {
+    deepl.failWith = 503;
+    google.failWith = 500;
+    const chain = createChain();
+
+    await expect(chain.translateBatch(['Hello'], 'en', 'fr', 'key', 0)).rejects.toThrow('google failed (500)');
+  });
+});
+
+describe('Provider chain from config', () => {
+  let testDir: string;
+  let warnSpy: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+    resetTranslationProvider();
+    registerTranslationProvider('deepl', () => new DeepLTranslateProvider());
+    registerTranslationProvider('google', () => new GoogleTranslateProvider());
+    registerTranslationProvider('openai-compatible', () => new OpenAICompatibleTranslateProvider());
+    delete process.env.GOOGLE_TRANSLATE_API_KEY;
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('auto-fill records the provider that produced each translation', async () => {
+    const unavailableLlm = new TaggingProvider('openai-compatible');
+    unavailableLlm.failWith = 503;
+    registerTranslationProvider('deepl', () => new TaggingProvider('deepl'));
+    registerTranslationProvider('google', () => new TaggingProvider('google'));
+    registerTranslationProvider('openai-compatible', () => unavailableLlm);
+    process.env.GOOGLE_TRANSLATE_API_KEY = 'google-key';
+
+    fs.writeFileSync(
+      path.join(testDir, '.translationsrc.json'),
+      JSON.stringify({
+        translationsPath: 'locales',
+        languages: ['en', 'de', 'sw', 'ja'],
+        sourceLanguage: 'en',
+        provider: ['deepl', 'google'],
+        providerOverrides: { ja: ['openai-compatible', 'google'] }
+      })
+    );
+    writeTranslation(path.join(testDir, 'locales'), 'en', 'common', { SAVE: 'Save' });
+
+    await autoFillTranslations(testDir, { apiKey: 'test-key', delayMs: 0 });
+
+    const read = (language: string) =>
+      JSON.parse(fs.readFileSync(path.join(testDir, 'locales', language, 'common.json'), 'utf-8'));
+    expect(read('de')).toEqual({ SAVE: 'deepl:de:Save' });
+    expect(read('sw')).toEqual({ SAVE: 'google:sw:Save' });
+    expect(read('ja')).toEqual({ SAVE: 'google:ja:Save' });
+
+    const lock = readTranslationLock(testDir);
+    expect(lock.translations.de.common.SAVE.provider).toBe('deepl');
+    expect(lock.translations.sw.common.SAVE.provider).toBe('google');
+    expect(lock.translations.ja.common.SAVE.provider).toBe('google');
+  });
+});
@@ -0,0 +1,142 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { autoFillTranslations } from '../translations/cli/auto-fill.js';
+import { DeepLTranslateProvider } from '../translations/utils/deepl-translate-provider.js';
+import { OpenAICompatibleTranslateProvider } from '../translations/utils/openai-compatible-translate-provider.js';
+import {
+  configRequiresApiKey,
+  createProviderFromConfig,
+  listTranslationProviders,
+  registerTranslationProvider,
+  unregisterTranslationProvider,
+  useConfiguredTranslationProvider
+} from '../translations/utils/provider-registry.js';
+import {
+  getTranslationProvider,
+  resetTranslationProvider,
+  setTranslationProvider
+} from '../translations/utils/translator.js';
+import type { TranslateOptions, TranslationProvider } from '../translations/utils/translator-interface.js';
+import { writeTranslation } from '../translations/utils/utils.js';
+
+class EchoProvider implements TranslationProvider {
+  async translate(options: TranslateOptions): Promise<string> {
+    return `echo:${options.text}`;
+  }
+
+  async translateBatch(texts: string[]): Promise<string[]> {
+    return texts.map((text) => `echo:${text}`);
+  }
+}
+
+describe('Provider registry', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+  });
+
+  afterEach(() => {
+    resetTranslationProvider();
+    unregisterTranslationProvider('echo');
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('registers the built-in providers', () => {
+    expect(listTranslationProviders()).toEqual(expect.arrayContaining(['deepl', 'google', 'openai-compatible']));
+  });
+
+  test('creates built-in providers from the config', async () => {
+    expect(await createProviderFromConfig(testDir, { provider: 'deepl' } as never)).toBeInstanceOf(
+      DeepLTranslateProvider
+    );
+    expect(
+      await createProviderFromConfig(testDir, {
+        provider: 'openai-compatible',
+        openaiCompatible: { model: 'llama3' }
+      } as never)
+    ).toBeInstanceOf(OpenAICompatibleTranslateProvider);
+  });
+
+  test('creates providers registered at runtime', async () => {
+    registerTranslationProvider('echo', () => new EchoProvider());
+
+    const provider = await createProviderFromConfig(testDir, { provider: 'echo' } as never);
+
+    expect(await provider.translate({ text: 'Hello', sourceLang: 'en', targetLang: 'fr' })).toBe('echo:Hello');
+  });
+
+  test('throws for unknown providers', async () => {
+    await expect(createProviderFromConfig(testDir, { provider: 'nope' } as never)).rejects.toThrow(
+      'Unknown translation provider "nope"'
+    );
+  });
+
+  test('a provider set with setTranslationProvider takes precedence over the config', async () => {
+    const custom = new EchoProvider();
+    setTranslationProvider(custom);
+
+    await useConfiguredTranslationProvider(testDir, { provider: 'deepl' } as never);
+
+    expect(getTranslationProvider()).toBe(custom);
+  });
+
+  test('only built-in providers that need a key require one', () => {
+    expect(configRequiresApiKey({ provider: 'deepl' })).toBe(true);
+    expect(configRequiresApiKey({ provider: 'openai-compatible' })).toBe(false);
+    expect(configRequiresApiKey({ provider: 'deepl', providerModule: './provider.mjs' })).toBe(false);
+  });
+
+  test('auto-fill uses the factory exported by providerModule', async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'provider.mjs'),
+      `export default function createProvider(config) {
+  return {
+    async translate(options) {
+      return config.sourceLanguage + '>' + options.targetLang + ':' + options.text;
+    },
+    async translateBatch(texts, sourceLang, targetLang) {
+      return texts.map((text) => sourceLang + '>' + targetLang + ':' + text);
+    }
+  };
+}
+`
+    );
+    fs.writeFileSync(
+      path.join(testDir, '.translationsrc.json'),
+      JSON.stringify({
+        translationsPath: 'locales',
+        languages: ['en', 'fr'],
+        sourceLanguage: 'en',
+        providerModule: './provider.mjs'
+      })
+    );
+    writeTranslation(path.join(testDir, 'locales'), 'en', 'common', { SAVE: 'Save' });
+
+    await autoFillTranslations(testDir, { delayMs: 0 });
+
+    const fr = JSON.parse(fs.readFileSync(path.join(testDir, 'locales', 'fr', 'common.json'), 'utf-8'));
+    expect(fr).toEqual({ SAVE: 'en>fr:Save' });
+  });
+
+  test('accepts a default-exported provider class', async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'provider-class.mjs'),
+      `export default class UpperCaseProvider {
+  async translate(options) {
+    return options.text.toUpperCase();
+  }
+  async translateBatch(texts) {
+    return texts.map((text) => text.toUpperCase());
+  }
+}
+`
+    );
+
+    const provider = await createProviderFromConfig(testDir, { providerModule: './provider-class.mjs' } as never);
+
+    expect(await provider.translate({ text: 'Hello', sourceLang: 'en', targetLang: 'fr' })).toBe('HELLO');
+  });
+});
@@ -0,0 +1,124 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { jest } from '@jest/globals';
+import { findUnusedKeys } from '../translations/cli/find-unused.js';
+import { pruneUnusedKeys } from '../translations/cli/prune.js';
+import { hashSourceValue, readTranslationLock, writeTranslationLock } from '../translations/utils/lockfile.js';
+import { readTranslations, writeTranslation } from '../translations/utils/utils.js';
+
+describe('Prune Unused Keys', () => {
+  let testDir: string;
+  let translationsPath: string;
+  let logSpy: jest.SpiedFunction<typeof console.log>;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    translationsPath = path.join(testDir, 'locales');
+    fs.mkdirSync(path.join(testDir, 'src'), { recursive: true });
+
+    const config = {
+      translationsPath: 'locales',
+      languages: ['en', 'fr'],
+      sourceLanguage: 'en',
+      typesOutputPath: 'src/types/i18nTypes.ts',
+      searchPaths: ['src'],
+      searchExtensions: ['.ts'],
+      ignoreUnusedKeys: ['errors:LEGACY_*']
+    };
+    fs.writeFileSync(path.join(testDir, '.translationsrc.json'), JSON.stringify(config, null, 2));
+
+    writeTranslation(translationsPath, 'en', 'common', {
+      SAVE: 'Save',
+      OLD: 'Old',
+      'status.active': 'Active',
+      'status.closed': 'Closed'
+    });
+    writeTranslation(translationsPath, 'en', 'errors', { LEGACY_TIMEOUT: 'Timeout', GONE: 'Gone' });
+    writeTranslation(translationsPath, 'fr', 'common', {
+      SAVE: 'Enregistrer',
+      OLD: 'Ancien',
+      'status.active': 'Actif',
+      'status.closed': 'Fermé'
+    });
+    writeTranslation(translationsPath, 'fr', 'errors', { LEGACY_TIMEOUT: 'Délai dépassé', GONE: 'Disparu' });
+
+    fs.writeFileSync(path.join(testDir, 'src', 'app.ts'), `t('SAVE');\nt(\`status.\${state}\`);`);
+
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('should remove unused keys from every language, keeping partial and ignored keys', () => {
+    const lock = readTranslationLock(testDir);
+    lock.translations.fr = { common: { OLD: { sourceHash: hashSourceValue('Old') } } };
+    writeTranslationLock(testDir, lock);
+
+    const result = pruneUnusedKeys(testDir, findUnusedKeys(testDir), { skipTypes: true });
+
+    expect(result.keys.map((item) => `${item.namespace}:${item.key}`)).toEqual(['common:OLD', 'errors:GONE']);
+    expect(result.kept.map((item) => `${item.namespace}:${item.key}`).sort()).toEqual([
+      'common:status.active',
+      'common:status.closed',
+      'errors:LEGACY_TIMEOUT'
+    ]);
+    expect(result.removed).toHaveLength(4);
+
+    expect(Object.keys(readTranslations(translationsPath, 'en').common)).toEqual([
+      'SAVE',
+      'status.active',
+      'status.closed'
+    ]);
+    expect(readTranslations(translationsPath, 'fr').errors).toEqual({ LEGACY_TIMEOUT: 'Délai dépassé' });
+    expect(readTranslationLock(testDir).translations.fr).toBeUndefined();
+  });
+
+  test('should remove every plural form of a pruned key, including forms only a target language has', () => {
+    const configPath = path.join(testDir, '.translationsrc.json');
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    fs.writeFileSync(configPath, JSON.stringify({ ...config, languages: ['en', 'fr', 'pl'] }, null, 2));
+
+    writeTranslation(translationsPath, 'en', 'cart', { ITEMS_one: 'One item', ITEMS_other: '{{count}} items' });
+    writeTranslation(translationsPath, 'pl', 'cart', {
+      ITEMS_one: 'Jeden element',
+      ITEMS_few: '{{count}} elementy',
+      ITEMS_many: '{{count}} elementów',
+      ITEMS_other: '{{count}} elementu',
+      ITEMS_TITLE: 'Elementy'
+    });
+
+    const lock = readTranslationLock(testDir);
+    lock.translations.pl = { cart: { ITEMS_few: { sourceHash: hashSourceValue('{{count}} items') } } };
+    writeTranslationLock(testDir, lock);
+
+    const result = pruneUnusedKeys(testDir, findUnusedKeys(testDir), { skipTypes: true, ignore: ['common:*', 'GONE'] });
+
+    expect(result.keys.map((item) => item.key)).toEqual(['ITEMS_one', 'ITEMS_other']);
+    expect(result.removed.filter((item) => item.language === 'pl').map((item) => item.key)).toEqual([
+      'ITEMS_one',
+      'ITEMS_few',
+      'ITEMS_many',
+      'ITEMS_other'
+    ]);
+    expect(readTranslations(translationsPath, 'pl').cart).toEqual({ ITEMS_TITLE: 'Elementy' });
+    expect(readTranslationLock(testDir).translations.pl).toBeUndefined();
+  });
+
+  test('should remove partial matches with includePartial and leave files untouched in a dry run', () => {
+    const unusedKeys = findUnusedKeys(testDir);
+
+    const preview = pruneUnusedKeys(testDir, unusedKeys, {
+      includePartial: true,
+      ignore: ['status.closed'],
+      dryRun: true
+    });
+
+    expect(preview.keys.map((item) => item.key)).toEqual(['OLD', 'status.active', 'GONE']);
+    expect(preview.removed).toHaveLength(6);
+    expect(readTranslations(translationsPath, 'fr').common.OLD).toBe('Ancien');
+  });
+});
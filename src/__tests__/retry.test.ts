@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { DeepLTranslateProvider } from '../translations/utils/deepl-translate-provider.js';
+import { GoogleTranslateProvider } from '../translations/utils/google-translate-provider.js';
+import { TranslationProviderError } from '../translations/utils/provider-error.js';
+import {
+  computeRetryDelay,
+  configureProviderThrottle,
+  DEFAULT_RETRY_OPTIONS,
+  isRetryableError,
+  parseRetryAfter,
+  RequestThrottle,
+  resetProviderThrottles,
+  TokenBucket
+} from '../translations/utils/retry.js';
+
+const mockFetch = jest.fn<typeof fetch>();
+global.fetch = mockFetch;
+
+describe('Retry helpers', () => {
+  test('parses Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+
+  test('retries server errors, rate limiting and network errors only', () => {
+    expect(isRetryableError(new TranslationProviderError('busy', 'deepl', 503))).toBe(true);
+    expect(isRetryableError(new TranslationProviderError('slow down', 'deepl', 429))).toBe(true);
+    expect(isRetryableError(new TypeError('fetch failed'))).toBe(true);
+    expect(isRetryableError(new TypeError('network down', { cause: new Error('ECONNRESET') }))).toBe(true);
+    expect(isRetryableError(new TypeError("Cannot read properties of undefined (reading 'text')"))).toBe(false);
+    expect(isRetryableError(new TranslationProviderError('quota', 'deepl', 456))).toBe(false);
+    expect(isRetryableError(new TranslationProviderError('bad request', 'deepl', 400))).toBe(false);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+  });
+
+  test('uses jittered exponential backoff capped at maxDelayMs', () => {
+    const error = new TranslationProviderError('busy', 'deepl', 503);
+
+    expect(computeRetryDelay(0, error, DEFAULT_RETRY_OPTIONS, () => 0.5)).toBe(250);
+    expect(computeRetryDelay(2, error, DEFAULT_RETRY_OPTIONS, () => 0.5)).toBe(1000);
+    expect(computeRetryDelay(20, error, DEFAULT_RETRY_OPTIONS, () => 0.999)).toBeLessThan(30_000);
+    expect(computeRetryDelay(0, error, DEFAULT_RETRY_OPTIONS, () => 0)).toBe(0);
+  });
+
+  test('prefers Retry-After over backoff', () => {
+    const error = new TranslationProviderError('slow down', 'deepl', 429, 1500);
+
+    expect(computeRetryDelay(0, error, DEFAULT_RETRY_OPTIONS, () => 0.5)).toBe(1500);
+  });
+});
+
+describe('RequestThrottle', () => {
+  let warnSpy: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+  });
+
+  test('retries transient failures until the request succeeds', async () => {
+    const throttle = new RequestThrottle('test', false, { baseDelayMs: 1 });
+    const request = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new TranslationProviderError('busy', 'test', 503))
+      .mockRejectedValueOnce(new TranslationProviderError('slow down', 'test', 429, 5))
+      .mockResolvedValueOnce('ok');
+
+    await expect(throttle.run(request)).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  test('gives up after maxRetries', async () => {
+    const throttle = new RequestThrottle('test', false, { maxRetries: 2, baseDelayMs: 1 });
+    const request = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new TranslationProviderError('busy', 'test', 500));
+
+    await expect(throttle.run(request)).rejects.toThrow('busy');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  test('does not retry client errors', async () => {
+    const throttle = new RequestThrottle('test', false, { baseDelayMs: 1 });
+    const request = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new TranslationProviderError('bad request', 'test', 400));
+
+    await expect(throttle.run(request)).rejects.toThrow('bad request');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  test('token bucket spaces requests beyond the burst', async () => {
+    const bucket = new TokenBucket(20, 1);
+    const start = Date.now();
+
+    await Promise.all([bucket.take(), bucket.take(), bucket.take()]);
+
+    // One token is available immediately, the other two refill at 50ms each
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+  });
+});
+
+describe('Provider retries', () => {
+  let warnSpy: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    configureProviderThrottle('deepl', false, { baseDelayMs: 1 });
+    configureProviderThrottle('google', false, { baseDelayMs: 1 });
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+    resetProviderThrottles();
+  });
+
+  test('DeepL retries a 429 after Retry-After', async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers({ 'Retry-After': '0' }),
+        json: async () => ({ message: 'Too many requests' })
+      } as unknown as Response)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ translations: [{ text: 'Bonjour', detected_source_language: 'EN' }] })
+      } as unknown as Response);
+
+    const result = await new DeepLTranslateProvider().translateBatch(['Hello'], 'en', 'fr', 'test-key');
+
+    expect(result).toEqual(['Bonjour']);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('DeepL does not retry when the quota is exceeded', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 456,
+      statusText: 'Quota Exceeded',
+      json: async () => ({ message: 'Quota exceeded' })
+    } as unknown as Response);
+
+    await expect(new DeepLTranslateProvider().translateBatch(['Hello'], 'en', 'fr', 'test-key')).rejects.toThrow(
+      'DeepL API error: Quota exceeded (456)'
+    );
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('Google retries a 503 with an HTML body', async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+        headers: new Headers(),
+        json: async () => JSON.parse('<html>Service Unavailable</html>')
+      } as unknown as Response)
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers(),
+        json: async () => ({ data: { translations: [{ translatedText: 'Bonjour' }] } })
+      } as unknown as Response);
+
+    const result = await new GoogleTranslateProvider().translateBatch(['Hello'], 'en', 'fr', 'test-key');
+
+    expect(result).toEqual(['Bonjour']);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
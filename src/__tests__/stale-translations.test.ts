@@ -0,0 +1,134 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { acceptStaleTranslations } from '../translations/cli/accept-stale.js';
+import { autoFillTranslations } from '../translations/cli/auto-fill.js';
+import { validateTranslations } from '../translations/cli/validate.js';
+import {
+  readTranslationLock,
+  recordTranslation,
+  TRANSLATION_LOCK_FILE,
+  writeTranslationLock
+} from '../translations/utils/lockfile.js';
+import { resetTranslationProvider, setTranslationProvider } from '../translations/utils/translator.js';
+import type { TranslateOptions, TranslationProvider } from '../translations/utils/translator-interface.js';
+import { readTranslations, writeTranslation } from '../translations/utils/utils.js';
+
+class PrefixProvider implements TranslationProvider {
+  async translate(options: TranslateOptions): Promise<string> {
+    return `${options.targetLang}:${options.text}`;
+  }
+
+  async translateBatch(texts: string[], _sourceLang: string, targetLang: string): Promise<string[]> {
+    return texts.map((text) => `${targetLang}:${text}`);
+  }
+}
+
+describe('Stale translation tracking', () => {
+  let testDir: string;
+  let translationsPath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    translationsPath = path.join(testDir, 'locales');
+
+    const config = {
+      translationsPath: 'locales',
+      languages: ['en', 'fr'],
+      sourceLanguage: 'en',
+      typesOutputPath: 'src/types/i18nTypes.ts',
+      provider: 'deepl'
+    };
+    fs.writeFileSync(path.join(testDir, '.translationsrc.json'), JSON.stringify(config, null, 2));
+  });
+
+  afterEach(() => {
+    resetTranslationProvider();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('should report translations whose source value changed', () => {
+    writeTranslation(translationsPath, 'en', 'common', { SAVE: 'Save changes', CANCEL: 'Cancel' });
+    writeTranslation(translationsPath, 'fr', 'common', { SAVE: 'Enregistrer', CANCEL: 'Annuler' });
+
+    const lock = readTranslationLock(testDir);
+    recordTranslation(lock, 'fr', 'common', 'SAVE', 'Save', 'deepl');
+    recordTranslation(lock, 'fr', 'common', 'CANCEL', 'Cancel', 'deepl');
+    writeTranslationLock(testDir, lock);
+
+    const result = validateTranslations(testDir);
+
+    expect(result.valid).toBe(false);
+    expect(result.stale).toEqual([
+      { namespace: 'common', key: 'SAVE', language: 'fr', sourceValue: 'Save changes', value: 'Enregistrer' }
+    ]);
+  });
+
+  test('should not report translations without a lock entry', () => {
+    writeTranslation(translationsPath, 'en', 'common', { SAVE: 'Save' });
+    writeTranslation(translationsPath, 'fr', 'common', { SAVE: 'Enregistrer' });
+
+    const result = validateTranslations(testDir);
+
+    expect(result.valid).toBe(true);
+    expect(result.stale).toHaveLength(0);
+  });
+
+  test('auto-fill records the source hash of each translation', async () => {
+    setTranslationProvider(new PrefixProvider());
+    writeTranslation(translationsPath, 'en', 'common', { SAVE: 'Save' });
+
+    await autoFillTranslations(testDir, { apiKey: 'test-key', delayMs: 0 });
+
+    expect(fs.existsSync(path.join(testDir, TRANSLATION_LOCK_FILE))).toBe(true);
+    expect(readTranslationLock(testDir).translations.fr.common.SAVE.provider).toBe('deepl');
+
+    // Editing the source afterwards makes the translation stale
+    writeTranslation(translationsPath, 'en', 'common', { SAVE: 'Save changes' });
+    expect(validateTranslations(testDir).stale).toHaveLength(1);
+  });
+
+  test('refresh-stale re-translates only stale entries', async () => {
+    setTranslationProvider(new PrefixProvider());
+    writeTranslation(translationsPath, 'en', 'common', { SAVE: 'Save changes', CANCEL: 'Cancel', EMPTY: 'Empty' });
+    writeTranslation(translationsPath, 'fr', 'common', { SAVE: 'Enregistrer', CANCEL: 'Annuler', EMPTY: '' });
+
+    const lock = readTranslationLock(testDir);
+    recordTranslation(lock, 'fr', 'common', 'SAVE', 'Save');
+    recordTranslation(lock, 'fr', 'common', 'CANCEL', 'Cancel');
+    writeTranslationLock(testDir, lock);
+
+    await autoFillTranslations(testDir, { apiKey: 'test-key', delayMs: 0, refreshStale: true });
+
+    const fr = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
+    expect(fr).toEqual({ CANCEL: 'Annuler', EMPTY: '', SAVE: 'fr:Save changes' });
+    expect(validateTranslations(testDir).stale).toHaveLength(0);
+  });
+
+  test('accept-stale keeps hand-fixed translations and clears the stale finding', () => {
+    writeTranslation(translationsPath, 'en', 'common', { SAVE: 'Save changes', CANCEL: 'Cancel anyway' });
+    writeTranslation(translationsPath, 'fr', 'common', { SAVE: 'Enregistrer les modifications', CANCEL: 'Annuler' });
+
+    const lock = readTranslationLock(testDir);
+    recordTranslation(lock, 'fr', 'common', 'SAVE', 'Save', 'deepl');
+    recordTranslation(lock, 'fr', 'common', 'CANCEL', 'Cancel', 'deepl');
+    writeTranslationLock(testDir, lock);
+
+    expect(acceptStaleTranslations(testDir, { key: 'SAVE', dryRun: true })).toHaveLength(1);
+    expect(validateTranslations(testDir).stale).toHaveLength(2);
+
+    const accepted = acceptStaleTranslations(testDir, { key: 'SAVE' });
+
+    expect(accepted.map((item) => item.key)).toEqual(['SAVE']);
+    expect(validateTranslations(testDir).stale.map((item) => item.key)).toEqual(['CANCEL']);
+    expect(readTranslations(translationsPath, 'fr').common.SAVE).toBe('Enregistrer les modifications');
+    expect(readTranslationLock(testDir).translations.fr.common.SAVE.provider).toBe('deepl');
+  });
+
+  test('should name the lockfile when it cannot be parsed', () => {
+    fs.writeFileSync(path.join(testDir, TRANSLATION_LOCK_FILE), '<<<<<<< HEAD\n{}\n=======\n{}\n>>>>>>> main\n');
+
+    expect(() => readTranslationLock(testDir)).toThrow(`Invalid ${TRANSLATION_LOCK_FILE}`);
+  });
+});
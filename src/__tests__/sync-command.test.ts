@@ -0,0 +1,128 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { jest } from '@jest/globals';
+import { syncTranslations, TRANSLATION_BACKUP_DIR } from '../translations/cli/sync.js';
+import { validateTranslations } from '../translations/cli/validate.js';
+import { createUnifiedDiff } from '../translations/utils/diff.js';
+import { writeTranslation } from '../translations/utils/utils.js';
+
+describe('createUnifiedDiff', () => {
+  test('creates hunks with context around changed lines', () => {
+    const before = ['{', '  "a": "1",', '  "b": "2",', '  "c": "3",', '  "d": "4",', '  "e": "5"', '}', ''].join('\n');
+    const after = ['{', '  "a": "1",', '  "b": "2",', '  "c": "3",', '  "e": "5"', '}', ''].join('\n');
+
+    expect(createUnifiedDiff('fr/common.json', before, after)).toBe(
+      [
+        '--- a/fr/common.json',
+        '+++ b/fr/common.json',
+        '@@ -2,6 +2,5 @@',
+        '   "a": "1",',
+        '   "b": "2",',
+        '   "c": "3",',
+        '-  "d": "4",',
+        '   "e": "5"',
+        ' }',
+        ''
+      ].join('\n')
+    );
+  });
+
+  test('shows created and deleted files against /dev/null', () => {
+    expect(createUnifiedDiff('fr/new.json', null, '{}\n')).toBe(
+      '--- /dev/null\n+++ b/fr/new.json\n@@ -0,0 +1,1 @@\n+{}\n'
+    );
+    expect(createUnifiedDiff('fr/old.json', '{}\n', null)).toBe(
+      '--- a/fr/old.json\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-{}\n'
+    );
+  });
+
+  test('returns an empty string for identical content', () => {
+    expect(createUnifiedDiff('fr/common.json', '{}\n', '{}\n')).toBe('');
+  });
+});
+
+describe('sync command', () => {
+  let testDir: string;
+  let translationsPath: string;
+  let logSpy: jest.SpiedFunction<typeof console.log>;
+
+  const readJson = (...parts: string[]) => JSON.parse(fs.readFileSync(path.join(translationsPath, ...parts), 'utf-8'));
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-sync-'));
+    translationsPath = path.join(testDir, 'locales');
+    fs.writeFileSync(
+      path.join(testDir, '.translationsrc.json'),
+      JSON.stringify({ translationsPath: 'locales', languages: ['en', 'fr'], sourceLanguage: 'en' })
+    );
+
+    writeTranslation(translationsPath, 'en', 'common', { HELLO: 'Hello' });
+    writeTranslation(translationsPath, 'fr', 'common', { HELLO: 'Bonjour', OLD_KEY: 'Ancien' });
+    writeTranslation(translationsPath, 'fr', 'legacy', { TITLE: 'Titre', EMPTY: '' });
+
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('prints a unified diff per file in a dry run without changing files', () => {
+    const result = syncTranslations(testDir, { dryRun: true, keepOrphans: true, backup: true });
+
+    expect(result.diffs.map((file) => path.relative(translationsPath, file.path))).toEqual([
+      path.join('fr', '_archive', 'legacy.json'),
+      path.join('fr', 'legacy.json'),
+      path.join('fr', '_archive', 'common.json'),
+      path.join('fr', 'common.json')
+    ]);
+    expect(result.diffs[3].diff).toContain('-  "OLD_KEY": "Ancien"');
+    expect(result.diffs[1].diff).toContain('+++ /dev/null');
+
+    const output = logSpy.mock.calls.map((call) => String(call[0])).join('\n');
+    expect(output).toContain('--- a/fr/common.json');
+    expect(output).toContain('- fr/legacy.json (namespace not in source)');
+
+    expect(readJson('fr', 'common.json').OLD_KEY).toBe('Ancien');
+    expect(fs.existsSync(path.join(translationsPath, 'fr', 'legacy.json'))).toBe(true);
+    expect(fs.existsSync(path.join(translationsPath, 'fr', '_archive'))).toBe(false);
+    expect(fs.existsSync(path.join(testDir, TRANSLATION_BACKUP_DIR))).toBe(false);
+  });
+
+  test('moves removed keys and namespaces into the _archive folder with --keep-orphans', () => {
+    fs.mkdirSync(path.join(translationsPath, 'fr', '_archive'));
+    fs.writeFileSync(path.join(translationsPath, 'fr', '_archive', 'common.json'), '{ "ARCHIVED": "Archivé" }\n');
+
+    const result = syncTranslations(testDir, { keepOrphans: true });
+
+    // Diffs are only computed for a dry run, which prints them
+    expect(result.diffs).toEqual([]);
+    expect(readJson('fr', 'common.json')).toEqual({ HELLO: 'Bonjour' });
+    expect(fs.existsSync(path.join(translationsPath, 'fr', 'legacy.json'))).toBe(false);
+    expect(readJson('fr', '_archive', 'common.json')).toEqual({ ARCHIVED: 'Archivé', OLD_KEY: 'Ancien' });
+    expect(readJson('fr', '_archive', 'legacy.json')).toEqual({ TITLE: 'Titre' });
+
+    // The archive isn't a namespace, so the tree validates
+    expect(validateTranslations(testDir).valid).toBe(true);
+  });
+
+  test('snapshots touched files before changing them with --backup', () => {
+    const result = syncTranslations(testDir, { backup: true });
+
+    expect(result.backups).toHaveLength(2);
+
+    const [backupDir] = fs.readdirSync(path.join(testDir, TRANSLATION_BACKUP_DIR));
+    const backupPath = path.join(testDir, TRANSLATION_BACKUP_DIR, backupDir);
+    expect(JSON.parse(fs.readFileSync(path.join(backupPath, 'fr', 'common.json'), 'utf-8'))).toEqual({
+      HELLO: 'Bonjour',
+      OLD_KEY: 'Ancien'
+    });
+    expect(JSON.parse(fs.readFileSync(path.join(backupPath, 'fr', 'legacy.json'), 'utf-8'))).toEqual({
+      TITLE: 'Titre',
+      EMPTY: ''
+    });
+    expect(fs.existsSync(path.join(translationsPath, 'fr', 'legacy.json'))).toBe(false);
+  });
+});
@@ -0,0 +1,267 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { autoFillTranslations } from '../translations/cli/auto-fill.js';
+import { exportTranslationMemory, importTranslationMemory } from '../translations/cli/memory.js';
+import { readTranslationLock } from '../translations/utils/lockfile.js';
+import {
+  parseTmx,
+  TRANSLATION_MEMORY_FILE,
+  TranslationMemory,
+  toTmx
+} from '../translations/utils/translation-memory.js';
+import {
+  resetTranslationProvider,
+  setTranslationMemory,
+  setTranslationProvider,
+  translateBatchWithProvider,
+  translateText
+} from '../translations/utils/translator.js';
+import type { TranslateOptions, TranslationProvider } from '../translations/utils/translator-interface.js';
+import { writeTranslation } from '../translations/utils/utils.js';
+
+/**
+ * Provider that records every text it is asked to translate
+ */
+class RecordingProvider implements TranslationProvider {
+  readonly requested: string[] = [];
+
+  async translate(options: TranslateOptions): Promise<string> {
+    const [translated] = await this.translateBatch([options.text], options.sourceLang, options.targetLang);
+    return translated;
+  }
+
+  async translateBatch(texts: string[], _sourceLang: string, targetLang: string): Promise<string[]> {
+    this.requested.push(...texts);
+    return texts.map((text) => `${targetLang}:${text}`);
+  }
+}
+
+describe('TranslationMemory', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('keys entries by provider, languages, text and protected terms', () => {
+    const memory = TranslationMemory.load(testDir);
+    memory.store(
+      'deepl',
+      { sourceLang: 'en', targetLang: 'fr', text: 'Save', protectedTerms: ['Acme'] },
+      'Enregistrer'
+    );
+
+    const query = { sourceLang: 'en', targetLang: 'fr', text: 'Save' };
+    expect(memory.lookup(['deepl'], { ...query, protectedTerms: ['Acme'] })?.target).toBe('Enregistrer');
+    expect(memory.lookup(['google'], { ...query, protectedTerms: ['Acme'] })).toBeUndefined();
+    expect(memory.lookup(['deepl'], query)).toBeUndefined();
+    expect(memory.lookup(['deepl'], { ...query, targetLang: 'de', protectedTerms: ['Acme'] })).toBeUndefined();
+  });
+
+  test('matches imported entries on languages and text only', () => {
+    const memory = new TranslationMemory(
+      path.join(testDir, TRANSLATION_MEMORY_FILE),
+      parseTmx(
+        `<tmx version="1.4"><header srclang="en"/><body><tu>
+        <tuv xml:lang="en"><seg>Save</seg></tuv><tuv xml:lang="fr"><seg>Enregistrer</seg></tuv>
+      </tu></body></tmx>`
+      )
+    );
+
+    const query = {
+      sourceLang: 'en',
+      targetLang: 'fr',
+      text: 'Save',
+      protectedTerms: ['Acme'],
+      glossary: ['workspace']
+    };
+    expect(memory.lookup(['deepl'], query)?.target).toBe('Enregistrer');
+    expect(memory.lookup(['deepl'], { ...query, targetLang: 'de' })).toBeUndefined();
+  });
+
+  test('persists entries and usage statistics', () => {
+    const memory = TranslationMemory.load(testDir);
+    memory.store('deepl', { sourceLang: 'en', targetLang: 'fr', text: 'Save' }, 'Enregistrer');
+    memory.lookup(['deepl'], { sourceLang: 'en', targetLang: 'fr', text: 'Save' });
+    memory.save();
+
+    const reloaded = TranslationMemory.load(testDir);
+    expect(reloaded.stats()).toEqual({
+      entries: 1,
+      hits: 1,
+      languagePairs: { 'en -> fr': 1 },
+      providers: { deepl: 1 }
+    });
+  });
+
+  test('prunes entries not used recently', () => {
+    const memory = TranslationMemory.load(testDir);
+    memory.store('deepl', { sourceLang: 'en', targetLang: 'fr', text: 'Save' }, 'Enregistrer');
+    memory.store('deepl', { sourceLang: 'en', targetLang: 'de', text: 'Save' }, 'Speichern');
+
+    const inAYear = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+    expect(memory.prune({ olderThanDays: 30 })).toBe(0);
+    expect(memory.prune({ olderThanDays: 30, language: 'fr', now: inAYear })).toBe(1);
+    expect(memory.list().map((entry) => entry.targetLang)).toEqual(['de']);
+  });
+
+  test('round-trips entries through TMX', () => {
+    const memory = TranslationMemory.load(testDir);
+    memory.store('deepl', { sourceLang: 'en', targetLang: 'pt_br', text: 'Fish & <Chips>' }, 'Peixe & <Batatas>');
+    memory.store('google', { sourceLang: 'en', targetLang: 'fr', text: 'Acme', protectedTerms: ['Acme'] }, 'Acme');
+
+    const tmx = toTmx(memory.list());
+
+    expect(tmx).toContain('<tuv xml:lang="pt-BR"><seg>Peixe &amp; &lt;Batatas&gt;</seg></tuv>');
+    expect(parseTmx(tmx)).toEqual(
+      memory.list().map((entry) => ({ ...entry, createdAt: expect.any(String), lastUsedAt: expect.any(String) }))
+    );
+  });
+
+  test('imports agency TMX files with several target languages', () => {
+    const config = { translationsPath: 'locales', languages: ['en', 'fr', 'de'], sourceLanguage: 'en' };
+    fs.writeFileSync(path.join(testDir, '.translationsrc.json'), JSON.stringify(config, null, 2));
+    fs.writeFileSync(
+      path.join(testDir, 'agency.tmx'),
+      `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header srclang="en-US" datatype="plaintext" segtype="sentence" adminlang="en" o-tmf="CAT" creationtool="CAT" creationtoolversion="1"/>
+  <body>
+    <tu creationdate="20250102T030405Z">
+      <tuv xml:lang="en-US"><seg>Hello <ph>{{name}}</ph></seg></tuv>
+      <tuv xml:lang="fr-FR"><seg>Bonjour <ph>{{name}}</ph></seg></tuv>
+      <tuv xml:lang="de-DE"><seg>Hallo <ph>{{name}}</ph></seg></tuv>
+    </tu>
+  </body>
+</tmx>`
+    );
+
+    expect(importTranslationMemory(testDir, 'agency.tmx')).toBe(2);
+
+    const entries = TranslationMemory.load(testDir).list();
+    expect(entries).toEqual([
+      expect.objectContaining({ provider: 'tmx', sourceLang: 'en', targetLang: 'de', target: 'Hallo {{name}}' }),
+      expect.objectContaining({
+        provider: 'tmx',
+        sourceLang: 'en',
+        targetLang: 'fr',
+        source: 'Hello {{name}}',
+        createdAt: '2025-01-02T03:04:05.000Z'
+      })
+    ]);
+    expect(exportTranslationMemory(testDir, { format: 'json', language: 'fr' })).toContain('Bonjour {{name}}');
+  });
+
+  test('reads segments with attributes', () => {
+    const tmx = `<tmx version="1.4">
+  <header srclang="en"/>
+  <body>
+    <tu>
+      <tuv xml:lang="en"><seg xml:space="preserve">  Save  </seg></tuv>
+      <tuv xml:lang="fr"><seg xml:space="preserve" id="1">  Enregistrer  </seg></tuv>
+    </tu>
+  </body>
+</tmx>`;
+
+    expect(parseTmx(tmx).map((entry) => [entry.source, entry.target])).toEqual([['  Save  ', '  Enregistrer  ']]);
+  });
+
+  test('resolves region-tagged TMX languages against the configured languages', () => {
+    const tmx = `<tmx version="1.4">
+  <header srclang="en-GB"/>
+  <body>
+    <tu>
+      <tuv xml:lang="en-GB"><seg>Save</seg></tuv>
+      <tuv xml:lang="de-AT"><seg>Speichern</seg></tuv>
+      <tuv xml:lang="de-CH"><seg>Speichern</seg></tuv>
+      <tuv xml:lang="pt"><seg>Salvar</seg></tuv>
+      <tuv xml:lang="es-MX"><seg>Guardar</seg></tuv>
+    </tu>
+  </body>
+</tmx>`;
+
+    const entries = parseTmx(tmx, undefined, ['en', 'de', 'de_at', 'pt_br']);
+
+    expect(entries.map((entry) => [entry.sourceLang, entry.targetLang])).toEqual([
+      ['en', 'de_at'],
+      ['en', 'de'],
+      ['en', 'pt_br'],
+      ['en', 'es_mx']
+    ]);
+  });
+});
+
+describe('Translating with a translation memory', () => {
+  let testDir: string;
+  let provider: RecordingProvider;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    provider = new RecordingProvider();
+  });
+
+  afterEach(() => {
+    resetTranslationProvider();
+    setTranslationMemory(null);
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('only sends texts missing from the memory to the provider', async () => {
+    const memory = TranslationMemory.load(testDir);
+    memory.store('tmx', { sourceLang: 'en', targetLang: 'fr', text: 'Cancel' }, 'Annuler');
+    setTranslationProvider(provider);
+    setTranslationMemory(memory, () => ['deepl']);
+
+    const result = await translateBatchWithProvider(['Save', 'Cancel', 'Save'], 'fr', 'en');
+
+    expect(result).toEqual({ translations: ['fr:Save', 'Annuler', 'fr:Save'], providers: ['deepl', 'tmx', 'deepl'] });
+    expect(provider.requested).toEqual(['Save']);
+
+    expect(await translateText('Save', 'fr', 'en')).toBe('fr:Save');
+    expect(provider.requested).toEqual(['Save']);
+    expect(fs.existsSync(path.join(testDir, TRANSLATION_MEMORY_FILE))).toBe(true);
+  });
+
+  test('auto-fill translates repeated strings once', async () => {
+    setTranslationProvider(provider);
+    fs.writeFileSync(
+      path.join(testDir, '.translationsrc.json'),
+      JSON.stringify({ translationsPath: 'locales', languages: ['en', 'fr'], sourceLanguage: 'en', provider: 'google' })
+    );
+    writeTranslation(path.join(testDir, 'locales'), 'en', 'common', { SAVE: 'Save' });
+    writeTranslation(path.join(testDir, 'locales'), 'en', 'settings', { SAVE_SETTINGS: 'Save' });
+
+    await autoFillTranslations(testDir, { apiKey: 'test-key', batchSize: 1, concurrency: 1 });
+
+    expect(provider.requested).toEqual(['Save']);
+    const read = (namespace: string) =>
+      JSON.parse(fs.readFileSync(path.join(testDir, 'locales', 'fr', `${namespace}.json`), 'utf-8'));
+    expect(read('settings')).toEqual({ SAVE_SETTINGS: 'fr:Save' });
+    expect(readTranslationLock(testDir).translations.fr.settings.SAVE_SETTINGS.provider).toBe('google');
+  });
+
+  test('can be disabled in the config', async () => {
+    setTranslationProvider(provider);
+    fs.writeFileSync(
+      path.join(testDir, '.translationsrc.json'),
+      JSON.stringify({
+        translationsPath: 'locales',
+        languages: ['en', 'fr'],
+        sourceLanguage: 'en',
+        translationMemory: false
+      })
+    );
+    writeTranslation(path.join(testDir, 'locales'), 'en', 'common', { SAVE: 'Save', SAVE_AGAIN: 'Save' });
+
+    await autoFillTranslations(testDir, { apiKey: 'test-key' });
+
+    expect(provider.requested).toEqual(['Save', 'Save']);
+    expect(fs.existsSync(path.join(testDir, TRANSLATION_MEMORY_FILE))).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { jest } from '@jest/globals';
+import { checkTranslationTypes, generateTranslationTypes, getParamTypes } from '../translations/cli/generate-types.js';
+import { writeTranslation } from '../translations/utils/utils.js';
+
+describe('getParamTypes', () => {
+  test('should type i18next interpolations by their format', () => {
+    expect(getParamTypes('Hello {{name}}, {{- html}}')).toEqual({ name: 'string | number', html: 'string | number' });
+    expect(getParamTypes('{{count}} items since {{date, datetime}} for {{price, currency(EUR)}}')).toEqual({
+      count: 'number',
+      date: 'Date | number',
+      price: 'number'
+    });
+    expect(getParamTypes('Signed in as {{user.name}} ({{user.email}})')).toEqual({ user: 'Record<string, unknown>' });
+    expect(getParamTypes('Save')).toEqual({});
+  });
+
+  test('should type ICU arguments', () => {
+    expect(
+      getParamTypes('{gender, select, male {He} other {They}} invited {guests, plural, one {# guest} other {# guests}}')
+    ).toEqual({ gender: 'string', guests: 'number' });
+    expect(getParamTypes('{name} paid {amount, number} on {day, date, short}')).toEqual({
+      name: 'string | number',
+      amount: 'number',
+      day: 'Date | number'
+    });
+  });
+});
+
+describe('generateTranslationTypes', () => {
+  let testDir: string;
+  let logSpy: jest.SpiedFunction<typeof console.log>;
+  let warnSpy: jest.SpiedFunction<typeof console.warn>;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    const config = {
+      translationsPath: 'locales',
+      languages: ['en', 'fr'],
+      sourceLanguage: 'en',
+      typesOutputPath: 'src/types/i18nTypes.ts'
+    };
+    fs.writeFileSync(path.join(testDir, '.translationsrc.json'), JSON.stringify(config, null, 2));
+
+    const translationsPath = path.join(testDir, 'locales');
+    writeTranslation(translationsPath, 'en', 'common', {
+      SAVE: 'Save',
+      WELCOME: 'Welcome {{name}}',
+      items_one: 'One item',
+      items_other: '{{count}} items in {{folder}}',
+      'status.active': 'Active'
+    });
+    writeTranslation(translationsPath, 'en', 'settings', { TITLE: 'Settings' });
+
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('should generate the resources and parameters of each namespace', () => {
+    generateTranslationTypes(testDir);
+
+    const output = fs.readFileSync(path.join(testDir, 'src/types/i18nTypes.ts'), 'utf8');
+
+    expect(output).toContain(
+      [
+        'export interface Resources {',
+        '  common: {',
+        '    SAVE: "Save";',
+        '    WELCOME: "Welcome {{name}}";',
+        '    items_one: "One item";',
+        '    items_other: "{{count}} items in {{folder}}";',
+        '    "status.active": "Active";',
+        '  };',
+        '  settings: {',
+        '    TITLE: "Settings";',
+        '  };',
+        '}'
+      ].join('\n')
+    );
+    expect(output).toContain(
+      [
+        'export interface TranslationParams {',
+        '  common: {',
+        '    SAVE: never;',
+        '    WELCOME: { name: string | number };',
+        '    items_one: never;',
+        '    items_other: { count: number; folder: string | number };',
+        '    "status.active": never;',
+        '    items: { count: number; folder: string | number };',
+        '  };'
+      ].join('\n')
+    );
+    expect(output).toContain('export function createTypedTranslate<NS extends TranslationNamespace>(');
+    expect(output).not.toContain("'");
+  });
+
+  test('should generate an i18next module augmentation with nested resources', () => {
+    const configPath = path.join(testDir, '.translationsrc.json');
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    fs.writeFileSync(configPath, JSON.stringify({ ...config, typesFormat: 'i18next', defaultNamespace: 'settings' }));
+
+    generateTranslationTypes(testDir);
+
+    const output = fs.readFileSync(path.join(testDir, 'src/types/i18nTypes.ts'), 'utf8');
+
+    expect(output.startsWith('import "i18next";\n')).toBe(true);
+    expect(output).toContain('export type TranslationKey = (typeof translationKeys)[number];');
+    expect(output).toContain(
+      [
+        'export interface Resources {',
+        '  common: {',
+        '    SAVE: "Save";',
+        '    WELCOME: "Welcome {{name}}";',
+        '    items_one: "One item";',
+        '    items_other: "{{count}} items in {{folder}}";',
+        '    status: {',
+        '      active: "Active";',
+        '    };',
+        '  };',
+        '  settings: {',
+        '    TITLE: "Settings";',
+        '  };',
+        '}',
+        '',
+        'declare module "i18next" {',
+        '  interface CustomTypeOptions {',
+        '    defaultNS: "settings";',
+        '    resources: Resources;',
+        '  }',
+        '}'
+      ].join('\n')
+    );
+    expect(output).not.toContain('createTypedTranslate');
+    expect(output).not.toContain("'");
+  });
+
+  test('should write the same bytes on every run and detect outdated types with check', () => {
+    generateTranslationTypes(testDir);
+    const outputPath = path.join(testDir, 'src/types/i18nTypes.ts');
+    const first = fs.readFileSync(outputPath, 'utf8');
+
+    generateTranslationTypes(testDir);
+
+    expect(fs.readFileSync(outputPath, 'utf8')).toBe(first);
+    expect(checkTranslationTypes(testDir)).toBe(true);
+
+    writeTranslation(path.join(testDir, 'locales'), 'en', 'settings', { TITLE: 'Settings', SUBTITLE: 'More' });
+
+    expect(checkTranslationTypes(testDir)).toBe(false);
+    expect(fs.readFileSync(outputPath, 'utf8')).toBe(first);
+  });
+
+  test('should run the types hook on the output, also when checking', () => {
+    const configPath = path.join(testDir, '.translationsrc.json');
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    const hook = `node -e "require('fs').appendFileSync(process.argv[1], '// formatted\\n')"`;
+    fs.writeFileSync(configPath, JSON.stringify({ ...config, typesHook: hook }));
+
+    generateTranslationTypes(testDir);
+    const outputPath = path.join(testDir, 'src/types/i18nTypes.ts');
+    const output = fs.readFileSync(outputPath, 'utf8');
+
+    expect(output.endsWith('}\n// formatted\n')).toBe(true);
+    expect(checkTranslationTypes(testDir)).toBe(true);
+    expect(fs.readFileSync(outputPath, 'utf8')).toBe(output);
+  });
+});
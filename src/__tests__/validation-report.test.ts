@@ -0,0 +1,114 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { findDuplicates } from '../translations/cli/find-duplicates.js';
+import { formatReport, getDuplicateIssues, getValidationIssues } from '../translations/cli/report.js';
+import { validateTranslations } from '../translations/cli/validate.js';
+import { getKeyLines } from '../translations/utils/key-locations.js';
+
+describe('getKeyLines', () => {
+  test('finds the line of flat and nested keys', () => {
+    const content = [
+      '{',
+      '  "TITLE": "Hello \\"there\\"",',
+      '  "home": {',
+      '    "HEADER": "Home"',
+      '  },',
+      '  "SAVE": "Save"',
+      '}'
+    ].join('\n');
+
+    expect(Object.fromEntries(getKeyLines(content))).toEqual({ TITLE: 2, home: 3, 'home.HEADER': 4, SAVE: 6 });
+  });
+
+  test('does not mistake values for keys', () => {
+    expect(Object.fromEntries(getKeyLines('{"A": "B", "C": ["D", {"E": "F"}],\n"G": "H"}'))).toEqual({
+      A: 1,
+      C: 1,
+      'C.E': 1,
+      G: 2
+    });
+  });
+});
+
+describe('Validation reports', () => {
+  let testDir: string;
+  let logSpy: ReturnType<typeof jest.spyOn>;
+
+  const writeFile = (language: string, namespace: string, content: object) => {
+    const dir = path.join(testDir, 'locales', language);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${namespace}.json`), `${JSON.stringify(content, null, 2)}\n`);
+  };
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    fs.writeFileSync(
+      path.join(testDir, '.translationsrc.json'),
+      JSON.stringify({ translationsPath: 'locales', languages: ['en', 'fr'], sourceLanguage: 'en' })
+    );
+    writeFile('en', 'common', { CANCEL: 'Cancel', GREETING: 'Hello {{name}}', SAVE: 'Save' });
+    writeFile('fr', 'common', { CANCEL: 'Annuler', GREETING: 'Bonjour {{nom}}' });
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('locates each issue in its translation file', () => {
+    const issues = getValidationIssues(testDir, validateTranslations(testDir));
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        rule: 'missing',
+        file: 'locales/en/common.json',
+        line: 4,
+        key: 'SAVE',
+        language: 'fr'
+      }),
+      expect.objectContaining({ rule: 'variable-mismatch', file: 'locales/fr/common.json', line: 3, key: 'GREETING' })
+    ]);
+  });
+
+  test('formats SARIF, JUnit, GitHub and JSON reports', () => {
+    const issues = getValidationIssues(testDir, validateTranslations(testDir));
+
+    const sarif = JSON.parse(formatReport('validate', issues, 'sarif'));
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+      'missing',
+      'variable-mismatch'
+    ]);
+    expect(sarif.runs[0].results[0]).toMatchObject({
+      ruleId: 'missing',
+      level: 'error',
+      locations: [
+        { physicalLocation: { artifactLocation: { uri: 'locales/en/common.json' }, region: { startLine: 4 } } }
+      ]
+    });
+
+    const junit = formatReport('validate', issues, 'junit');
+    expect(junit).toContain('<testsuites name="poly-lexis validate" tests="2" failures="2">');
+    expect(junit).toContain('<testcase name="fr common:SAVE" classname="poly-lexis.missing"');
+
+    expect(formatReport('validate', issues, 'github').split('\n')[0]).toBe(
+      '::error file=locales/en/common.json,line=4,title=Translation missing in a target language::Missing fr translation for SAVE'
+    );
+
+    expect(JSON.parse(formatReport('validate', issues, 'json'))).toMatchObject({ command: 'validate', issueCount: 2 });
+  });
+
+  test('reports duplicates as warnings', () => {
+    writeFile('en', 'settings', { TITLE: 'Settings', SAVE_BUTTON: 'Save' });
+
+    const [issue] = getDuplicateIssues(testDir, findDuplicates(testDir));
+
+    expect(issue).toMatchObject({ rule: 'duplicate', level: 'warning', file: 'locales/en/settings.json', line: 3 });
+    expect(formatReport('find-duplicates', [issue], 'github')).toMatch(
+      /^::warning file=locales\/en\/settings.json,line=3,/
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { autoFillTranslations } from '../translations/cli/auto-fill.js';
+import { validateTranslations } from '../translations/cli/validate.js';
+import { readTranslationLock } from '../translations/utils/lockfile.js';
+import { resetTranslationProvider, setTranslationProvider } from '../translations/utils/translator.js';
+import type { TranslateOptions, TranslationProvider } from '../translations/utils/translator-interface.js';
+import { extractVariables, findVariableMismatch, writeTranslation } from '../translations/utils/utils.js';
+
+/**
+ * Provider that drops interpolation variables from its first `failures` answers for each text
+ */
+class ForgetfulProvider implements TranslationProvider {
+  readonly attempts = new Map<string, number>();
+
+  constructor(private readonly failures: number) {}
+
+  async translate(options: TranslateOptions): Promise<string> {
+    const [translated] = await this.translateBatch([options.text], options.sourceLang, options.targetLang);
+    return translated;
+  }
+
+  async translateBatch(texts: string[], _sourceLang: string, targetLang: string): Promise<string[]> {
+    return texts.map((text) => {
+      const attempt = (this.attempts.get(text) ?? 0) + 1;
+      this.attempts.set(text, attempt);
+      return attempt > this.failures ? `${targetLang}:${text}` : `${targetLang}:${text.replace(/\{\{\w+\}\}/g, '')}`;
+    });
+  }
+}
+
+describe('Interpolation variables', () => {
+  test('extracts {{variable}} and {variable} names', () => {
+    expect(extractVariables('Hi {{ name }}, you have {count} messages')).toEqual(['name', 'count']);
+    expect(extractVariables('{count, plural, one {# item for {user}} other {# items}}')).toEqual(['count', 'user']);
+    expect(extractVariables('No variables')).toEqual([]);
+  });
+
+  test('reports lost, renamed and repeated variables', () => {
+    expect(findVariableMismatch('Hello {{name}}', 'Bonjour {{name}}')).toBeNull();
+    expect(findVariableMismatch('Hello {{name}}', 'Bonjour {{nom}}')).toEqual({
+      missingVariables: ['name'],
+      extraVariables: ['nom']
+    });
+    expect(findVariableMismatch('{{a}} and {{a}}', '{{a}}')).toEqual({ missingVariables: ['a'], extraVariables: [] });
+    expect(findVariableMismatch('Hello {name}', 'Bonjour')).toEqual({ missingVariables: ['name'], extraVariables: [] });
+  });
+});
+
+describe('Variable mismatch validation and auto-fill', () => {
+  let testDir: string;
+  let translationsPath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    translationsPath = path.join(testDir, 'locales');
+    fs.writeFileSync(
+      path.join(testDir, '.translationsrc.json'),
+      JSON.stringify({ translationsPath: 'locales', languages: ['en', 'fr'], sourceLanguage: 'en', provider: 'deepl' })
+    );
+  });
+
+  afterEach(() => {
+    resetTranslationProvider();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('validation reports translations that drop or rename variables', () => {
+    writeTranslation(translationsPath, 'en', 'common', {
+      GREETING: 'Hello {{name}}',
+      INBOX: 'You have {count} messages',
+      TITLE: 'Welcome'
+    });
+    writeTranslation(translationsPath, 'fr', 'common', {
+      GREETING: 'Bonjour {{nom}}',
+      INBOX: 'Vous avez des messages',
+      TITLE: 'Bienvenue'
+    });
+
+    const result = validateTranslations(testDir);
+
+    expect(result.valid).toBe(false);
+    expect(result.variableMismatch).toEqual([
+      expect.objectContaining({ key: 'GREETING', missingVariables: ['name'], extraVariables: ['nom'] }),
+      expect.objectContaining({ key: 'INBOX', missingVariables: ['count'], extraVariables: [] })
+    ]);
+  });
+
+  test('auto-fill retries translations that lost variables', async () => {
+    const provider = new ForgetfulProvider(1);
+    setTranslationProvider(provider);
+    writeTranslation(translationsPath, 'en', 'common', { GREETING: 'Hello {{name}}', TITLE: 'Welcome' });
+
+    await autoFillTranslations(testDir, { apiKey: 'test-key', delayMs: 0 });
+
+    const fr = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
+    expect(fr).toEqual({ GREETING: 'fr:Hello {{name}}', TITLE: 'fr:Welcome' });
+    expect(provider.attempts.get('Hello {{name}}')).toBe(2);
+    expect(provider.attempts.get('Welcome')).toBe(1);
+  });
+
+  test('auto-fill does not save translations that keep losing variables', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    setTranslationProvider(new ForgetfulProvider(Infinity));
+    writeTranslation(translationsPath, 'en', 'common', { GREETING: 'Hello {{name}}', TITLE: 'Welcome' });
+
+    await autoFillTranslations(testDir, { apiKey: 'test-key', delayMs: 0 });
+    warnSpy.mockRestore();
+
+    const fr = JSON.parse(fs.readFileSync(path.join(translationsPath, 'fr', 'common.json'), 'utf-8'));
+    expect(fr).toEqual({ GREETING: '', TITLE: 'fr:Welcome' });
+    expect(readTranslationLock(testDir).translations.fr?.common?.GREETING).toBeUndefined();
+  });
+});
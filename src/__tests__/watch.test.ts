@@ -0,0 +1,93 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { jest } from '@jest/globals';
+import { syncSourceChanges, watchTranslations } from '../translations/cli/watch.js';
+import { readTranslations, writeTranslation } from '../translations/utils/utils.js';
+
+/**
+ * Poll until the assertion passes (file system events arrive asynchronously)
+ */
+async function waitFor(assertion: () => void, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+
+  for (;;) {
+    try {
+      assertion();
+      return;
+    } catch (error) {
+      if (Date.now() - start > timeoutMs) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+}
+
+describe('Watch Mode', () => {
+  let testDir: string;
+  let translationsPath: string;
+  let logSpy: jest.SpiedFunction<typeof console.log>;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    translationsPath = path.join(testDir, 'locales');
+
+    const config = {
+      translationsPath: 'locales',
+      languages: ['en', 'fr'],
+      sourceLanguage: 'en',
+      typesOutputPath: 'src/types/i18nTypes.ts'
+    };
+    fs.writeFileSync(path.join(testDir, '.translationsrc.json'), JSON.stringify(config, null, 2));
+
+    writeTranslation(translationsPath, 'en', 'common', { SAVE: 'Save', CANCEL: 'Cancel' });
+    writeTranslation(translationsPath, 'en', 'settings', { TITLE: 'Settings' });
+    writeTranslation(translationsPath, 'fr', 'common', { SAVE: 'Enregistrer', OLD: 'Ancien' });
+    writeTranslation(translationsPath, 'fr', 'settings', { TITLE: 'Paramètres' });
+    writeTranslation(translationsPath, 'fr', 'legacy', { GONE: 'Parti' });
+
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('should add missing keys to the changed namespace only, without removing anything', () => {
+    writeTranslation(translationsPath, 'en', 'settings', { TITLE: 'Settings', THEME: 'Theme' });
+
+    const result = syncSourceChanges(testDir, ['common'], { skipTypes: true });
+
+    expect(result.addedKeys).toEqual([
+      { language: 'fr', namespace: 'common', key: 'CANCEL', path: path.join(translationsPath, 'fr', 'common.json') }
+    ]);
+    expect(result.cleanedKeys).toEqual([]);
+    expect(result.removedNamespaces).toEqual([]);
+
+    const fr = readTranslations(translationsPath, 'fr');
+    expect(fr.common).toEqual({ SAVE: 'Enregistrer', OLD: 'Ancien', CANCEL: '' });
+    expect(fr.settings).toEqual({ TITLE: 'Paramètres' });
+    expect(fr.legacy).toEqual({ GONE: 'Parti' });
+  });
+
+  test('should sync the namespace and regenerate types when a source file changes', async () => {
+    const watcher = watchTranslations(testDir, { debounceMs: 20 });
+    const typesPath = path.join(testDir, 'src/types/i18nTypes.ts');
+
+    try {
+      expect(fs.readFileSync(typesPath, 'utf8')).toContain('CANCEL: "Cancel";');
+
+      writeTranslation(translationsPath, 'en', 'settings', { TITLE: 'Settings', THEME: 'Theme' });
+
+      await waitFor(() => {
+        expect(readTranslations(translationsPath, 'fr').settings).toEqual({ TITLE: 'Paramètres', THEME: '' });
+        expect(fs.readFileSync(typesPath, 'utf8')).toContain('THEME: "Theme";');
+      });
+      expect(readTranslations(translationsPath, 'fr').common.OLD).toBe('Ancien');
+    } finally {
+      watcher.close();
+    }
+  });
+});
@@ -0,0 +1,166 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { jest } from '@jest/globals';
+import { detectExistingTranslations } from '../translations/cli/init.js';
+import { printSyncChanges } from '../translations/cli/sync.js';
+import { validateTranslations } from '../translations/cli/validate.js';
+import { readKeyLines } from '../translations/utils/key-locations.js';
+import {
+  getNamespaces,
+  readTranslations,
+  syncTranslationStructure,
+  writeTranslation
+} from '../translations/utils/utils.js';
+
+describe('YAML Translation Files', () => {
+  let testDir: string;
+  let translationsPath: string;
+  let logSpy: jest.SpiedFunction<typeof console.log>;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(translationsPath, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexis-test-'));
+    translationsPath = path.join(testDir, 'locales');
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('should read YAML files with a Rails language root key as flat keys', () => {
+    writeFile(
+      'en/common.yml',
+      [
+        'en:',
+        '  # Buttons',
+        '  save: Save',
+        '  count: 3',
+        '  status:',
+        '    active: Active',
+        '  days: [Mon, Tue]',
+        ''
+      ].join('\n')
+    );
+    writeFile('en/errors.yaml', 'NOT_FOUND: Not found\n');
+
+    expect(getNamespaces(translationsPath, 'en')).toEqual(['common', 'errors']);
+    expect(readTranslations(translationsPath, 'en')).toEqual({
+      common: { save: 'Save', count: '3', 'status.active': 'Active' },
+      errors: { NOT_FOUND: 'Not found' }
+    });
+    expect(readKeyLines(translationsPath, 'en', 'common').get('status.active')).toBe(6);
+  });
+
+  test('should keep comments, key order and the root key when rewriting a file', () => {
+    writeFile(
+      'fr/common.yml',
+      [
+        '# Shared strings',
+        'fr:',
+        '  status:',
+        '    active: Actif # shown in lists',
+        '    closed: Fermé',
+        '  # Buttons',
+        '  save: "Enregistrer"',
+        '  cancel: Annuler',
+        ''
+      ].join('\n')
+    );
+
+    writeTranslation(translationsPath, 'fr', 'common', {
+      cancel: 'Annuler',
+      save: 'Sauvegarder',
+      'status.active': 'Actif',
+      'status.draft': 'Brouillon'
+    });
+
+    expect(fs.readFileSync(path.join(translationsPath, 'fr/common.yml'), 'utf8')).toBe(
+      [
+        '# Shared strings',
+        'fr:',
+        '  status:',
+        '    active: Actif # shown in lists',
+        '    draft: Brouillon',
+        '  # Buttons',
+        '  save: "Sauvegarder"',
+        '  cancel: Annuler',
+        ''
+      ].join('\n')
+    );
+    expect(fs.existsSync(path.join(translationsPath, 'fr/common.json'))).toBe(false);
+  });
+
+  test('should create target files in the format and layout of the source', () => {
+    writeFile('en/common.yml', ['en:', '  home:', '    title: Home', ''].join('\n'));
+    fs.mkdirSync(path.join(translationsPath, 'fr'), { recursive: true });
+
+    const result = syncTranslationStructure(translationsPath, ['en', 'fr'], 'en');
+
+    expect(result.createdFiles.map((item) => path.relative(translationsPath, item.path))).toEqual([
+      path.join('fr', 'common.yml')
+    ]);
+    expect(fs.readFileSync(path.join(translationsPath, 'fr/common.yml'), 'utf8')).toBe(
+      ['fr:', '  home:', '    title: ""', ''].join('\n')
+    );
+    expect(readTranslations(translationsPath, 'fr').common).toEqual({ 'home.title': '' });
+  });
+
+  test('should print the YAML file names of synced keys', () => {
+    writeFile('en/common.yml', 'SAVE: Save\n');
+    writeFile('fr/common.yml', 'SAVE: Enregistrer\nOLD: Ancien\n');
+
+    printSyncChanges(syncTranslationStructure(translationsPath, ['en', 'fr'], 'en', { dryRun: true }));
+
+    expect(logSpy).toHaveBeenCalledWith('- fr/common.yml -> OLD');
+  });
+
+  test('should name YAML files in validation messages', () => {
+    const config = {
+      translationsPath: 'locales',
+      languages: ['en', 'fr', 'de'],
+      sourceLanguage: 'en',
+      fileFormat: 'yaml'
+    };
+    fs.writeFileSync(path.join(testDir, '.translationsrc.json'), JSON.stringify(config));
+    writeFile('en/common.yml', 'SAVE: Save\n');
+    writeFile('fr/common.yml', 'SAVE: ""\nOLD: Ancien\n');
+
+    validateTranslations(testDir);
+
+    expect(logSpy).toHaveBeenCalledWith('  de/common.yml -> SAVE');
+    expect(logSpy).toHaveBeenCalledWith('  fr/common.yml -> SAVE');
+    expect(logSpy).toHaveBeenCalledWith('  fr/common.yml -> OLD');
+  });
+
+  test('should archive removed keys in the format of their namespace file', () => {
+    writeFile('en/common.yml', 'SAVE: Save\n');
+    writeFile('fr/common.yml', 'SAVE: Enregistrer\nOLD: Ancien\n');
+    writeFile('fr/_archive/common.yml', '# Removed keys\nGONE: Parti\n');
+    writeFile('fr/legacy.yml', 'TITLE: Titre\n');
+
+    syncTranslationStructure(translationsPath, ['en', 'fr'], 'en', { keepOrphans: true });
+
+    expect(fs.readFileSync(path.join(translationsPath, 'fr/_archive/common.yml'), 'utf8')).toBe(
+      '# Removed keys\nGONE: Parti\nOLD: Ancien\n'
+    );
+    expect(fs.readFileSync(path.join(translationsPath, 'fr/_archive/legacy.yml'), 'utf8')).toBe('TITLE: Titre\n');
+    expect(fs.existsSync(path.join(translationsPath, 'fr/_archive/common.json'))).toBe(false);
+  });
+
+  test('should write new files in the configured format and detect the format of existing projects', () => {
+    writeTranslation(translationsPath, 'en', 'common', { SAVE: 'Save' }, 'auto', 'yaml');
+    writeTranslation(translationsPath, 'en', 'settings', { TITLE: 'Settings' });
+
+    expect(fs.readFileSync(path.join(translationsPath, 'en/common.yml'), 'utf8')).toBe('SAVE: Save\n');
+    expect(fs.existsSync(path.join(translationsPath, 'en/settings.yml'))).toBe(true);
+    expect(detectExistingTranslations(testDir)).toEqual({ path: 'locales', languages: ['en'], fileFormat: 'yaml' });
+  });
+});
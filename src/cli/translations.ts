@@ -7,6 +7,8 @@ import { addTranslationKey } from '../translations/cli/add-key.js';
 import { loadConfig } from '../translations/cli/init.js';
 import { initTranslationsInteractive } from '../translations/cli/init-interactive.js';
 import { manageTranslations } from '../translations/cli/manage.js';
+import { getApiKeyEnvVar } from '../translations/core/schema.js';
+import { configRequiresApiKey, getPrimaryProvider } from '../translations/utils/provider-registry.js';
 import { getNamespaces } from '../translations/utils/utils.js';
 
 const { values, positionals } = parseArgs({
@@ -19,6 +21,10 @@ const { values, positionals } = parseArgs({
     'api-key': {
       type: 'string'
     },
+    'refresh-stale': {
+      type: 'boolean',
+      default: false
+    },
     limit: {
       type: 'string'
     },
@@ -26,6 +32,9 @@ const { values, positionals } = parseArgs({
       type: 'string',
       default: '5'
     },
+    'batch-size': {
+      type: 'string'
+    },
     language: {
       type: 'string',
       short: 'l'
@@ -51,6 +60,52 @@ const { values, positionals } = parseArgs({
       type: 'string',
       short: 'v'
     },
+    'older-than': {
+      type: 'string'
+    },
+    provider: {
+      type: 'string'
+    },
+    format: {
+      type: 'string'
+    },
+    output: {
+      type: 'string',
+      short: 'o'
+    },
+    fix: {
+      type: 'boolean',
+      default: false
+    },
+    'keep-orphans': {
+      type: 'boolean',
+      default: false
+    },
+    backup: {
+      type: 'boolean',
+      default: false
+    },
+    add: {
+      type: 'boolean',
+      default: false
+    },
+    'include-partial': {
+      type: 'boolean',
+      default: false
+    },
+    ignore: {
+      type: 'string',
+      multiple: true
+    },
+    yes: {
+      type: 'boolean',
+      short: 'y',
+      default: false
+    },
+    check: {
+      type: 'boolean',
+      default: false
+    },
     help: {
       type: 'boolean',
       short: 'h'
@@ -68,16 +123,29 @@ auto-filling, and type generation based on your project's current state.
 
 Commands:
   (none)              Smart mode - validates, fills, and generates types
+  validate            Validate translations (read-only) and exit non-zero if any are invalid
+  sync                Synchronize target languages with the source (remove orphans, create missing files)
   add                 Add a new translation key
+  types               Generate TypeScript types (--check: exit non-zero if they are out of date)
+  watch               Keep types and the other languages in sync while source files change
   find-unused         Find translation keys that are not used in the codebase
+  find-missing        Find keys used in the codebase that are missing from the source language
+  prune               Remove keys that are not used in the codebase from every language
+  accept-stale        Mark stale translations (fixed by hand) as up to date with the current source
   find-duplicates     Find values duplicated from the common namespace
+  memory stats        Show translation memory statistics
+  memory prune        Remove translation memory entries (default: unused for 90 days)
+  memory export       Export the translation memory as TMX or JSON
+  memory import <file> Import a TMX file into the translation memory
 
 Options (Smart Mode):
   -a, --auto-fill         Auto-fill missing translations with DeepL or Google Translate
-  --api-key <key>         Translation API key (or set DEEPL_API_KEY/GOOGLE_TRANSLATE_API_KEY)
+  --refresh-stale         Re-translate only stale translations (source changed since translation)
+  --api-key <key>         Translation API key (or set DEEPL_API_KEY/GOOGLE_TRANSLATE_API_KEY/OPENAI_API_KEY)
   -l, --language <lang>   Process only this language
   --limit <number>        Max translations to process (default: unlimited)
   --concurrency <number>  Number of concurrent translation requests (default: 5)
+  --batch-size <number>   Max texts sent per translation request (default: 50)
   --skip-types            Skip TypeScript type generation
   -d, --dry-run           Preview changes without saving
   -h, --help              Show this help
@@ -90,6 +158,46 @@ Options (Add Mode):
 
   (no options)            Interactive mode - prompts for all inputs
 
+Options (Sync Mode):
+  -d, --dry-run           Print a unified diff of every file sync would change, without changing it
+  --keep-orphans          Move removed keys into <language>/_archive/<namespace>.json (or .yml) instead of deleting them
+  --backup                Copy touched files into .translations-backup/<timestamp>/ first
+
+Options (Types Mode):
+  --check                 Don't write the types file, exit with code 1 if it differs from the generated output
+
+Options (Watch Mode):
+  -a, --auto-fill         Auto-fill source keys added while watching (2s after the last change)
+  --api-key <key>         Translation API key for auto-fill
+  --skip-types            Don't regenerate TypeScript types on changes
+
+Options (Prune Mode):
+  -d, --dry-run           Show the keys prune would remove, without removing them
+  --include-partial       Also remove keys that may be used dynamically (partial matches)
+  --ignore <pattern>      Keep keys matching this key or glob (status.*, errors:*); can be repeated
+  -y, --yes               Remove the keys without asking for confirmation
+  --skip-types            Skip TypeScript type generation
+
+Options (Accept Stale Mode):
+  -l, --language <lang>   Only accept translations of this language
+  -n, --namespace <name>  Only accept translations of this namespace
+  -k, --key <key>         Only accept translations of this key
+  -d, --dry-run           Show the translations that would be accepted, without changing the lockfile
+
+Options (validate, find-unused, find-missing, find-duplicates):
+  --fix                   validate: print and remove orphaned keys and namespace files, create missing files
+  --add                   find-missing: add the keys to the source language (default value from code, if any)
+  -a, --auto-fill         find-missing --add: auto-translate keys that have a default value
+  --format <format>       Report format: text, json, sarif, junit or github (default: text)
+  -o, --output <file>     Write the report to a file instead of stdout
+
+Options (Memory Mode):
+  --older-than <days>     prune: remove entries not used for this many days
+  -l, --language <lang>   prune/export: only entries for this target language
+  --provider <name>       prune: only entries from this provider; import: provider for units without one
+  --format <tmx|json>     export: output format (default: tmx)
+  -o, --output <file>     export: write to a file instead of stdout
+
 Examples:
   # Smart mode - check and validate translations
   translations
@@ -102,12 +210,19 @@ Examples:
   export GOOGLE_TRANSLATE_API_KEY=your_key
   translations --auto-fill
 
+  # Smart mode - auto-fill with any OpenAI-compatible endpoint (provider: "openai-compatible")
+  export OPENAI_API_KEY=your_key   # optional for local servers such as Ollama
+  translations --auto-fill
+
   # Smart mode - auto-fill only French translations
   translations --auto-fill --language fr
 
   # Preview what would be translated (dry-run)
   translations --auto-fill --dry-run
 
+  # Re-translate entries whose source text changed since they were translated
+  translations --refresh-stale
+
   # Add a new translation key (interactive mode)
   translations add
 
@@ -117,12 +232,46 @@ Examples:
   # Add with auto-translation
   translations add -n common -k WELCOME -v "Welcome" --auto-fill
 
+  # Fail CI when the committed types are out of date
+  translations types --check
+
+  # Regenerate types and add new keys to the other languages on every save, translating them
+  translations watch --auto-fill
+
   # Find unused translation keys
   translations find-unused
 
+  # Find keys used in code but missing from the translations, then add them
+  translations find-missing
+  translations find-missing --add
+
+  # Preview, then remove unused keys from every language (keeping dynamic status.* keys)
+  translations prune --dry-run
+  translations prune --ignore "status.*"
+
+  # Keep a hand-fixed French translation of a changed source value, instead of re-translating it
+  translations accept-stale --language fr --key SAVE
+
+  # Remove orphaned keys (the removals are printed first), then validate
+  translations validate --fix
+
+  # Preview what sync would remove, then sync keeping removed translations and a backup
+  translations sync --dry-run
+  translations sync --keep-orphans --backup
+
+  # Validate in CI and upload a SARIF report for code scanning
+  translations validate --format sarif --output translations.sarif
+
+  # Annotate pull requests with each missing or orphaned key (GitHub Actions)
+  translations validate --format github
+
   # Find values duplicated from common namespace
   translations find-duplicates
 
+  # Share the translation memory with a translation agency, and import their TMX
+  translations memory export --output memory.tmx
+  translations memory import agency.tmx
+
 What happens in smart mode:
   1. Checks if translations are initialized (creates .translationsrc.json if needed)
   2. Validates all translations against source language
@@ -135,11 +284,72 @@ What happens in smart mode:
 
 const command = positionals[0];
 
+/**
+ * Load the report helpers and check --format/--output for validate, find-unused, find-missing and find-duplicates
+ */
+async function loadReportOptions() {
+  const report = await import('../translations/cli/report.js');
+  const format = report.parseReportFormat(values.format);
+
+  if (format === 'text' && values.output) {
+    throw new Error('--output needs a --format other than text');
+  }
+
+  return { ...report, format };
+}
+
+// Handle 'validate' command
+if (command === 'validate') {
+  (async () => {
+    try {
+      const { validateTranslations } = await import('../translations/cli/validate.js');
+      const { format, formatReport, getValidationIssues, withConsoleOnStderr, writeReport } = await loadReportOptions();
+
+      const options = { fix: values.fix };
+
+      if (format === 'text') {
+        process.exit(validateTranslations(process.cwd(), options).valid ? 0 : 1);
+      }
+
+      // Human output goes to stderr so the report can be piped
+      const result = withConsoleOnStderr(() => validateTranslations(process.cwd(), options));
+      writeReport(formatReport('validate', getValidationIssues(process.cwd(), result), format), values.output);
+      process.exit(result.valid ? 0 : 1);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  })();
+}
+// Handle 'sync' command
+else if (command === 'sync') {
+  (async () => {
+    try {
+      const { syncTranslations } = await import('../translations/cli/sync.js');
+
+      syncTranslations(process.cwd(), {
+        dryRun: values['dry-run'],
+        keepOrphans: values['keep-orphans'],
+        backup: values.backup
+      });
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  })();
+}
 // Handle 'find-unused' command
-if (command === 'find-unused') {
+else if (command === 'find-unused') {
   (async () => {
     try {
       const { findUnusedKeys, printUnusedKeysResult } = await import('../translations/cli/find-unused.js');
+      const { format, formatReport, getUnusedKeyIssues, withConsoleOnStderr, writeReport } = await loadReportOptions();
+
+      if (format !== 'text') {
+        const result = withConsoleOnStderr(() => findUnusedKeys(process.cwd()));
+        writeReport(formatReport('find-unused', getUnusedKeyIssues(process.cwd(), result), format), values.output);
+        return;
+      }
 
       console.log('\n🔍 Finding unused translation keys...\n');
 
@@ -151,11 +361,151 @@ if (command === 'find-unused') {
     }
   })();
 }
+// Handle 'find-missing' command
+else if (command === 'find-missing') {
+  (async () => {
+    try {
+      const { addMissingKeys, findMissingKeys, printMissingKeysResult } = await import(
+        '../translations/cli/find-missing.js'
+      );
+      const { format, formatReport, getMissingKeyIssues, withConsoleOnStderr, writeReport } = await loadReportOptions();
+
+      if (format !== 'text') {
+        const result = withConsoleOnStderr(() => findMissingKeys(process.cwd()));
+        writeReport(formatReport('find-missing', getMissingKeyIssues(result), format), values.output);
+        process.exit(result.missing.length > 0 ? 1 : 0);
+      }
+
+      console.log('\n🔍 Finding keys missing from the source language...\n');
+
+      const result = findMissingKeys(process.cwd());
+      printMissingKeysResult(result);
+
+      if (values.add && result.missing.length > 0) {
+        const config = loadConfig(process.cwd());
+        const apiKey = values['api-key'] || process.env[getApiKeyEnvVar(getPrimaryProvider(config))];
+        await addMissingKeys(process.cwd(), result, { autoTranslate: values['auto-fill'], apiKey });
+      } else if (result.missing.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  })();
+}
+// Handle 'types' command
+else if (command === 'types') {
+  (async () => {
+    try {
+      const { checkTranslationTypes, generateTranslationTypes } = await import('../translations/cli/generate-types.js');
+
+      if (values.check) {
+        process.exit(checkTranslationTypes(process.cwd()) ? 0 : 1);
+      }
+
+      generateTranslationTypes(process.cwd());
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  })();
+}
+// Handle 'watch' command
+else if (command === 'watch') {
+  (async () => {
+    try {
+      const { watchTranslations } = await import('../translations/cli/watch.js');
+      const config = loadConfig(process.cwd());
+      const apiKey = values['api-key'] || process.env[getApiKeyEnvVar(getPrimaryProvider(config))];
+
+      const watcher = watchTranslations(process.cwd(), {
+        autoFill: values['auto-fill'],
+        apiKey,
+        skipTypes: values['skip-types']
+      });
+
+      process.on('SIGINT', () => {
+        watcher.close();
+        process.exit(0);
+      });
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  })();
+}
+// Handle 'prune' command
+else if (command === 'prune') {
+  (async () => {
+    try {
+      const { findUnusedKeys } = await import('../translations/cli/find-unused.js');
+      const { printPruneSummary, pruneUnusedKeys } = await import('../translations/cli/prune.js');
+      const options = {
+        includePartial: values['include-partial'],
+        ignore: values.ignore,
+        skipTypes: values['skip-types']
+      };
+
+      console.log('\n🔍 Finding unused translation keys...\n');
+
+      const unusedKeys = findUnusedKeys(process.cwd());
+      const preview = pruneUnusedKeys(process.cwd(), unusedKeys, { ...options, dryRun: true });
+      printPruneSummary(preview, true);
+
+      if (values['dry-run'] || preview.keys.length === 0) {
+        return;
+      }
+
+      const shouldPrune =
+        values.yes ||
+        (await confirm({
+          message: `Remove ${preview.keys.length} keys from every language?`,
+          default: false
+        }));
+
+      if (!shouldPrune) {
+        console.log('Cancelled, no keys were removed');
+        return;
+      }
+
+      const result = pruneUnusedKeys(process.cwd(), unusedKeys, options);
+      console.log(`\n✓ Removed ${result.keys.length} keys (${result.removed.length} translations)`);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  })();
+}
+// Handle 'accept-stale' command
+else if (command === 'accept-stale') {
+  (async () => {
+    try {
+      const { acceptStaleTranslations } = await import('../translations/cli/accept-stale.js');
+      acceptStaleTranslations(process.cwd(), {
+        language: values.language,
+        namespace: values.namespace,
+        key: values.key,
+        dryRun: values['dry-run']
+      });
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  })();
+}
 // Handle 'find-duplicates' command
 else if (command === 'find-duplicates') {
   (async () => {
     try {
       const { findDuplicates, printDuplicateKeysResult } = await import('../translations/cli/find-duplicates.js');
+      const { format, formatReport, getDuplicateIssues, withConsoleOnStderr, writeReport } = await loadReportOptions();
+
+      if (format !== 'text') {
+        const result = withConsoleOnStderr(() => findDuplicates(process.cwd()));
+        writeReport(formatReport('find-duplicates', getDuplicateIssues(process.cwd(), result), format), values.output);
+        return;
+      }
 
       console.log('\n🔍 Finding duplicate translations (common namespace)...\n');
 
@@ -268,13 +618,15 @@ else if (command === 'add') {
         });
 
         let apiKey: string | undefined;
+        let canTranslate = autoTranslate;
         if (autoTranslate) {
-          const provider = config.provider || 'deepl';
-          const envVarName = provider === 'google' ? 'GOOGLE_TRANSLATE_API_KEY' : 'DEEPL_API_KEY';
+          const provider = getPrimaryProvider(config);
+          const envVarName = getApiKeyEnvVar(provider);
           apiKey = values['api-key'] || process.env[envVarName];
-          if (!apiKey) {
+          if (!apiKey && configRequiresApiKey(config)) {
             console.log(`\n⚠️  ${envVarName} environment variable not found.`);
             console.log('Skipping auto-translation. Set this variable to enable auto-translation.\n');
+            canTranslate = false;
           }
         }
 
@@ -285,7 +637,7 @@ else if (command === 'add') {
           namespace,
           key: key.toUpperCase(),
           value,
-          autoTranslate: autoTranslate && !!apiKey,
+          autoTranslate: canTranslate,
           apiKey
         });
 
@@ -308,11 +660,11 @@ else if (command === 'add') {
     }
 
     const config = loadConfig(process.cwd());
-    const provider = config.provider || 'deepl';
-    const envVarName = provider === 'google' ? 'GOOGLE_TRANSLATE_API_KEY' : 'DEEPL_API_KEY';
+    const provider = getPrimaryProvider(config);
+    const envVarName = getApiKeyEnvVar(provider);
     const apiKey = values['api-key'] || process.env[envVarName];
 
-    if (values['auto-fill'] && !apiKey) {
+    if (values['auto-fill'] && !apiKey && configRequiresApiKey(config)) {
       console.error(`Error: --api-key or ${envVarName} environment variable is required for auto-translation`);
       process.exit(1);
     }
@@ -332,29 +684,95 @@ else if (command === 'add') {
         process.exit(1);
       });
   }
+}
+// Handle 'memory' command
+else if (command === 'memory') {
+  (async () => {
+    try {
+      const {
+        exportTranslationMemory,
+        getTranslationMemoryStats,
+        importTranslationMemory,
+        printTranslationMemoryStats,
+        pruneTranslationMemory
+      } = await import('../translations/cli/memory.js');
+      const subcommand = positionals[1] ?? 'stats';
+
+      if (subcommand === 'stats') {
+        printTranslationMemoryStats(getTranslationMemoryStats(process.cwd()));
+      } else if (subcommand === 'prune') {
+        const olderThanDays = values['older-than'] ? Number.parseInt(values['older-than'], 10) : undefined;
+        if (olderThanDays !== undefined && Number.isNaN(olderThanDays)) {
+          throw new Error(`Invalid --older-than value: ${values['older-than']}`);
+        }
+
+        const removed = pruneTranslationMemory(process.cwd(), {
+          olderThanDays,
+          language: values.language,
+          provider: values.provider
+        });
+        console.log(`✓ Removed ${removed} translation memory entries`);
+      } else if (subcommand === 'export') {
+        const format = values.format ?? 'tmx';
+        if (format !== 'tmx' && format !== 'json') {
+          throw new Error(`Invalid --format value: ${format} (expected tmx or json)`);
+        }
+
+        const exported = exportTranslationMemory(process.cwd(), { format, language: values.language });
+        if (values.output) {
+          fs.writeFileSync(values.output, exported, 'utf-8');
+          console.log(`✓ Exported translation memory to ${values.output}`);
+        } else {
+          process.stdout.write(exported);
+        }
+      } else if (subcommand === 'import') {
+        const file = positionals[2];
+        if (!file) {
+          throw new Error('Usage: translations memory import <file.tmx>');
+        }
+
+        const imported = importTranslationMemory(process.cwd(), file, { provider: values.provider });
+        console.log(`✓ Imported ${imported} translation memory entries from ${file}`);
+      } else {
+        throw new Error(`Unknown memory command: ${subcommand} (expected stats, prune, export or import)`);
+      }
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  })();
 } else if (command) {
   console.error(`Unknown command: ${command}`);
   console.log('Use --help for usage information');
   process.exit(1);
 } else {
   // Check if any flags were provided
-  const hasFlags = values['auto-fill'] || values.language || values['skip-types'] || values['dry-run'];
+  const hasFlags =
+    values['auto-fill'] || values['refresh-stale'] || values.language || values['skip-types'] || values['dry-run'];
 
   if (hasFlags) {
     // Flag mode - run with provided options
     const configPath = path.join(process.cwd(), '.translationsrc.json');
-    const config = fs.existsSync(configPath) ? loadConfig(process.cwd()) : { provider: 'deepl' };
-    const provider = config.provider || 'deepl';
-    const envVarName = provider === 'google' ? 'GOOGLE_TRANSLATE_API_KEY' : 'DEEPL_API_KEY';
+    const config = fs.existsSync(configPath) ? loadConfig(process.cwd()) : { provider: 'deepl' as const };
+    const provider = getPrimaryProvider(config);
+    const envVarName = getApiKeyEnvVar(provider);
     const apiKey = values['api-key'] || process.env[envVarName];
     const limit = values.limit ? Number.parseInt(values.limit, 10) : undefined;
     const concurrency = Number.parseInt(values.concurrency || '5', 10);
+    const batchSize = values['batch-size'] ? Number(values['batch-size']) : undefined;
+
+    if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+      console.error('Error: --batch-size must be a positive integer');
+      process.exit(1);
+    }
 
     manageTranslations(process.cwd(), {
       autoFill: values['auto-fill'],
+      refreshStale: values['refresh-stale'],
       apiKey,
       limit,
       concurrency,
+      batchSize,
       language: values.language,
       skipTypes: values['skip-types'],
       dryRun: values['dry-run']
@@ -395,6 +813,11 @@ else if (command === 'add') {
               value: 'find-unused',
               description: 'Find translation keys not used in the codebase'
             },
+            {
+              name: '🔎 Find missing keys',
+              value: 'find-missing',
+              description: 'Find keys used in the codebase that are missing from the translations'
+            },
             {
               name: '🔎 Find duplicate values',
               value: 'find-duplicates',
@@ -512,13 +935,15 @@ else if (command === 'add') {
           });
 
           let apiKey: string | undefined;
+          let canTranslate = autoTranslate;
           if (autoTranslate) {
-            const provider = config.provider || 'deepl';
-            const envVarName = provider === 'google' ? 'GOOGLE_TRANSLATE_API_KEY' : 'DEEPL_API_KEY';
+            const provider = getPrimaryProvider(config);
+            const envVarName = getApiKeyEnvVar(provider);
             apiKey = process.env[envVarName];
-            if (!apiKey) {
+            if (!apiKey && configRequiresApiKey(config)) {
               console.log(`\n⚠️  ${envVarName} environment variable not found.`);
               console.log('Skipping auto-translation. Set this variable to enable auto-translation.\n');
+              canTranslate = false;
             }
           }
 
@@ -528,7 +953,7 @@ else if (command === 'add') {
             namespace,
             key: key.toUpperCase(),
             value,
-            autoTranslate: autoTranslate && !!apiKey,
+            autoTranslate: canTranslate,
             apiKey
           });
 
@@ -541,10 +966,10 @@ else if (command === 'add') {
           });
         } else if (action === 'autofill') {
           const config = loadConfig(process.cwd());
-          const provider = config.provider || 'deepl';
-          const envVarName = provider === 'google' ? 'GOOGLE_TRANSLATE_API_KEY' : 'DEEPL_API_KEY';
+          const provider = getPrimaryProvider(config);
+          const envVarName = getApiKeyEnvVar(provider);
           const apiKey = process.env[envVarName];
-          if (!apiKey) {
+          if (!apiKey && configRequiresApiKey(config)) {
             console.log(`⚠️  ${envVarName} environment variable not found.`);
             console.log('Please set it to enable auto-translation.\n');
             process.exit(1);
@@ -565,6 +990,10 @@ else if (command === 'add') {
           const { findUnusedKeys, printUnusedKeysResult } = await import('../translations/cli/find-unused.js');
           const result = findUnusedKeys(process.cwd());
           printUnusedKeysResult(result);
+        } else if (action === 'find-missing') {
+          const { findMissingKeys, printMissingKeysResult } = await import('../translations/cli/find-missing.js');
+          const result = findMissingKeys(process.cwd());
+          printMissingKeysResult(result);
         } else if (action === 'find-duplicates') {
           const { findDuplicates, printDuplicateKeysResult } = await import('../translations/cli/find-duplicates.js');
           const result = findDuplicates(process.cwd());
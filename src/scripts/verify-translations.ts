@@ -1,21 +1,41 @@
 #!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import {
+  formatReport,
+  getValidationIssues,
+  parseReportFormat,
+  withConsoleOnStderr,
+  writeReport
+} from '../translations/cli/report.js';
 import { validateTranslations } from '../translations/cli/validate.js';
 
 /**
  * Script to verify that all translations have no missing keys
- * Exits with error code 1 if there are any missing or empty translations
+ * Exits with error code 1 if there are any missing, empty, orphaned or stale translations, glossary violations, broken ICU messages, mismatched variables or plural form problems
  * This is useful for CI/CD pipelines to ensure translation completeness
+ * `--format json|sarif|junit|github` (with `--output <file>`) writes a machine-readable report as well
  */
 function verifyTranslations(): void {
   const projectRoot = process.cwd();
 
   try {
+    const { values } = parseArgs({
+      options: { format: { type: 'string' }, output: { type: 'string', short: 'o' } }
+    });
+    const format = parseReportFormat(values.format);
+
+    if (format !== 'text') {
+      const result = withConsoleOnStderr(() => validateTranslations(projectRoot));
+      writeReport(formatReport('validate', getValidationIssues(projectRoot, result), format), values.output);
+      process.exit(result.valid ? 0 : 1);
+    }
+
     const result = validateTranslations(projectRoot);
 
     if (!result.valid) {
       console.error('\n❌ Translation verification failed!');
       console.error(
-        `Found ${result.missing.length} missing translations, ${result.empty.length} empty translations, and ${result.orphaned.length} orphaned translations.`
+        `Found ${result.missing.length} missing translations, ${result.empty.length} empty translations, ${result.orphaned.length} orphaned translations, ${result.stale.length} stale translations, ${result.glossary.length} glossary violations, ${result.messageFormat.length} broken ICU messages, ${result.variableMismatch.length} translations with mismatched variables, and ${result.plurals.length} plural form problems.`
       );
       console.error('Please fix these issues before proceeding.\n');
       process.exit(1);
@@ -0,0 +1,79 @@
+import * as path from 'node:path';
+import type { StaleTranslation } from '../core/types.js';
+import { isStaleTranslation, readTranslationLock, recordTranslation, writeTranslationLock } from '../utils/lockfile.js';
+import { readTranslations } from '../utils/utils.js';
+import { loadConfig } from './init.js';
+
+export interface AcceptStaleOptions {
+  /** Only accept translations of this language */
+  language?: string;
+  /** Only accept translations of this namespace */
+  namespace?: string;
+  /** Only accept the translations of this key */
+  key?: string;
+  /** Only report what would be accepted, without writing the lockfile */
+  dryRun?: boolean;
+}
+
+/**
+ * Mark stale translations as up to date with the current source value
+ * For translations fixed by hand after the source changed: the lockfile records the current source hash, so
+ * validate stops reporting them without re-translating over the fix. Empty translations are never accepted.
+ */
+export function acceptStaleTranslations(
+  projectRoot: string = process.cwd(),
+  options: AcceptStaleOptions = {}
+): StaleTranslation[] {
+  const config = loadConfig(projectRoot);
+  const translationsPath = path.join(projectRoot, config.translationsPath);
+  const lock = readTranslationLock(projectRoot);
+  const sourceTranslations = readTranslations(translationsPath, config.sourceLanguage);
+  const accepted: StaleTranslation[] = [];
+
+  const languages = config.languages.filter(
+    (language) => language !== config.sourceLanguage && (!options.language || language === options.language)
+  );
+
+  for (const language of languages) {
+    const targetTranslations = readTranslations(translationsPath, language);
+
+    for (const [namespace, entries] of Object.entries(lock.translations[language] ?? {})) {
+      if (options.namespace && namespace !== options.namespace) continue;
+
+      for (const key of Object.keys(entries)) {
+        if (options.key && key !== options.key) continue;
+
+        const sourceValue = sourceTranslations[namespace]?.[key];
+        const value = targetTranslations[namespace]?.[key];
+
+        if (sourceValue === undefined || !value?.trim()) continue;
+        if (!isStaleTranslation(lock, language, namespace, key, sourceValue)) continue;
+
+        // Keep the provider that produced the translation
+        recordTranslation(lock, language, namespace, key, sourceValue, entries[key].provider);
+        accepted.push({ namespace, key, language, sourceValue, value });
+      }
+    }
+  }
+
+  if (!options.dryRun && accepted.length > 0) {
+    writeTranslationLock(projectRoot, lock);
+  }
+
+  console.log('=====');
+  console.log(options.dryRun ? 'Accepting stale translations (dry run)' : 'Accepting stale translations');
+  console.log('=====');
+
+  if (accepted.length === 0) {
+    console.log('✓ No stale translations to accept');
+  } else {
+    console.log(`${options.dryRun ? 'Would accept' : 'Accepted'} ${accepted.length} translations:`);
+    for (const item of accepted) {
+      console.log(`  ${item.language}/${item.namespace} -> ${item.key}`);
+    }
+  }
+
+  console.log('=====');
+
+  return accepted;
+}
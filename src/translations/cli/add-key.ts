@@ -1,8 +1,13 @@
 import * as path from 'node:path';
 import type { TranslationEntry } from '../core/types.js';
-import { DeepLTranslateProvider } from '../utils/deepl-translate-provider.js';
-import { GoogleTranslateProvider } from '../utils/google-translate-provider.js';
-import { getTranslationProvider, setTranslationProvider, translateText } from '../utils/translator.js';
+import { getTranslationFileName } from '../utils/file-formats.js';
+import { readTranslationLock, recordTranslation, writeTranslationLock } from '../utils/lockfile.js';
+import {
+  configRequiresApiKey,
+  getPrimaryProvider,
+  useConfiguredTranslationProvider
+} from '../utils/provider-registry.js';
+import { buildTranslationContext, translateBatchWithProvider } from '../utils/translator.js';
 import { readTranslations, sortKeys, writeTranslation } from '../utils/utils.js';
 import { generateTranslationTypes } from './generate-types.js';
 import { loadConfig } from './init.js';
@@ -28,19 +33,8 @@ export async function addTranslationKey(projectRoot: string, options: AddKeyOpti
   const translationsPath = path.join(projectRoot, config.translationsPath);
   const { namespace, key, value, autoTranslate = false, apiKey } = options;
 
-  // Set up the translation provider based on config (only if not already set by user)
-  const currentProvider = getTranslationProvider();
-  const isDefaultGoogleProvider = currentProvider.constructor.name === 'GoogleTranslateProvider';
-
-  // Only set provider if user hasn't already set a custom one
-  if (isDefaultGoogleProvider) {
-    const provider = config.provider || 'deepl';
-    if (provider === 'deepl') {
-      setTranslationProvider(new DeepLTranslateProvider());
-    } else {
-      setTranslationProvider(new GoogleTranslateProvider());
-    }
-  }
+  // Set up the translation provider from config (a provider set with setTranslationProvider takes precedence)
+  await useConfiguredTranslationProvider(projectRoot, config);
 
   console.log('=====');
   console.log('Adding translation key');
@@ -64,14 +58,16 @@ export async function addTranslationKey(projectRoot: string, options: AddKeyOpti
 
   sourceTranslations[namespace][key] = value;
   const sortedSource = sortKeys(sourceTranslations[namespace]);
-  writeTranslation(translationsPath, sourceLang, namespace, sortedSource);
-  console.log(`✓ Added to ${sourceLang}/${namespace}.json`);
+  writeTranslation(translationsPath, sourceLang, namespace, sortedSource, config.fileStructure, config.fileFormat);
+  console.log(`✓ Added to ${getTranslationFileName(translationsPath, sourceLang, namespace)}`);
 
   // Handle other languages
   const otherLanguages = config.languages.filter((lang) => lang !== sourceLang);
 
-  if (autoTranslate && apiKey) {
+  if (autoTranslate && (apiKey || !configRequiresApiKey(config))) {
     console.log('\nAuto-translating to other languages...');
+    const lock = readTranslationLock(projectRoot);
+    const context = buildTranslationContext(sortedSource, namespace, key);
 
     for (const lang of otherLanguages) {
       try {
@@ -83,21 +79,29 @@ export async function addTranslationKey(projectRoot: string, options: AddKeyOpti
 
         // Only translate if key doesn't exist or is empty
         if (!targetTranslations[namespace][key] || targetTranslations[namespace][key].trim() === '') {
-          const translated = await translateText(
-            value,
-            lang,
-            sourceLang,
-            apiKey,
-            config.useFallbackLanguages,
-            config.protectedTerms
-          );
+          const {
+            translations: [translated],
+            provider: producedBy,
+            providers: [textProvider] = []
+          } = await translateBatchWithProvider([value], lang, sourceLang, apiKey, 0, {
+            useFallbackLanguages: config.useFallbackLanguages,
+            protectedTerms: config.protectedTerms,
+            glossary: config.glossary,
+            contexts: [context]
+          });
           targetTranslations[namespace][key] = translated;
           const sorted = sortKeys(targetTranslations[namespace]);
-          writeTranslation(translationsPath, lang, namespace, sorted);
+          writeTranslation(translationsPath, lang, namespace, sorted, config.fileStructure, config.fileFormat);
+          recordTranslation(
+            lock,
+            lang,
+            namespace,
+            key,
+            value,
+            textProvider ?? producedBy ?? getPrimaryProvider(config)
+          );
+          writeTranslationLock(projectRoot, lock);
           console.log(`  ✓ ${lang}: "${translated}"`);
-
-          // Small delay to avoid rate limiting
-          await new Promise((resolve) => setTimeout(resolve, 100));
         } else {
           console.log(`  - ${lang}: Already exists, skipping`);
         }
@@ -120,10 +124,10 @@ export async function addTranslationKey(projectRoot: string, options: AddKeyOpti
       if (!targetTranslations[namespace][key]) {
         targetTranslations[namespace][key] = '';
         const sorted = sortKeys(targetTranslations[namespace]);
-        writeTranslation(translationsPath, lang, namespace, sorted);
-        console.log(`  ✓ ${lang}/${namespace}.json`);
+        writeTranslation(translationsPath, lang, namespace, sorted, config.fileStructure, config.fileFormat);
+        console.log(`  ✓ ${getTranslationFileName(translationsPath, lang, namespace)}`);
       } else {
-        console.log(`  - ${lang}/${namespace}.json: Already exists`);
+        console.log(`  - ${getTranslationFileName(translationsPath, lang, namespace)}: Already exists`);
       }
     }
 
@@ -1,10 +1,26 @@
 import * as path from 'node:path';
-import { DeepLTranslateProvider } from '../utils/deepl-translate-provider.js';
-import { GoogleTranslateProvider } from '../utils/google-translate-provider.js';
-import { getTranslationProvider, setTranslationProvider, translateText } from '../utils/translator.js';
-import { readTranslations, sortKeys, syncTranslationStructure, writeTranslation } from '../utils/utils.js';
+import { getApiKeyEnvVar } from '../core/schema.js';
+import type { MissingTranslation } from '../core/types.js';
+import { getTranslationFileName } from '../utils/file-formats.js';
+import { readTranslationLock, recordTranslation, writeTranslationLock } from '../utils/lockfile.js';
+import { getExpectedTranslationKeys, parsePluralKey } from '../utils/plurals.js';
+import {
+  configRequiresApiKey,
+  getPrimaryProvider,
+  useConfiguredTranslationProvider
+} from '../utils/provider-registry.js';
+import { TranslationStore } from '../utils/translation-store.js';
+import { buildTranslationContext, translateBatchWithProvider } from '../utils/translator.js';
+import type { ProviderBatchResult } from '../utils/translator-interface.js';
+import {
+  readTranslations,
+  sortKeys,
+  syncTranslationStructure,
+  validateVariables,
+  writeTranslation
+} from '../utils/utils.js';
 import { loadConfig } from './init.js';
-import { getMissingForLanguage } from './validate.js';
+import { getMissingForLanguage, getStaleForLanguage } from './validate.js';
 
 interface AutoFillOptions {
   /** Language to fill translations for */
@@ -13,12 +29,36 @@ interface AutoFillOptions {
   apiKey?: string;
   /** Maximum number of translations to process */
   limit?: number;
-  /** Delay between translations in milliseconds */
+  /**
+   * Delay passed on to custom providers' translateBatch
+   * @deprecated Built-in providers are rate limited through the `rateLimit` config instead
+   */
   delayMs?: number;
   /** Dry run - don't actually write translations */
   dryRun?: boolean;
   /** Number of concurrent translation requests (default: 5) */
   concurrency?: number;
+  /** Maximum number of texts sent to the provider in a single batch (default: 50) */
+  batchSize?: number;
+  /** Re-translate only stale translations (source value changed since they were translated) */
+  refreshStale?: boolean;
+  /**
+   * Only fill these source keys (and the other plural forms of plural keys)
+   * The structure sync before filling is then non-destructive and limited to their namespaces
+   */
+  keys?: Array<{ namespace: string; key: string }>;
+}
+
+/**
+ * Whether a missing translation is the selected key, or another plural form of it (items_few for items_one)
+ */
+function isSameKey(selected: { namespace: string; key: string }, item: MissingTranslation): boolean {
+  if (selected.namespace !== item.namespace) {
+    return false;
+  }
+
+  const baseKey = parsePluralKey(selected.key)?.baseKey;
+  return selected.key === item.key || (baseKey !== undefined && parsePluralKey(item.key)?.baseKey === baseKey);
 }
 
 /**
@@ -30,23 +70,20 @@ async function processConcurrently<T, R>(
   processor: (item: T, index: number) => Promise<R>
 ): Promise<R[]> {
   const results: R[] = [];
-  const executing: Promise<void>[] = [];
+  const executing = new Set<Promise<void>>();
 
   for (let i = 0; i < items.length; i++) {
     const item = items[i];
-    const promise = processor(item, i).then((result) => {
+    const promise: Promise<void> = processor(item, i).then((result) => {
       results[i] = result;
+      // Remove itself once settled, so the pool only holds running work
+      executing.delete(promise);
     });
 
-    executing.push(promise);
+    executing.add(promise);
 
-    if (executing.length >= concurrency) {
+    if (executing.size >= concurrency) {
       await Promise.race(executing);
-      // Remove completed promises
-      const index = executing.indexOf(promise);
-      if (index !== -1) {
-        executing.splice(index, 1);
-      }
     }
   }
 
@@ -56,6 +93,59 @@ async function processConcurrently<T, R>(
   return results;
 }
 
+/**
+ * Split items into consecutive chunks of at most `size` items
+ */
+function chunkItems<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Number of times a translation that lost interpolation variables is requested again
+ */
+const VARIABLE_RETRIES = 2;
+
+/**
+ * Translate texts, requesting translations that lost or renamed interpolation variables again
+ * Translations that still don't match after the retries are left undefined, so they aren't saved
+ */
+async function translateWithVariableCheck(
+  texts: string[],
+  translate: (indices: number[]) => Promise<ProviderBatchResult>
+): Promise<{ translations: Array<string | undefined>; providers: Array<string | undefined> }> {
+  const translations: Array<string | undefined> = [];
+  const providers: Array<string | undefined> = [];
+  let pending = texts.map((_, index) => index);
+
+  for (let attempt = 0; attempt <= VARIABLE_RETRIES && pending.length > 0; attempt++) {
+    const result = await translate(pending);
+    const rejected: number[] = [];
+
+    for (const [position, index] of pending.entries()) {
+      const translated = result.translations[position];
+
+      if (validateVariables(texts[index], translated)) {
+        translations[index] = translated;
+        providers[index] = result.providers?.[position] ?? result.provider;
+      } else {
+        rejected.push(index);
+      }
+    }
+
+    if (rejected.length > 0 && attempt < VARIABLE_RETRIES) {
+      console.warn(`    ⚠️  ${rejected.length} translations lost interpolation variables, retrying`);
+    }
+
+    pending = rejected;
+  }
+
+  return { translations, providers };
+}
+
 /**
  * Automatically fill empty or missing translations for a language
  */
@@ -65,26 +155,26 @@ export async function autoFillTranslations(
 ): Promise<void> {
   const config = loadConfig(projectRoot);
   const translationsPath = path.join(projectRoot, config.translationsPath);
-  const { apiKey, limit = Infinity, delayMs = 50, dryRun = false, concurrency = 5 } = options;
-
-  // Set up the translation provider based on config (only if not already set by user)
-  const currentProvider = getTranslationProvider();
-  const isDefaultGoogleProvider = currentProvider.constructor.name === 'GoogleTranslateProvider';
-
-  // Only set provider if user hasn't already set a custom one
-  if (isDefaultGoogleProvider) {
-    const provider = config.provider || 'deepl';
-    if (provider === 'deepl') {
-      setTranslationProvider(new DeepLTranslateProvider());
-    } else {
-      setTranslationProvider(new GoogleTranslateProvider());
-    }
-  }
-
-  if (!apiKey) {
-    const provider = config.provider || 'deepl';
-    const envVarName = provider === 'google' ? 'GOOGLE_TRANSLATE_API_KEY' : 'DEEPL_API_KEY';
-    throw new Error(`Translation API key is required. Set ${envVarName} or pass --api-key`);
+  const {
+    apiKey,
+    limit = Infinity,
+    delayMs = 0,
+    dryRun = false,
+    concurrency = 5,
+    batchSize = 50,
+    refreshStale = false,
+    keys
+  } = options;
+  // At least one text per request, whatever a programmatic caller passes
+  const textsPerRequest = Number.isFinite(batchSize) ? Math.max(1, Math.floor(batchSize)) : 50;
+
+  // Set up the translation provider from config (a provider set with setTranslationProvider takes precedence)
+  await useConfiguredTranslationProvider(projectRoot, config);
+
+  if (!apiKey && configRequiresApiKey(config)) {
+    throw new Error(
+      `Translation API key is required. Set ${getApiKeyEnvVar(getPrimaryProvider(config))} or pass --api-key`
+    );
   }
 
   // Determine which languages to process
@@ -93,11 +183,18 @@ export async function autoFillTranslations(
     : config.languages.filter((lang) => lang !== config.sourceLanguage);
 
   // Sync structure before auto-filling to ensure all files exist
+  // Non-destructive: orphaned keys and namespace files are left for the `sync` command to remove
   console.log('🔄 Synchronizing translation structure...');
-  const syncResult = syncTranslationStructure(translationsPath, config.languages, config.sourceLanguage);
+  const syncResult = syncTranslationStructure(translationsPath, config.languages, config.sourceLanguage, {
+    fileStructure: config.fileStructure,
+    fileFormat: config.fileFormat,
+    removeOrphans: false,
+    dryRun,
+    ...(keys && { namespaces: [...new Set(keys.map((item) => item.namespace))] })
+  });
 
   if (syncResult.createdFiles.length > 0) {
-    console.log(`Created ${syncResult.createdFiles.length} namespace files\n`);
+    console.log(`${dryRun ? 'Would create' : 'Created'} ${syncResult.createdFiles.length} namespace files\n`);
   }
 
   console.log('=====');
@@ -106,12 +203,17 @@ export async function autoFillTranslations(
   console.log(`Languages: ${languagesToProcess.join(', ')}`);
   console.log(`Limit: ${limit === Infinity ? 'unlimited' : limit}`);
   console.log(`Concurrency: ${concurrency}`);
+  console.log(`Batch size: ${textsPerRequest}`);
+  console.log(`Mode: ${refreshStale ? 'refresh stale translations' : 'fill missing translations'}`);
   console.log(`Dry run: ${dryRun}`);
   console.log('=====');
 
   let totalProcessed = 0;
   let totalTranslated = 0;
 
+  // Lockfile records the source value each translation was made from
+  const lock = readTranslationLock(projectRoot);
+
   for (const language of languagesToProcess) {
     if (totalProcessed >= limit) {
       console.log(`\nReached limit of ${limit} translations`);
@@ -120,11 +222,13 @@ export async function autoFillTranslations(
 
     console.log(`\nProcessing language: ${language}`);
 
-    // Get missing and empty translations for this language
-    const missing = getMissingForLanguage(projectRoot, language);
+    // Get missing and empty (or stale) translations for this language
+    const missing: MissingTranslation[] = (
+      refreshStale ? getStaleForLanguage(projectRoot, language) : getMissingForLanguage(projectRoot, language)
+    ).filter((item) => !keys || keys.some((selected) => isSameKey(selected, item)));
 
     if (!missing.length) {
-      console.log('  No missing or empty translations');
+      console.log(refreshStale ? '  No stale translations' : '  No missing or empty translations');
       continue;
     }
 
@@ -134,60 +238,98 @@ export async function autoFillTranslations(
     const remainingLimit = limit - totalProcessed;
     const itemsToProcess = missing.slice(0, remainingLimit === Infinity ? missing.length : remainingLimit);
 
-    // Process translations in parallel with concurrency control
-    const results = await processConcurrently(itemsToProcess, concurrency, async (item, index) => {
-      const currentCount = totalProcessed + index + 1;
-      const limitDisplay = limit === Infinity ? itemsToProcess.length : limit;
+    // Read the language once; workers update this shared working set instead of the files
+    const store = new TranslationStore(translationsPath, language, config.fileStructure, config.fileFormat);
+    const sourceTranslations = readTranslations(translationsPath, config.sourceLanguage);
+
+    // Group items into batches so each provider request translates many strings at once
+    const batches = chunkItems(itemsToProcess, textsPerRequest);
+    const limitDisplay = limit === Infinity ? itemsToProcess.length : limit;
+
+    // Process batches in parallel with concurrency control
+    const results = await processConcurrently(batches, concurrency, async (batch, batchIndex) => {
+      const firstCount = totalProcessed + batchIndex * textsPerRequest + 1;
+      const lastCount = firstCount + batch.length - 1;
 
       try {
-        console.log(`  [${currentCount}/${limitDisplay}] Translating ${item.namespace}.${item.key}`);
-        console.log(`    EN: "${item.sourceValue}"`);
-
-        // Translate the text
-        const translated = await translateText(
-          item.sourceValue,
-          language,
-          config.sourceLanguage,
-          apiKey,
-          config.useFallbackLanguages,
-          config.protectedTerms
+        console.log(`  [${firstCount}-${lastCount}/${limitDisplay}] Translating ${batch.length} keys`);
+
+        // Translate the whole batch in as few provider requests as possible
+        const { translations: translated, providers: producedBy } = await translateWithVariableCheck(
+          batch.map((item) => item.sourceValue),
+          (indices) =>
+            translateBatchWithProvider(
+              indices.map((index) => batch[index].sourceValue),
+              language,
+              config.sourceLanguage,
+              apiKey,
+              delayMs,
+              {
+                useFallbackLanguages: config.useFallbackLanguages,
+                protectedTerms: config.protectedTerms,
+                glossary: config.glossary,
+                contexts: indices.map((index) =>
+                  buildTranslationContext(
+                    sourceTranslations[batch[index].namespace] || {},
+                    batch[index].namespace,
+                    batch[index].key
+                  )
+                )
+              }
+            )
         );
-        console.log(`    ${language.toUpperCase()}: "${translated}"`);
 
-        if (!dryRun) {
-          // Read current translations
-          const translations = readTranslations(translationsPath, language);
+        for (let i = 0; i < batch.length; i++) {
+          console.log(`    ${batch[i].namespace}.${batch[i].key}`);
+          console.log(`      EN: "${batch[i].sourceValue}"`);
+          console.log(
+            translated[i] === undefined
+              ? `      ✗ ${language.toUpperCase()}: rejected, the translation kept losing interpolation variables`
+              : `      ${language.toUpperCase()}: "${translated[i]}"`
+          );
+        }
 
-          if (!translations[item.namespace]) {
-            translations[item.namespace] = {};
-          }
+        const accepted = batch.flatMap((item, i) => {
+          const value = translated[i];
+          return value === undefined ? [] : [{ item, value, provider: producedBy[i] }];
+        });
 
-          // Update the translation
-          translations[item.namespace][item.key] = translated;
-          const sorted = sortKeys(translations[item.namespace]);
+        if (!dryRun) {
+          for (const { item, value, provider } of accepted) {
+            store.set(item.namespace, item.key, value);
+            recordTranslation(
+              lock,
+              language,
+              item.namespace,
+              item.key,
+              item.sourceValue,
+              provider ?? getPrimaryProvider(config)
+            );
+          }
 
-          // Write back
-          writeTranslation(translationsPath, language, item.namespace, sorted);
-          console.log('    ✓ Saved');
+          // Flushes are serialized by the store, so parallel batches never overwrite each other
+          await store.flush();
+          writeTranslationLock(projectRoot, lock);
+          console.log(`    ✓ Saved ${accepted.length} translations`);
         } else {
           console.log('    ✓ Dry run - not saved');
         }
 
-        // Optional delay between requests (useful for rate limiting)
-        if (delayMs > 0) {
-          await new Promise((resolve) => setTimeout(resolve, delayMs));
-        }
-
-        return { success: true, item };
+        return { success: true, count: accepted.length };
       } catch (error) {
         console.error(`    ✗ Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        return { success: false, item };
+        return { success: false, count: batch.length };
       }
     });
 
+    // Write anything left over from batches that failed mid-flush
+    if (!dryRun && store.hasPendingChanges()) {
+      await store.flush();
+    }
+
     // Update totals
     totalProcessed += itemsToProcess.length;
-    totalTranslated += results.filter((r) => r.success).length;
+    totalTranslated += results.filter((r) => r.success).reduce((sum, r) => sum + r.count, 0);
   }
 
   console.log('\n=====');
@@ -211,21 +353,12 @@ export async function fillNamespace(
   const config = loadConfig(projectRoot);
   const translationsPath = path.join(projectRoot, config.translationsPath);
 
-  // Set up the translation provider based on config (only if not already set by user)
-  const currentProvider = getTranslationProvider();
-  const isDefaultGoogleProvider = currentProvider.constructor.name === 'GoogleTranslateProvider';
-
-  // Only set provider if user hasn't already set a custom one
-  if (isDefaultGoogleProvider) {
-    const provider = config.provider || 'deepl';
-    if (provider === 'deepl') {
-      setTranslationProvider(new DeepLTranslateProvider());
-    } else {
-      setTranslationProvider(new GoogleTranslateProvider());
-    }
-  }
+  // Set up the translation provider from config (a provider set with setTranslationProvider takes precedence)
+  await useConfiguredTranslationProvider(projectRoot, config);
 
-  console.log(`Filling translations for ${language}/${namespace}.json`);
+  console.log(
+    `Filling translations for ${getTranslationFileName(translationsPath, language, namespace, config.fileFormat)}`
+  );
 
   // Read source and target translations
   const sourceTranslations = readTranslations(translationsPath, config.sourceLanguage);
@@ -233,37 +366,63 @@ export async function fillNamespace(
 
   const sourceKeys = sourceTranslations[namespace] || {};
   const targetKeys = targetTranslations[namespace] || {};
+  const expectedKeys = getExpectedTranslationKeys(sourceKeys, language);
+  const getSourceValue = (key: string) => sourceKeys[expectedKeys.get(key) ?? key];
 
-  let count = 0;
-
-  for (const [key, sourceValue] of Object.entries(sourceKeys)) {
+  // Collect keys that still need a value, including plural forms the source language doesn't have
+  const keysToFill = [...expectedKeys.keys()].filter((key) => {
     const targetValue = targetKeys[key];
+    return !targetValue || targetValue.trim() === '';
+  });
 
-    // Skip if already has value
-    if (targetValue && targetValue.trim() !== '') {
+  if (keysToFill.length > 0) {
+    console.log(`  Translating ${keysToFill.length} keys...`);
+  }
+
+  const { translations: translated, providers: producedBy } = await translateWithVariableCheck(
+    keysToFill.map(getSourceValue),
+    (indices) =>
+      translateBatchWithProvider(
+        indices.map((index) => getSourceValue(keysToFill[index])),
+        language,
+        config.sourceLanguage,
+        apiKey,
+        0,
+        {
+          useFallbackLanguages: config.useFallbackLanguages ?? true,
+          protectedTerms: config.protectedTerms ?? [],
+          glossary: config.glossary ?? [],
+          contexts: indices.map((index) => buildTranslationContext(sourceKeys, namespace, keysToFill[index]))
+        }
+      )
+  );
+
+  const lock = readTranslationLock(projectRoot);
+  let count = 0;
+  for (let i = 0; i < keysToFill.length; i++) {
+    const value = translated[i];
+    if (value === undefined) {
+      console.warn(`  ⚠️  Skipped ${keysToFill[i]}: the translation kept losing interpolation variables`);
       continue;
     }
 
-    console.log(`  Translating ${key}...`);
-    const translated = await translateText(
-      sourceValue,
+    targetKeys[keysToFill[i]] = value;
+    recordTranslation(
+      lock,
       language,
-      config.sourceLanguage,
-      apiKey,
-      config.useFallbackLanguages ?? true,
-      config.protectedTerms ?? []
+      namespace,
+      keysToFill[i],
+      getSourceValue(keysToFill[i]),
+      producedBy[i] ?? getPrimaryProvider(config)
     );
-    targetKeys[key] = translated;
     count++;
-
-    // Small delay
-    await new Promise((resolve) => setTimeout(resolve, 100));
   }
 
   // Write back
   if (count > 0) {
     const sorted = sortKeys(targetKeys);
-    writeTranslation(translationsPath, language, namespace, sorted);
+    writeTranslation(translationsPath, language, namespace, sorted, config.fileStructure, config.fileFormat);
+    writeTranslationLock(projectRoot, lock);
     console.log(`✓ Filled ${count} translations`);
   } else {
     console.log('No translations to fill');
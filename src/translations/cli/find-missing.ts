@@ -0,0 +1,115 @@
+import * as path from 'node:path';
+import type { MissingKeysResult, MissingKeyUsage, TranslationEntry } from '../core/types.js';
+import { extractKeys, findKeyNamespace, findSourceFiles, resolveKeyUsage } from '../utils/key-extractor.js';
+import { getNamespaces, readTranslations } from '../utils/utils.js';
+import { addTranslationKeys } from './add-key.js';
+import { loadConfig } from './init.js';
+
+interface AddMissingKeysOptions {
+  /** Auto-translate keys that have a default value in code */
+  autoTranslate?: boolean;
+  /** Translation API key */
+  apiKey?: string;
+}
+
+/**
+ * Find keys used in code that don't exist in the source language
+ * Only keys known when the code is read count: t(`status.${code}`) can't be checked
+ */
+export function findMissingKeys(projectRoot: string = process.cwd()): MissingKeysResult {
+  const config = loadConfig(projectRoot);
+  const translationsPath = path.join(projectRoot, config.translationsPath);
+  const sourceLanguage = config.sourceLanguage;
+
+  const searchPaths = config.searchPaths || ['src', 'app', 'pages', 'components'];
+  const searchExtensions = config.searchExtensions || ['.ts', '.tsx', '.js', '.jsx', '.vue', '.svelte'];
+
+  console.log('=====');
+  console.log('Finding keys missing from the source language');
+  console.log('=====');
+  console.log(`Source language: ${sourceLanguage}`);
+  console.log(`Search paths: ${searchPaths.join(', ')}`);
+  console.log(`File extensions: ${searchExtensions.join(', ')}`);
+  console.log('=====');
+
+  const sourceTranslations = readTranslations(translationsPath, sourceLanguage);
+  const namespaces = getNamespaces(translationsPath, sourceLanguage);
+  const { usages, files } = extractKeys(projectRoot, findSourceFiles(projectRoot, searchPaths, searchExtensions));
+  const staticUsages = usages.filter((usage) => !usage.dynamic && usage.key !== '');
+
+  // One entry per namespace and key, with every place it is used
+  const missing = new Map<string, MissingKeyUsage>();
+
+  for (const usage of staticUsages) {
+    const resolved = resolveKeyUsage(usage, namespaces, config.defaultNamespace ?? 'common');
+
+    if (findKeyNamespace(resolved, sourceTranslations)) {
+      continue;
+    }
+
+    const namespace = resolved.namespaces[0];
+    const id = `${namespace}:${resolved.key}`;
+    const entry = missing.get(id) ?? { namespace, key: resolved.key, locations: [] };
+
+    entry.defaultValue ??= usage.defaultValue;
+    entry.locations.push({ file: usage.file, line: usage.line });
+    missing.set(id, entry);
+  }
+
+  console.log(`Searched ${files} files, found ${staticUsages.length} translation calls`);
+  console.log('=====');
+
+  return { missing: [...missing.values()], totalUsages: staticUsages.length, searchedFiles: files };
+}
+
+/**
+ * Add missing keys to the source language (and empty values to the other languages), using the default value
+ * found in code as source value when there is one
+ */
+export async function addMissingKeys(
+  projectRoot: string,
+  result: MissingKeysResult,
+  options: AddMissingKeysOptions = {}
+): Promise<void> {
+  const toEntry = (item: MissingKeyUsage): TranslationEntry => ({
+    namespace: item.namespace,
+    key: item.key,
+    value: item.defaultValue ?? ''
+  });
+
+  // Keys without a default value have nothing to translate yet
+  const withValue = result.missing.filter((item) => item.defaultValue !== undefined).map(toEntry);
+  const withoutValue = result.missing.filter((item) => item.defaultValue === undefined).map(toEntry);
+
+  if (withValue.length > 0) {
+    await addTranslationKeys(projectRoot, withValue, options.autoTranslate, options.apiKey);
+  }
+  if (withoutValue.length > 0) {
+    await addTranslationKeys(projectRoot, withoutValue);
+  }
+}
+
+/**
+ * Print missing keys results in a formatted way
+ */
+export function printMissingKeysResult(result: MissingKeysResult): void {
+  if (result.missing.length === 0) {
+    console.log('✓ Every key used in code exists in the source language!');
+    return;
+  }
+
+  console.log(`\n✗ Found ${result.missing.length} keys used in code but missing from the source language:\n`);
+
+  for (const item of result.missing) {
+    const [first, ...others] = item.locations;
+    const more = others.length > 0 ? ` (and ${others.length} more)` : '';
+    console.log(`  ${item.namespace}:${item.key} - ${first.file}:${first.line}${more}`);
+  }
+
+  console.log(`\n📊 Summary:`);
+  console.log(`  Translation calls: ${result.totalUsages}`);
+  console.log(`  Missing keys: ${result.missing.length}`);
+  console.log(`  Files searched: ${result.searchedFiles}`);
+  console.log('\n💡 Run "translations find-missing --add" to add them to the source language');
+  console.log('=====');
+}
@@ -1,11 +1,12 @@
 import { execSync } from 'node:child_process';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { getNamespaces, readTranslations } from '../utils/utils.js';
+import type { TranslationFile, TranslationFiles } from '../core/types.js';
+import { type IcuNode, tryParseIcuMessage } from '../utils/icu.js';
+import { PLURAL_SUFFIXES, parsePluralKey } from '../utils/plurals.js';
+import { getNamespaces, type NestedTranslationFile, readTranslations, unflattenObject } from '../utils/utils.js';
 import { loadConfig } from './init.js';
 
-const PLURAL_SUFFIXES = ['_zero', '_one', '_two', '_few', '_many', '_other'] as const;
-
 /**
  * Extract base keys from plural-suffixed keys (e.g., "items_one" -> "items")
  * Follows CLDR plural categories used by i18next and similar libraries.
@@ -29,25 +30,268 @@ export function extractPluralBaseKeys(keys: string[]): string[] {
   return Array.from(baseKeys);
 }
 
-const typeTemplate = (translationKeys: string[], namespaceKeys: string[], languages: string[]): string => `
-  export const translationKeys = [${translationKeys.map((key) => `"${key}"`).join(', ')}] as const;
-  export const namespaceKeys = [${namespaceKeys.map((key) => `"${key}"`).join(', ')}] as const;
-  export const languages = [${languages.map((lang) => `"${lang}"`).join(', ')}] as const;
+/**
+ * TypeScript type of an interpolation argument, from its name and format
+ * ({{count}} and plural arguments are numbers, {{date, datetime}} and {date, date} also take a Date)
+ */
+function getParamType(name: string, format = ''): string {
+  if (name === 'count' || /^(number|currency|relativetime|plural|selectordinal)\b/.test(format)) {
+    return 'number';
+  }
+  if (/^(datetime|date|time)\b/.test(format)) {
+    return 'Date | number';
+  }
+  if (format === 'select') {
+    return 'string';
+  }
+  if (format === 'list') {
+    return 'string[]';
+  }
+  return 'string | number';
+}
+
+/**
+ * Interpolation parameters of a translation value with their TypeScript types
+ * Covers i18next {{variable}} (including {{- unescaped}} and {{value, format}}) and ICU arguments;
+ * a nested variable such as {{user.name}} becomes a `user` object parameter
+ */
+export function getParamTypes(value: string): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  const addParam = (variable: string, format?: string) => {
+    const [name, ...path] = variable.split('.');
+    if (name && !(name in params)) {
+      params[name] = path.length > 0 ? 'Record<string, unknown>' : getParamType(name, format);
+    }
+  };
+
+  for (const match of value.matchAll(/\{\{-?\s*([^},]+?)\s*(?:,\s*([^}]*?)\s*)?\}\}/g)) {
+    addParam(match[1], match[2]);
+  }
 
-  export type TranslationKey = typeof translationKeys[number];
-  export type TranslationNamespace = typeof namespaceKeys[number];
-  export type Language = typeof languages[number];
-`;
+  const icuText = value.replace(/\{\{[^}]+\}\}/g, '');
+  const icuNodes = tryParseIcuMessage(icuText);
+
+  if (!icuNodes) {
+    for (const match of icuText.matchAll(/\{([^{},]+?)\s*(?:,\s*([^{}]*?)\s*)?\}/g)) {
+      addParam(match[1].trim(), match[2]);
+    }
+    return params;
+  }
+
+  const visit = (nodes: IcuNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'argument') {
+        addParam(node.name, node.raw.slice(1, -1).split(',')[1]?.trim());
+      } else if (node.type !== 'literal' && node.type !== 'pound') {
+        addParam(node.name, node.type);
+        for (const option of node.options) {
+          visit(option.message);
+        }
+      }
+    }
+  };
+
+  visit(icuNodes);
+  return params;
+}
 
 /**
- * Generate TypeScript types from translation files
+ * Parameters of every key of a namespace, including plural base keys (which also take a count)
  */
-export function generateTranslationTypes(projectRoot: string = process.cwd()): void {
-  console.log('=====');
-  console.time('i18n types generated');
-  console.log('Generating i18n types');
-  console.log('=====');
+function getNamespaceParams(translations: TranslationFile): Map<string, Record<string, string>> {
+  const params = new Map<string, Record<string, string>>();
+
+  for (const [key, value] of Object.entries(translations)) {
+    params.set(key, getParamTypes(value));
+  }
+
+  for (const baseKey of extractPluralBaseKeys(Object.keys(translations))) {
+    const forms = Object.keys(translations).filter((key) => parsePluralKey(key)?.baseKey === baseKey);
+    params.set(baseKey, Object.assign({}, ...forms.map((key) => params.get(key)), { count: 'number' }));
+  }
+
+  return params;
+}
+
+/**
+ * Property name as written in a type literal, quoted when it isn't a valid identifier
+ */
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/** Lines longer than this are broken up the way formatters do */
+const MAX_LINE_WIDTH = 120;
+
+/**
+ * `export const name = [...] as const;`, one item per line when it doesn't fit on one line
+ */
+function constArrayLines(name: string, items: string[]): string[] {
+  const values = items.map((item) => JSON.stringify(item));
+  const line = `export const ${name} = [${values.join(', ')}] as const;`;
+
+  if (line.length <= MAX_LINE_WIDTH) {
+    return [line];
+  }
 
+  return [
+    `export const ${name} = [`,
+    ...values.map((value, i) => `  ${value}${i < values.length - 1 ? ',' : ''}`),
+    '] as const;'
+  ];
+}
+
+/**
+ * Type literal property whose type is an object of parameters, on several lines when it doesn't fit on one line
+ */
+function paramsPropertyLines(key: string, params: Record<string, string>, indent: string): string[] {
+  const entries = Object.entries(params).map(([name, type]) => `${propertyName(name)}: ${type}`);
+
+  if (entries.length === 0) {
+    return [`${indent}${propertyName(key)}: never;`];
+  }
+
+  const line = `${indent}${propertyName(key)}: { ${entries.join('; ')} };`;
+  if (line.length <= MAX_LINE_WIDTH) {
+    return [line];
+  }
+
+  return [`${indent}${propertyName(key)}: {`, ...entries.map((entry) => `${indent}  ${entry};`), `${indent}};`];
+}
+
+/**
+ * Key, namespace and language unions shared by every types format
+ */
+const keyTypesTemplate = (translationKeys: string[], namespaceKeys: string[], languages: string[]): string[] => [
+  ...constArrayLines('translationKeys', translationKeys),
+  ...constArrayLines('namespaceKeys', namespaceKeys),
+  ...constArrayLines('languages', languages),
+  '',
+  'export type TranslationKey = (typeof translationKeys)[number];',
+  'export type TranslationNamespace = (typeof namespaceKeys)[number];',
+  'export type Language = (typeof languages)[number];',
+  ''
+];
+
+/**
+ * Flat resources, parameter types and the createTypedTranslate helper
+ */
+const defaultTypesTemplate = (namespaceKeys: string[], translations: TranslationFiles): string[] => {
+  const lines = ['/** Source language values, per namespace and key */', 'export interface Resources {'];
+
+  for (const namespace of namespaceKeys) {
+    lines.push(`  ${propertyName(namespace)}: {`);
+    for (const [key, value] of Object.entries(translations[namespace] || {})) {
+      lines.push(`    ${propertyName(key)}: ${JSON.stringify(value)};`);
+    }
+    lines.push('  };');
+  }
+
+  lines.push(
+    '}',
+    '',
+    '/** Interpolation parameters of each key, or never for keys without any */',
+    'export interface TranslationParams {'
+  );
+
+  for (const namespace of namespaceKeys) {
+    lines.push(`  ${propertyName(namespace)}: {`);
+    for (const [key, params] of getNamespaceParams(translations[namespace] || {})) {
+      lines.push(...paramsPropertyLines(key, params, '    '));
+    }
+    lines.push('  };');
+  }
+
+  lines.push(
+    '}',
+    '',
+    'export type NamespaceKey<NS extends TranslationNamespace> = keyof TranslationParams[NS] & string;',
+    '',
+    '/** Arguments after the key: nothing for keys without parameters, otherwise exactly their parameters */',
+    'export type TranslationArgs<NS extends TranslationNamespace, K extends NamespaceKey<NS>> = [',
+    '  TranslationParams[NS][K]',
+    '] extends [never]',
+    '  ? []',
+    '  : [params: TranslationParams[NS][K]];',
+    '',
+    'export type TypedTranslate<NS extends TranslationNamespace> = <K extends NamespaceKey<NS>>(',
+    '  key: K,',
+    '  ...args: TranslationArgs<NS, K>',
+    ') => string;',
+    '',
+    '/**',
+    ' * Wrap an i18next-style t function so that keys and parameters are checked against a namespace',
+    ' * Example: const t = createTypedTranslate("common", i18n.t); t("WELCOME", { name })',
+    ' */',
+    'export function createTypedTranslate<NS extends TranslationNamespace>(',
+    '  namespace: NS,',
+    '  t: (key: string, options?: Record<string, unknown>) => string',
+    '): TypedTranslate<NS> {',
+    '  return (key, ...args) => t(key, { ...args[0], ns: namespace });',
+    '}'
+  );
+
+  return lines;
+};
+
+/**
+ * Type literal lines of a nested resource object
+ */
+function nestedResourceLines(resource: NestedTranslationFile, indent: string): string[] {
+  const lines: string[] = [];
+
+  for (const [key, value] of Object.entries(resource)) {
+    if (typeof value === 'string') {
+      lines.push(`${indent}${propertyName(key)}: ${JSON.stringify(value)};`);
+    } else {
+      lines.push(`${indent}${propertyName(key)}: {`, ...nestedResourceLines(value, `${indent}  `), `${indent}};`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * i18next CustomTypeOptions augmentation
+ * Like every string literal in the generated file, the module name is double-quoted (JSON.stringify's style)
+ * Resources are nested on "." the way i18next resolves keys, and plural forms keep their suffixes
+ * (items_one, items_other) since i18next derives the base key (t('items', { count })) from them itself
+ */
+const i18nextTypesTemplate = (
+  namespaceKeys: string[],
+  translations: TranslationFiles,
+  defaultNamespace: string
+): string[] => [
+  '/** Source language resources, nested the way i18next reads them */',
+  'export interface Resources {',
+  ...namespaceKeys.flatMap((namespace) => [
+    `  ${propertyName(namespace)}: {`,
+    ...nestedResourceLines(unflattenObject(translations[namespace] || {}), '    '),
+    '  };'
+  ]),
+  '}',
+  '',
+  'declare module "i18next" {',
+  '  interface CustomTypeOptions {',
+  `    defaultNS: ${JSON.stringify(defaultNamespace)};`,
+  '    resources: Resources;',
+  '  }',
+  '}'
+];
+
+interface RenderedTypes {
+  content: string;
+  outputFilePath: string;
+  keyCount: number;
+  namespaceCount: number;
+}
+
+/**
+ * Render the types file from the source language translations
+ * Namespaces are sorted and keys keep their file order, so the same translations always give the same bytes
+ */
+function renderTranslationTypes(projectRoot: string): RenderedTypes {
   const config = loadConfig(projectRoot);
   const translationsPath = path.join(projectRoot, config.translationsPath);
   const sourceLanguage = config.sourceLanguage;
@@ -60,8 +304,8 @@ export function generateTranslationTypes(projectRoot: string = process.cwd()): v
     throw new Error(`Source language directory not found: ${dirPath}`);
   }
 
-  // Get namespaces
-  const namespaces = getNamespaces(translationsPath, sourceLanguage);
+  // Get namespaces (readdir order depends on the file system)
+  const namespaces = getNamespaces(translationsPath, sourceLanguage).sort();
 
   if (!namespaces.length) {
     throw new Error(`No translation files found in ${dirPath}`);
@@ -80,28 +324,100 @@ export function generateTranslationTypes(projectRoot: string = process.cwd()): v
   const pluralBaseKeys = extractPluralBaseKeys(allKeys);
   allKeys = allKeys.concat(pluralBaseKeys);
 
-  // Ensure the output directory exists
-  const outputDir = path.dirname(outputFilePath);
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
+  const lines = keyTypesTemplate(allKeys, namespaces, config.languages);
+
+  if (config.typesFormat === 'i18next') {
+    // i18next rejects a defaultNS that isn't one of the resources
+    const defaultNamespace = namespaces.includes(config.defaultNamespace ?? 'common')
+      ? (config.defaultNamespace ?? 'common')
+      : namespaces[0];
+    lines.unshift('import "i18next";', '');
+    lines.push(...i18nextTypesTemplate(namespaces, translations, defaultNamespace));
+  } else {
+    lines.push(...defaultTypesTemplate(namespaces, translations));
   }
 
-  const typeString = typeTemplate(allKeys, namespaces, config.languages);
-  fs.writeFileSync(outputFilePath, typeString, 'utf8');
+  return {
+    content: `${lines.join('\n')}\n`,
+    outputFilePath,
+    keyCount: allKeys.length,
+    namespaceCount: namespaces.length
+  };
+}
 
-  console.log(`Generated types with ${allKeys.length} keys and ${namespaces.length} namespaces`);
-  console.log(`Output: ${outputFilePath}`);
+/**
+ * Run the typesHook command on the types file (e.g. a formatter), with the file path as last argument
+ */
+function runTypesHook(projectRoot: string, outputFilePath: string): void {
+  const { typesHook } = loadConfig(projectRoot);
+
+  if (!typesHook) {
+    return;
+  }
 
-  // Format with Biome
   try {
-    execSync(`pnpm biome format --write ${outputFilePath}`, {
+    execSync(`${typesHook} ${JSON.stringify(path.relative(projectRoot, outputFilePath))}`, {
       stdio: 'inherit',
       cwd: projectRoot
     });
   } catch {
-    console.warn('Failed to format with Biome, continuing without formatting...');
+    console.warn(`Types hook "${typesHook}" failed, continuing with the generated file...`);
   }
+}
+
+/**
+ * Generate TypeScript types from translation files
+ */
+export function generateTranslationTypes(projectRoot: string = process.cwd()): void {
+  console.log('=====');
+  console.time('i18n types generated');
+  console.log('Generating i18n types');
+  console.log('=====');
+
+  const { content, outputFilePath, keyCount, namespaceCount } = renderTranslationTypes(projectRoot);
+
+  // Ensure the output directory exists
+  fs.mkdirSync(path.dirname(outputFilePath), { recursive: true });
+  fs.writeFileSync(outputFilePath, content, 'utf8');
+  runTypesHook(projectRoot, outputFilePath);
+
+  console.log(`Generated types with ${keyCount} keys and ${namespaceCount} namespaces`);
+  console.log(`Output: ${outputFilePath}`);
 
   console.timeEnd('i18n types generated');
   console.log('=====');
 }
+
+/**
+ * Check that the types file is what generateTranslationTypes would write, without changing it
+ * With a typesHook the fresh output goes through the hook in place first, then the file is restored
+ */
+export function checkTranslationTypes(projectRoot: string = process.cwd()): boolean {
+  const { content, outputFilePath } = renderTranslationTypes(projectRoot);
+
+  if (!fs.existsSync(outputFilePath)) {
+    console.log(`✗ Types file not found: ${outputFilePath}`);
+    return false;
+  }
+
+  const current = fs.readFileSync(outputFilePath, 'utf8');
+  let expected = content;
+
+  if (loadConfig(projectRoot).typesHook) {
+    try {
+      fs.writeFileSync(outputFilePath, content, 'utf8');
+      runTypesHook(projectRoot, outputFilePath);
+      expected = fs.readFileSync(outputFilePath, 'utf8');
+    } finally {
+      fs.writeFileSync(outputFilePath, current, 'utf8');
+    }
+  }
+
+  if (current !== expected) {
+    console.log(`✗ ${outputFilePath} is out of date, run "translations types" to regenerate it`);
+    return false;
+  }
+
+  console.log(`✓ ${outputFilePath} is up to date`);
+  return true;
+}
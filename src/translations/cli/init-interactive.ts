@@ -118,6 +118,11 @@ export async function initTranslationsInteractive(projectRoot: string = process.
         name: 'Google Translate',
         value: 'google',
         description: 'Google Cloud Translation API, requires GOOGLE_TRANSLATE_API_KEY'
+      },
+      {
+        name: 'OpenAI-compatible LLM',
+        value: 'openai-compatible',
+        description: 'Any /v1/chat/completions endpoint (OpenAI, Ollama, llama.cpp), uses OPENAI_API_KEY if set'
       }
     ],
     default: 'deepl'
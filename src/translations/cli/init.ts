@@ -1,16 +1,23 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { validateLanguages } from '../core/schema.js';
-import type { TranslationConfig } from '../core/types.js';
+import type { TranslationConfig, TranslationFileFormat } from '../core/types.js';
 import { DEFAULT_CONFIG, DEFAULT_LANGUAGES } from '../core/types.js';
-import { ensureTranslationsStructure, getAvailableLanguages, syncTranslationStructure } from '../utils/utils.js';
+import { detectTranslationFileFormat, findTranslationFile } from '../utils/file-formats.js';
+import {
+  ensureTranslationsStructure,
+  getAvailableLanguages,
+  syncTranslationStructure,
+  writeTranslation
+} from '../utils/utils.js';
 
 /**
- * Detect existing translation structure in common locations
+ * Detect existing translation structure in common locations, and the format of its files
  */
 export function detectExistingTranslations(projectRoot: string): {
   path: string | null;
   languages: string[];
+  fileFormat: TranslationFileFormat;
 } {
   const possiblePaths = ['public/static/locales', 'public/locales', 'src/locales', 'locales', 'i18n', 'translations'];
 
@@ -19,12 +26,12 @@ export function detectExistingTranslations(projectRoot: string): {
     if (fs.existsSync(fullPath)) {
       const languages = getAvailableLanguages(fullPath);
       if (languages.length > 0) {
-        return { path: possiblePath, languages };
+        return { path: possiblePath, languages, fileFormat: detectTranslationFileFormat(fullPath) ?? 'auto' };
       }
     }
   }
 
-  return { path: null, languages: [] };
+  return { path: null, languages: [], fileFormat: 'auto' };
 }
 
 /**
@@ -44,6 +51,9 @@ export function initTranslations(projectRoot: string, config: TranslationConfig
   if (existing.path && existing.languages.length > 0) {
     console.log(`✓ Detected existing translations at: ${existing.path}`);
     console.log(`✓ Found languages: ${existing.languages.join(', ')}`);
+    if (existing.fileFormat !== 'auto') {
+      console.log(`✓ Found ${existing.fileFormat.toUpperCase()} translation files`);
+    }
 
     // Validate detected languages
     const validation = validateLanguages(existing.languages);
@@ -57,7 +67,8 @@ export function initTranslations(projectRoot: string, config: TranslationConfig
     finalConfig = {
       ...finalConfig,
       translationsPath: existing.path,
-      languages: validLanguages.length > 0 ? validLanguages : finalConfig.languages
+      languages: validLanguages.length > 0 ? validLanguages : finalConfig.languages,
+      fileFormat: config.fileFormat ?? existing.fileFormat
     };
   }
 
@@ -80,11 +91,9 @@ export function initTranslations(projectRoot: string, config: TranslationConfig
 
   // Create sample translation files for English (source language)
   const sourceLanguage = finalConfig.sourceLanguage;
-  const sourcePath = path.join(translationsPath, sourceLanguage);
 
-  // Create a sample common.json if it doesn't exist
-  const commonPath = path.join(sourcePath, 'common.json');
-  if (!fs.existsSync(commonPath)) {
+  // Create a sample common namespace if it doesn't exist
+  if (!findTranslationFile(translationsPath, sourceLanguage, 'common')) {
     const sampleTranslations = {
       LOADING: 'Loading',
       SAVE: 'Save',
@@ -94,13 +103,16 @@ export function initTranslations(projectRoot: string, config: TranslationConfig
       SUCCESS: 'Success'
     };
 
-    fs.writeFileSync(commonPath, `${JSON.stringify(sampleTranslations, null, 2)}\n`, 'utf-8');
-    console.log(`Created sample file: ${commonPath}`);
+    writeTranslation(translationsPath, sourceLanguage, 'common', sampleTranslations, 'auto', finalConfig.fileFormat);
+    console.log(`Created sample file: ${findTranslationFile(translationsPath, sourceLanguage, 'common')}`);
   }
 
   // Sync all namespaces from source to target languages
   console.log('\nSynchronizing translation structure...');
-  const syncResult = syncTranslationStructure(translationsPath, languages, sourceLanguage);
+  const syncResult = syncTranslationStructure(translationsPath, languages, sourceLanguage, {
+    fileStructure: finalConfig.fileStructure,
+    fileFormat: finalConfig.fileFormat
+  });
 
   if (syncResult.createdFiles.length > 0) {
     console.log(`Created ${syncResult.createdFiles.length} namespace files in target languages`);
@@ -120,7 +132,8 @@ export function initTranslations(projectRoot: string, config: TranslationConfig
       languages,
       sourceLanguage,
       typesOutputPath: finalConfig.typesOutputPath,
-      provider: finalConfig.provider
+      provider: finalConfig.provider,
+      ...(finalConfig.fileFormat !== 'auto' && { fileFormat: finalConfig.fileFormat })
     };
 
     fs.writeFileSync(configPath, `${JSON.stringify(configContent, null, 2)}\n`, 'utf-8');
@@ -1,20 +1,27 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { getApiKeyEnvVar } from '../core/schema.js';
+import { configRequiresApiKey, getPrimaryProvider } from '../utils/provider-registry.js';
 import { syncTranslationStructure } from '../utils/utils.js';
 import { autoFillTranslations } from './auto-fill.js';
 import { generateTranslationTypes } from './generate-types.js';
 import { initTranslations, loadConfig } from './init.js';
+import { printSyncChanges } from './sync.js';
 import { validateTranslations } from './validate.js';
 
 export interface ManageTranslationsOptions {
   /** Auto-fill missing translations */
   autoFill?: boolean;
+  /** Re-translate stale translations (source changed since translation) instead of filling missing ones */
+  refreshStale?: boolean;
   /** Google Translate API key for auto-fill */
   apiKey?: string;
   /** Maximum translations to fill */
   limit?: number;
   /** Number of concurrent translation requests */
   concurrency?: number;
+  /** Maximum number of texts per translation request */
+  batchSize?: number;
   /** Specific language to process */
   language?: string;
   /** Skip type generation */
@@ -32,7 +39,17 @@ export async function manageTranslations(
   projectRoot: string = process.cwd(),
   options: ManageTranslationsOptions = {}
 ): Promise<boolean> {
-  const { autoFill = false, apiKey, limit, concurrency = 5, language, skipTypes = false, dryRun = false } = options;
+  const {
+    autoFill = false,
+    refreshStale = false,
+    apiKey,
+    limit,
+    concurrency = 5,
+    batchSize,
+    language,
+    skipTypes = false,
+    dryRun = false
+  } = options;
 
   console.log('=====');
   console.log('Translation Management');
@@ -62,29 +79,18 @@ export async function manageTranslations(
     return false;
   }
 
-  // Step 2.5: Sync translation structure
-  console.log('🔄 Synchronizing translation structure...\n');
-  const syncResult = syncTranslationStructure(translationsPath, config.languages, config.sourceLanguage);
-
-  if (syncResult.createdFiles.length > 0) {
-    console.log(`✓ Created ${syncResult.createdFiles.length} namespace files\n`);
-  }
-
-  if (syncResult.removedNamespaces.length > 0) {
-    console.log(`✓ Removed ${syncResult.removedNamespaces.length} orphaned namespace files\n`);
-  }
-
-  if (syncResult.cleanedKeys.length > 0) {
-    console.log(`✓ Removed ${syncResult.cleanedKeys.length} orphaned keys from translation files\n`);
-  }
-
-  if (
-    syncResult.createdFiles.length === 0 &&
-    syncResult.cleanedKeys.length === 0 &&
-    syncResult.removedNamespaces.length === 0
-  ) {
-    console.log('✓ Translation structure is already synchronized\n');
+  // Step 2.5: Report structure changes; only `sync` and `validate --fix` delete files or keys
+  console.log('🔄 Checking translation structure...\n');
+  const syncPlan = syncTranslationStructure(translationsPath, config.languages, config.sourceLanguage, {
+    fileStructure: config.fileStructure,
+    fileFormat: config.fileFormat,
+    dryRun: true
+  });
+  printSyncChanges(syncPlan);
+  if (syncPlan.removedNamespaces.length + syncPlan.cleanedKeys.length + syncPlan.createdFiles.length > 0) {
+    console.log('💡 Run sync to apply these changes (smart mode never deletes files or keys)');
   }
+  console.log();
 
   // Step 3: Validate translations
   console.log('🔍 Validating translations...\n');
@@ -96,19 +102,23 @@ export async function manageTranslations(
     const totalMissing =
       validationResult.missing.length + validationResult.empty.length + validationResult.orphaned.length;
 
-    // Step 4: Auto-fill if requested
-    if (autoFill) {
-      if (!apiKey) {
-        const provider = config.provider || 'deepl';
-        const envVarName = provider === 'google' ? 'GOOGLE_TRANSLATE_API_KEY' : 'DEEPL_API_KEY';
+    // Step 4: Auto-fill (or refresh stale translations) if requested
+    if (autoFill || refreshStale) {
+      if (!apiKey && configRequiresApiKey(config)) {
         console.log('\n⚠️  Auto-fill requested but no API key provided.');
-        console.log(`Set ${envVarName} or pass --api-key to enable auto-fill.\n`);
+        console.log(`Set ${getApiKeyEnvVar(getPrimaryProvider(config))} or pass --api-key to enable auto-fill.\n`);
       } else {
-        console.log(`\n🤖 Auto-filling ${totalMissing} missing translations...\n`);
+        if (refreshStale) {
+          console.log(`\n🤖 Refreshing ${validationResult.stale.length} stale translations...\n`);
+        } else {
+          console.log(`\n🤖 Auto-filling ${totalMissing} missing translations...\n`);
+        }
         await autoFillTranslations(projectRoot, {
           apiKey,
+          refreshStale,
           limit,
           concurrency,
+          batchSize,
           language,
           dryRun,
           delayMs: 50
@@ -148,11 +158,30 @@ export async function manageTranslations(
   console.log(`Languages: ${config.languages.join(', ')}`);
   console.log(`Source language: ${config.sourceLanguage}`);
 
-  if (!validationResult.valid && !autoFill) {
+  if (!validationResult.valid && !autoFill && !refreshStale) {
     console.log(`\n⚠️  ${validationResult.missing.length} missing translations`);
     console.log(`⚠️  ${validationResult.empty.length} empty translations`);
     if (validationResult.orphaned.length > 0) {
-      console.log(`⚠️  ${validationResult.orphaned.length} orphaned translations (will be auto-removed on next sync)`);
+      console.log(
+        `⚠️  ${validationResult.orphaned.length} orphaned translations (run sync or validate --fix to remove them)`
+      );
+    }
+    if (validationResult.stale.length > 0) {
+      console.log(
+        `⚠️  ${validationResult.stale.length} stale translations (run with --refresh-stale to re-translate, or accept-stale to keep them)`
+      );
+    }
+    if (validationResult.glossary.length > 0) {
+      console.log(`⚠️  ${validationResult.glossary.length} translations ignore the glossary`);
+    }
+    if (validationResult.messageFormat.length > 0) {
+      console.log(`⚠️  ${validationResult.messageFormat.length} translations with broken ICU messages`);
+    }
+    if (validationResult.variableMismatch.length > 0) {
+      console.log(`⚠️  ${validationResult.variableMismatch.length} translations with mismatched variables`);
+    }
+    if (validationResult.plurals.length > 0) {
+      console.log(`⚠️  ${validationResult.plurals.length} missing or superfluous plural forms`);
     }
     console.log('\nNext steps:');
     console.log('  1. Add missing translations manually, or');
@@ -164,7 +193,7 @@ export async function manageTranslations(
   console.log('=====\n');
 
   // Return validation status (true if valid after all operations)
-  if (autoFill && !dryRun && apiKey) {
+  if ((autoFill || refreshStale) && !dryRun && (apiKey || !configRequiresApiKey(config))) {
     // Re-validate to get final status
     const finalValidation = validateTranslations(projectRoot);
     return finalValidation.valid;
@@ -0,0 +1,125 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  type PruneTranslationMemoryOptions,
+  parseTmx,
+  TranslationMemory,
+  type TranslationMemoryStats,
+  toTmx
+} from '../utils/translation-memory.js';
+import { loadConfig } from './init.js';
+
+export type TranslationMemoryExportFormat = 'tmx' | 'json';
+
+interface ExportTranslationMemoryOptions {
+  /** Output format (default: 'tmx') */
+  format?: TranslationMemoryExportFormat;
+  /** Only export entries for this target language */
+  language?: string;
+}
+
+interface ImportTranslationMemoryOptions {
+  /** Provider recorded for units without an x-provider property (default: 'tmx') */
+  provider?: string;
+}
+
+/**
+ * Default age for `memory prune` when no other criterion is given
+ */
+export const DEFAULT_PRUNE_DAYS = 90;
+
+/**
+ * Get statistics about the project's translation memory
+ */
+export function getTranslationMemoryStats(projectRoot: string = process.cwd()): TranslationMemoryStats {
+  return TranslationMemory.load(projectRoot).stats();
+}
+
+/**
+ * Print translation memory statistics
+ */
+export function printTranslationMemoryStats(stats: TranslationMemoryStats): void {
+  console.log('=====');
+  console.log('Translation memory');
+  console.log('=====');
+  console.log(`Entries: ${stats.entries}`);
+  console.log(`Reused: ${stats.hits} times`);
+
+  if (stats.entries === 0) {
+    console.log('=====');
+    return;
+  }
+
+  console.log('\nLanguage pairs:');
+  for (const [pair, count] of Object.entries(stats.languagePairs).sort()) {
+    console.log(`  ${pair}: ${count}`);
+  }
+
+  console.log('\nProviders:');
+  for (const [provider, count] of Object.entries(stats.providers).sort()) {
+    console.log(`  ${provider}: ${count}`);
+  }
+  console.log('=====');
+}
+
+/**
+ * Remove translation memory entries
+ * Without a language or provider, entries not used for 90 days are removed
+ * @returns Number of removed entries
+ */
+export function pruneTranslationMemory(
+  projectRoot: string = process.cwd(),
+  options: PruneTranslationMemoryOptions = {}
+): number {
+  const memory = TranslationMemory.load(projectRoot);
+  const olderThanDays =
+    options.olderThanDays ?? (options.language || options.provider ? undefined : DEFAULT_PRUNE_DAYS);
+
+  const removed = memory.prune({ ...options, olderThanDays });
+  memory.save();
+  return removed;
+}
+
+/**
+ * Export the translation memory as TMX (for translation agencies and CAT tools) or JSON
+ */
+export function exportTranslationMemory(
+  projectRoot: string = process.cwd(),
+  options: ExportTranslationMemoryOptions = {}
+): string {
+  const { format = 'tmx', language } = options;
+  const entries = TranslationMemory.load(projectRoot)
+    .list()
+    .filter((entry) => !language || entry.targetLang.toLowerCase() === language.toLowerCase());
+
+  return format === 'json' ? `${JSON.stringify(entries, null, 2)}\n` : toTmx(entries);
+}
+
+/**
+ * Import a TMX file into the translation memory
+ * Imported translations are preferred over machine translations of the same text
+ * Language tags are resolved against the configured languages (de-DE imports as de)
+ * @returns Number of imported entries
+ */
+export function importTranslationMemory(
+  projectRoot: string,
+  filePath: string,
+  options: ImportTranslationMemoryOptions = {}
+): number {
+  const resolvedPath = path.resolve(projectRoot, filePath);
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`TMX file not found: ${filePath}`);
+  }
+
+  const { languages } = loadConfig(projectRoot);
+  const entries = parseTmx(fs.readFileSync(resolvedPath, 'utf-8'), options.provider, languages);
+  const memory = TranslationMemory.load(projectRoot);
+
+  for (const entry of entries) {
+    memory.add(entry);
+  }
+
+  memory.save();
+  return entries.length;
+}
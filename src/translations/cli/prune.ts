@@ -0,0 +1,168 @@
+import * as path from 'node:path';
+import type { UnusedKeysResult, UnusedTranslation } from '../core/types.js';
+import { readTranslationLock, removeLockEntry, writeTranslationLock } from '../utils/lockfile.js';
+import { parsePluralKey } from '../utils/plurals.js';
+import { getNamespaces, readTranslations, writeTranslation } from '../utils/utils.js';
+import { generateTranslationTypes } from './generate-types.js';
+import { loadConfig } from './init.js';
+
+export interface PruneOptions {
+  /** Also remove keys that are only partially matched in code (possibly used dynamically) */
+  includePartial?: boolean;
+  /** Keys or glob patterns to keep, in addition to the ignoreUnusedKeys config option */
+  ignore?: string[];
+  /** Only report what would be removed */
+  dryRun?: boolean;
+  /** Don't regenerate TypeScript types after removing keys */
+  skipTypes?: boolean;
+}
+
+export interface PruneResult {
+  /** Unused keys selected for removal */
+  keys: UnusedTranslation[];
+  /** Unused keys kept because they are partial matches or match an ignore pattern */
+  kept: UnusedTranslation[];
+  /** Every removed (or, in a dry run, removable) translation */
+  removed: Array<{ language: string; namespace: string; key: string }>;
+}
+
+/**
+ * Turn an ignore pattern into a matcher: * matches any characters, ? a single one
+ * Patterns with a namespace (errors:*) match namespace:key, others match the key in any namespace
+ */
+function createKeyMatcher(pattern: string): (namespace: string, key: string) => boolean {
+  const separator = pattern.indexOf(':');
+  const [namespacePattern, keyPattern] =
+    separator === -1 ? ['*', pattern] : [pattern.slice(0, separator), pattern.slice(separator + 1)];
+
+  const toRegExp = (glob: string) =>
+    new RegExp(
+      `^${glob
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.')}$`
+    );
+  const namespaceRegExp = toRegExp(namespacePattern);
+  const keyRegExp = toRegExp(keyPattern);
+
+  return (namespace, key) => namespaceRegExp.test(namespace) && keyRegExp.test(key);
+}
+
+/**
+ * Remove unused keys from every language
+ * Partial matches are kept unless includePartial is set, and so are keys matching ignoreUnusedKeys or ignore
+ * A removed plural form takes every form of its base key along, including forms only a target language has (pl items_few)
+ */
+export function pruneUnusedKeys(
+  projectRoot: string,
+  unusedKeys: UnusedKeysResult,
+  options: PruneOptions = {}
+): PruneResult {
+  const { includePartial = false, ignore = [], dryRun = false, skipTypes = false } = options;
+  const config = loadConfig(projectRoot);
+  const translationsPath = path.join(projectRoot, config.translationsPath);
+  const matchers = [...(config.ignoreUnusedKeys ?? []), ...ignore].map(createKeyMatcher);
+
+  const result: PruneResult = { keys: [], kept: [], removed: [] };
+
+  for (const item of unusedKeys.unused) {
+    const ignored = matchers.some((matches) => matches(item.namespace, item.key));
+    const selected = !ignored && (item.usageType === 'unused' || includePartial);
+    (selected ? result.keys : result.kept).push(item);
+  }
+
+  const lock = readTranslationLock(projectRoot);
+  let lockChanged = false;
+
+  for (const language of config.languages) {
+    const translations = readTranslations(translationsPath, language);
+
+    for (const namespace of getNamespaces(translationsPath, language)) {
+      const file = { ...translations[namespace] };
+      const selectedKeys = result.keys.filter((item) => item.namespace === namespace).map((item) => item.key);
+      const pluralBaseKeys = new Set(selectedKeys.flatMap((key) => parsePluralKey(key)?.baseKey ?? []));
+      const keys = Object.keys(file).filter((key) => {
+        const baseKey = parsePluralKey(key)?.baseKey;
+        return selectedKeys.includes(key) || (baseKey !== undefined && pluralBaseKeys.has(baseKey));
+      });
+
+      if (keys.length === 0) {
+        continue;
+      }
+
+      for (const key of keys) {
+        delete file[key];
+        result.removed.push({ language, namespace, key });
+
+        if (!dryRun) {
+          lockChanged = removeLockEntry(lock, language, namespace, key) || lockChanged;
+        }
+      }
+
+      if (!dryRun) {
+        writeTranslation(translationsPath, language, namespace, file, config.fileStructure, config.fileFormat);
+      }
+    }
+  }
+
+  if (dryRun || result.removed.length === 0) {
+    return result;
+  }
+
+  if (lockChanged) {
+    writeTranslationLock(projectRoot, lock);
+  }
+
+  if (!skipTypes) {
+    console.log('\nRegenerating TypeScript types...');
+    try {
+      generateTranslationTypes(projectRoot);
+    } catch (error) {
+      console.error('Failed to generate types:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Print the keys a prune removes (or would remove) and the ones it keeps
+ */
+export function printPruneSummary(result: PruneResult, dryRun = false): void {
+  console.log('=====');
+  console.log(dryRun ? 'Pruning unused keys (dry run)' : 'Pruning unused keys');
+  console.log('=====');
+
+  if (result.keys.length === 0) {
+    console.log('✓ No unused keys to remove');
+  } else {
+    const languages = new Set(result.removed.map((item) => item.language));
+    console.log(
+      `${dryRun ? 'Would remove' : 'Removing'} ${result.keys.length} keys (${result.removed.length} translations in ${languages.size} languages):`
+    );
+
+    // Group by namespace
+    const byNamespace = new Map<string, string[]>();
+    for (const item of result.keys) {
+      byNamespace.set(item.namespace, [...(byNamespace.get(item.namespace) ?? []), item.key]);
+    }
+
+    for (const [namespace, keys] of byNamespace) {
+      console.log(`  ${namespace}:`);
+      for (const key of keys) {
+        console.log(`    - ${key}`);
+      }
+    }
+  }
+
+  const partial = result.kept.filter((item) => item.usageType === 'partial');
+  if (partial.length > 0) {
+    console.log(`\n💡 Kept ${partial.length} possibly dynamic keys (use --include-partial to remove them)`);
+  }
+  const ignored = result.kept.length - partial.length;
+  if (ignored > 0) {
+    console.log(`💡 Kept ${ignored} keys matching ignore patterns`);
+  }
+
+  console.log('=====');
+}
@@ -0,0 +1,360 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { DuplicateKeysResult, MissingKeysResult, UnusedKeysResult, ValidationResult } from '../core/types.js';
+import { getTranslationFilePath } from '../utils/file-formats.js';
+import { readKeyLines } from '../utils/key-locations.js';
+import { parsePluralKey } from '../utils/plurals.js';
+import { loadConfig } from './init.js';
+
+export const REPORT_FORMATS = ['text', 'json', 'sarif', 'junit', 'github'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export type ReportRule =
+  | 'missing'
+  | 'empty'
+  | 'orphaned'
+  | 'stale'
+  | 'glossary'
+  | 'message-format'
+  | 'variable-mismatch'
+  | 'plural-forms'
+  | 'unused'
+  | 'possibly-unused'
+  | 'duplicate'
+  | 'undefined-key';
+
+/**
+ * A single finding with the file and line it applies to
+ */
+export interface ReportIssue {
+  rule: ReportRule;
+  level: 'error' | 'warning';
+  message: string;
+  /** Translation file (or source file for keys used in code), relative to the project root */
+  file: string;
+  /** 1-based line of the key in the file (1 when the key isn't in the file) */
+  line: number;
+  namespace: string;
+  key: string;
+  language?: string;
+}
+
+const RULE_DESCRIPTIONS: Record<ReportRule, string> = {
+  missing: 'Translation missing in a target language',
+  empty: 'Translation is empty',
+  orphaned: 'Key no longer exists in the source language',
+  stale: 'Source value changed since the translation was made',
+  glossary: 'Translation ignores the glossary',
+  'message-format': 'Translation is not a valid ICU message',
+  'variable-mismatch': 'Translation has different interpolation variables than the source',
+  'plural-forms': 'Plural form missing or not used by the language',
+  unused: 'Key is not used in the codebase',
+  'possibly-unused': 'Key is only partially matched in the codebase (possibly used dynamically)',
+  duplicate: 'Value duplicates a key of the common namespace',
+  'undefined-key': 'Key is used in code but missing from the source language'
+};
+
+/**
+ * Check a --format value
+ */
+export function parseReportFormat(value: string | undefined): ReportFormat {
+  const format = value ?? 'text';
+
+  if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+    throw new Error(`Invalid --format value: ${format} (expected ${REPORT_FORMATS.join(', ')})`);
+  }
+
+  return format as ReportFormat;
+}
+
+/**
+ * Looks up key lines per file, reading each file once
+ */
+function createLocator(projectRoot: string) {
+  const config = loadConfig(projectRoot);
+  const translationsPath = path.join(projectRoot, config.translationsPath);
+  const cache = new Map<string, Map<string, number>>();
+
+  return {
+    sourceLanguage: config.sourceLanguage,
+    locate(language: string, namespace: string, key: string): Pick<ReportIssue, 'file' | 'line'> {
+      const file = getTranslationFilePath(translationsPath, language, namespace, config.fileFormat);
+      let lines = cache.get(file);
+
+      if (!lines) {
+        lines = readKeyLines(translationsPath, language, namespace);
+        cache.set(file, lines);
+      }
+
+      return { file: path.relative(projectRoot, file).split(path.sep).join('/'), line: lines.get(key) ?? 1 };
+    }
+  };
+}
+
+/**
+ * Turn a validation result into report issues
+ * Missing translations point at the key in the source file, everything else at the key in the target file
+ */
+export function getValidationIssues(projectRoot: string, result: ValidationResult): ReportIssue[] {
+  const { sourceLanguage, locate } = createLocator(projectRoot);
+  const issues: ReportIssue[] = [];
+
+  const add = (
+    rule: ReportRule,
+    item: { namespace: string; key: string; language: string },
+    message: string,
+    location = locate(item.language, item.namespace, item.key)
+  ) => {
+    issues.push({
+      rule,
+      level: 'error',
+      message,
+      ...location,
+      namespace: item.namespace,
+      key: item.key,
+      language: item.language
+    });
+  };
+
+  for (const item of result.missing) {
+    add(
+      'missing',
+      item,
+      `Missing ${item.language} translation for ${item.key}`,
+      locate(sourceLanguage, item.namespace, item.key)
+    );
+  }
+  for (const item of result.empty) {
+    add('empty', item, `Empty ${item.language} translation for ${item.key}`);
+  }
+  for (const item of result.orphaned) {
+    add('orphaned', item, `${item.key} no longer exists in the ${sourceLanguage} source`);
+  }
+  for (const item of result.stale) {
+    add('stale', item, `The ${item.language} translation of ${item.key} was made from an older source value`);
+  }
+  for (const item of result.glossary) {
+    add('glossary', item, `"${item.term}" should be translated as "${item.expected}" in ${item.key}`);
+  }
+  for (const item of result.messageFormat) {
+    add('message-format', item, `Invalid ICU message in ${item.key}: ${item.error}`);
+  }
+  for (const item of result.variableMismatch) {
+    const details = [
+      item.missingVariables.length > 0 && `missing ${item.missingVariables.join(', ')}`,
+      item.extraVariables.length > 0 && `unknown ${item.extraVariables.join(', ')}`
+    ]
+      .filter(Boolean)
+      .join('; ');
+    add('variable-mismatch', item, `Variables of ${item.key} don't match the source (${details})`);
+  }
+  for (const item of result.plurals) {
+    if (item.problem === 'missing') {
+      // The form doesn't exist anywhere yet, point at the source's `_other` form it is translated from
+      const baseKey = parsePluralKey(item.key)?.baseKey ?? item.key;
+      add(
+        'plural-forms',
+        item,
+        `${item.language} needs the plural form ${item.key}`,
+        locate(sourceLanguage, item.namespace, `${baseKey}_other`)
+      );
+    } else {
+      add('plural-forms', item, `${item.language} doesn't use the plural form ${item.key}`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Turn a find-unused result into report issues, pointing at the keys in the source files
+ */
+export function getUnusedKeyIssues(projectRoot: string, result: UnusedKeysResult): ReportIssue[] {
+  const { sourceLanguage, locate } = createLocator(projectRoot);
+
+  return result.unused.map((item) => ({
+    rule: item.usageType === 'unused' ? 'unused' : 'possibly-unused',
+    level: 'warning',
+    message:
+      item.usageType === 'unused'
+        ? `${item.key} is not used in the codebase`
+        : `${item.key} is only partially matched in the codebase (found parts: ${item.partialMatches?.join(', ')})`,
+    ...locate(sourceLanguage, item.namespace, item.key),
+    namespace: item.namespace,
+    key: item.key
+  }));
+}
+
+/**
+ * Turn a find-duplicates result into report issues, pointing at the duplicated keys in the source files
+ */
+export function getDuplicateIssues(projectRoot: string, result: DuplicateKeysResult): ReportIssue[] {
+  const { sourceLanguage, locate } = createLocator(projectRoot);
+
+  return result.duplicates.map((item) => ({
+    rule: 'duplicate',
+    level: 'warning',
+    message: `${item.key} duplicates common:${item.commonKey} ("${item.value}")`,
+    ...locate(sourceLanguage, item.namespace, item.key),
+    namespace: item.namespace,
+    key: item.key
+  }));
+}
+
+/**
+ * Turn a find-missing result into report issues, one per place in code a missing key is used
+ */
+export function getMissingKeyIssues(result: MissingKeysResult): ReportIssue[] {
+  return result.missing.flatMap((item) =>
+    item.locations.map((location) => ({
+      rule: 'undefined-key' as const,
+      level: 'error' as const,
+      message: `${item.namespace}:${item.key} is used here but missing from the source language`,
+      ...location,
+      namespace: item.namespace,
+      key: item.key
+    }))
+  );
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Escape data and property values of GitHub Actions workflow commands
+ */
+function escapeWorkflowCommand(value: string, property = false): string {
+  const escaped = value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  return property ? escaped.replace(/:/g, '%3A').replace(/,/g, '%2C') : escaped;
+}
+
+function groupByRule(issues: ReportIssue[]): Map<ReportRule, ReportIssue[]> {
+  const groups = new Map<ReportRule, ReportIssue[]>();
+  for (const issue of issues) {
+    groups.set(issue.rule, [...(groups.get(issue.rule) ?? []), issue]);
+  }
+  return groups;
+}
+
+function formatSarif(issues: ReportIssue[]): string {
+  const rules = [...groupByRule(issues).keys()];
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'poly-lexis',
+            informationUri: 'https://github.com/designedhead/poly-lexis',
+            rules: rules.map((rule) => ({ id: rule, shortDescription: { text: RULE_DESCRIPTIONS[rule] } }))
+          }
+        },
+        results: issues.map((issue) => ({
+          ruleId: issue.rule,
+          ruleIndex: rules.indexOf(issue.rule),
+          level: issue.level,
+          message: { text: issue.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: issue.file },
+                region: { startLine: issue.line }
+              }
+            }
+          ]
+        }))
+      }
+    ]
+  };
+
+  return `${JSON.stringify(sarif, null, 2)}\n`;
+}
+
+function formatJUnit(command: string, issues: ReportIssue[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="poly-lexis ${escapeXml(command)}" tests="${issues.length}" failures="${issues.length}">`
+  ];
+
+  for (const [rule, ruleIssues] of groupByRule(issues)) {
+    lines.push(`  <testsuite name="${rule}" tests="${ruleIssues.length}" failures="${ruleIssues.length}">`);
+    for (const issue of ruleIssues) {
+      const name = issue.language
+        ? `${issue.language} ${issue.namespace}:${issue.key}`
+        : `${issue.namespace}:${issue.key}`;
+      lines.push(
+        `    <testcase name="${escapeXml(name)}" classname="poly-lexis.${rule}" file="${escapeXml(issue.file)}">`
+      );
+      lines.push(
+        `      <failure message="${escapeXml(issue.message)}" type="${rule}">${escapeXml(`${issue.file}:${issue.line}`)}</failure>`
+      );
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
+
+function formatGitHub(issues: ReportIssue[]): string {
+  return issues
+    .map(
+      (issue) =>
+        `::${issue.level} file=${escapeWorkflowCommand(issue.file, true)},line=${issue.line},title=${escapeWorkflowCommand(
+          RULE_DESCRIPTIONS[issue.rule],
+          true
+        )}::${escapeWorkflowCommand(issue.message)}\n`
+    )
+    .join('');
+}
+
+/**
+ * Format report issues for machines: JSON, SARIF 2.1.0 (code scanning), JUnit XML (test reporters)
+ * or GitHub Actions workflow commands (inline PR annotations)
+ */
+export function formatReport(command: string, issues: ReportIssue[], format: Exclude<ReportFormat, 'text'>): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify({ command, issueCount: issues.length, issues }, null, 2)}\n`;
+    case 'sarif':
+      return formatSarif(issues);
+    case 'junit':
+      return formatJUnit(command, issues);
+    case 'github':
+      return formatGitHub(issues);
+  }
+}
+
+/**
+ * Write a report to a file (relative to the project root), or to stdout without one
+ */
+export function writeReport(content: string, output?: string, projectRoot: string = process.cwd()): void {
+  if (output) {
+    fs.writeFileSync(path.resolve(projectRoot, output), content, 'utf-8');
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+/**
+ * Run a command with its console output on stderr, keeping stdout free for a report
+ */
+export function withConsoleOnStderr<T>(run: () => T): T {
+  const log = console.log;
+  console.log = console.error;
+
+  try {
+    return run();
+  } finally {
+    console.log = log;
+  }
+}
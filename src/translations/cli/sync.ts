@@ -0,0 +1,91 @@
+import * as path from 'node:path';
+import { type SyncResult, syncTranslationStructure } from '../utils/utils.js';
+import { loadConfig } from './init.js';
+
+/**
+ * Folder (in the project root) where `sync --backup` snapshots files before changing them
+ */
+export const TRANSLATION_BACKUP_DIR = '.translations-backup';
+
+export interface SyncTranslationsOptions {
+  /** Only print what would change (with a unified diff per file), without writing or deleting any files */
+  dryRun?: boolean;
+  /** Move removed keys into each language's _archive folder instead of deleting them */
+  keepOrphans?: boolean;
+  /** Copy touched files into .translations-backup/<timestamp>/ before changing them */
+  backup?: boolean;
+}
+
+/**
+ * Print the changes of a sync as a diff: removed namespace files and keys, and created namespace files
+ */
+export function printSyncChanges(result: SyncResult): void {
+  const hasChanges = result.removedNamespaces.length + result.cleanedKeys.length + result.createdFiles.length > 0;
+
+  if (!hasChanges) {
+    console.log('✓ Translation structure is already synchronized');
+    return;
+  }
+
+  for (const item of result.removedNamespaces) {
+    console.log(`- ${item.language}/${path.basename(item.path)} (namespace not in source)`);
+  }
+  for (const item of result.cleanedKeys) {
+    console.log(`- ${item.language}/${path.basename(item.path)} -> ${item.key}`);
+  }
+  for (const item of result.createdFiles) {
+    console.log(`+ ${item.language}/${path.basename(item.path)}`);
+  }
+}
+
+/**
+ * Synchronize the translation structure with the source language
+ * Prints what will be removed and created before changing any file, and a unified diff per file in a dry run
+ */
+export function syncTranslations(
+  projectRoot: string = process.cwd(),
+  options: SyncTranslationsOptions = {}
+): SyncResult {
+  const { dryRun = false, keepOrphans = false, backup = false } = options;
+  const config = loadConfig(projectRoot);
+  const translationsPath = path.join(projectRoot, config.translationsPath);
+  const syncOptions = { fileStructure: config.fileStructure, fileFormat: config.fileFormat, keepOrphans };
+
+  // Only a dry run prints the diffs
+  const plan = syncTranslationStructure(translationsPath, config.languages, config.sourceLanguage, {
+    ...syncOptions,
+    dryRun: true,
+    diffs: dryRun
+  });
+
+  console.log('=====');
+  console.log(dryRun ? 'Synchronizing translation structure (dry run)' : 'Synchronizing translation structure');
+  console.log('=====');
+  printSyncChanges(plan);
+
+  if (dryRun) {
+    for (const file of plan.diffs) {
+      console.log(`\n${file.diff.trimEnd()}`);
+    }
+    console.log('=====');
+    return plan;
+  }
+
+  const backupDir = backup
+    ? path.join(projectRoot, TRANSLATION_BACKUP_DIR, new Date().toISOString().replace(/[:.]/g, '-'))
+    : undefined;
+  const result = syncTranslationStructure(translationsPath, config.languages, config.sourceLanguage, {
+    ...syncOptions,
+    backupDir
+  });
+
+  if (keepOrphans && result.removedNamespaces.length + result.cleanedKeys.length > 0) {
+    console.log('Removed translations were moved to the _archive folder of each language');
+  }
+  if (backupDir && result.backups.length > 0) {
+    console.log(`Backed up ${result.backups.length} files to ${path.relative(projectRoot, backupDir)}`);
+  }
+  console.log('=====');
+
+  return result;
+}
@@ -1,13 +1,48 @@
 import * as path from 'node:path';
-import type { MissingTranslation, OrphanedTranslation, ValidationResult } from '../core/types.js';
-import { getNamespaces, readTranslations, syncTranslationStructure } from '../utils/utils.js';
+import type {
+  GlossaryViolation,
+  MessageFormatIssue,
+  MissingTranslation,
+  OrphanedTranslation,
+  PluralFormIssue,
+  StaleTranslation,
+  ValidationResult,
+  VariableMismatch
+} from '../core/types.js';
+import { getTranslationFileName } from '../utils/file-formats.js';
+import { findGlossaryViolations, getGlossaryTerms } from '../utils/glossary.js';
+import { parseIcuMessage, tryParseIcuMessage } from '../utils/icu.js';
+import { isStaleTranslation, readTranslationLock } from '../utils/lockfile.js';
+import { getExpectedTranslationKeys, getSuperfluousPluralForms, parsePluralKey } from '../utils/plurals.js';
+import { findVariableMismatch, getNamespaces, readTranslations } from '../utils/utils.js';
 import { loadConfig } from './init.js';
+import { syncTranslations } from './sync.js';
+
+export interface ValidateOptions {
+  /**
+   * Synchronize the translation structure before validating: print and then apply the removal of
+   * orphaned namespace files and keys, and the creation of missing namespace files
+   */
+  fix?: boolean;
+}
 
 /**
  * Validate all translations against the source language
- * Checks for missing keys, empty values, and orphaned keys (keys removed from source)
+ * Checks for missing keys, empty values, orphaned keys (keys removed from source)
+ * stale translations (source value changed since the translation was made)
+ * translations that ignore the glossary, translations of ICU messages that don't parse,
+ * translations that don't use the same interpolation variables as the source, and plural forms the target language needs
+ * but doesn't have (or has but doesn't use) according to the CLDR plural rules
+ * Validation only reads files, unless `fix` is set
  */
-export function validateTranslations(projectRoot: string = process.cwd()): ValidationResult {
+export function validateTranslations(
+  projectRoot: string = process.cwd(),
+  options: ValidateOptions = {}
+): ValidationResult {
+  if (options.fix) {
+    syncTranslations(projectRoot);
+  }
+
   const config = loadConfig(projectRoot);
   const translationsPath = path.join(projectRoot, config.translationsPath);
   const sourceLanguage = config.sourceLanguage;
@@ -15,6 +50,14 @@ export function validateTranslations(projectRoot: string = process.cwd()): Valid
   const missing: MissingTranslation[] = [];
   const empty: MissingTranslation[] = [];
   const orphaned: OrphanedTranslation[] = [];
+  const stale: StaleTranslation[] = [];
+  const glossary: GlossaryViolation[] = [];
+  const messageFormat: MessageFormatIssue[] = [];
+  const variableMismatch: VariableMismatch[] = [];
+  const plurals: PluralFormIssue[] = [];
+
+  // Read the lockfile to detect translations made from an outdated source value
+  const lock = readTranslationLock(projectRoot);
 
   // Read source translations
   const sourceTranslations = readTranslations(translationsPath, sourceLanguage);
@@ -24,17 +67,6 @@ export function validateTranslations(projectRoot: string = process.cwd()): Valid
   // This ensures we validate ALL configured languages, not just ones on disk
   const languages = config.languages.filter((lang) => lang !== sourceLanguage);
 
-  // Sync structure before validation to ensure all files exist and clean orphaned keys
-  const syncResult = syncTranslationStructure(translationsPath, config.languages, sourceLanguage);
-
-  if (syncResult.createdFiles.length > 0) {
-    console.log(`Created ${syncResult.createdFiles.length} missing namespace files during sync`);
-  }
-
-  if (syncResult.cleanedKeys.length > 0) {
-    console.log(`Cleaned ${syncResult.cleanedKeys.length} orphaned keys during sync`);
-  }
-
   console.log('=====');
   console.log('Validating translations');
   console.log('=====');
@@ -46,18 +78,34 @@ export function validateTranslations(projectRoot: string = process.cwd()): Valid
   // Validate each language
   for (const language of languages) {
     const targetTranslations = readTranslations(translationsPath, language);
+    const glossaryTerms = getGlossaryTerms(config.glossary, language);
 
     // Check each namespace
     for (const namespace of sourceNamespaces) {
       const sourceKeys = sourceTranslations[namespace] || {};
       const targetKeys = targetTranslations[namespace] || {};
+      const expectedKeys = getExpectedTranslationKeys(sourceKeys, language);
+      const superfluousPluralForms = getSuperfluousPluralForms(sourceKeys, targetKeys, language);
 
       // Check for missing or empty translations
-      for (const [key, sourceValue] of Object.entries(sourceKeys)) {
+      // Plural forms the source doesn't have are translated from the source's `_other` form
+      for (const [key, sourceKey] of expectedKeys) {
+        const sourceValue = sourceKeys[sourceKey];
         const targetValue = targetKeys[key];
 
+        // Plural form the target language needs but the source language doesn't have
+        if (targetValue === undefined && key !== sourceKey) {
+          plurals.push({
+            namespace,
+            key,
+            language,
+            category: parsePluralKey(key)?.category ?? 'other',
+            problem: 'missing',
+            sourceValue
+          });
+        }
         // Missing key in target language
-        if (targetValue === undefined) {
+        else if (targetValue === undefined) {
           missing.push({
             namespace,
             key,
@@ -74,11 +122,59 @@ export function validateTranslations(projectRoot: string = process.cwd()): Valid
             sourceValue
           });
         }
+        // Translated from a source value that has since been edited
+        else if (isStaleTranslation(lock, language, namespace, key, sourceValue)) {
+          stale.push({
+            namespace,
+            key,
+            language,
+            sourceValue,
+            value: targetValue
+          });
+        }
+
+        // Translated without the glossary translation of a term in the source value
+        if (targetValue?.trim()) {
+          for (const term of findGlossaryViolations(sourceValue, targetValue, glossaryTerms)) {
+            glossary.push({
+              namespace,
+              key,
+              language,
+              term: term.term,
+              expected: term.translation,
+              value: targetValue
+            });
+          }
+
+          // A translation that doesn't parse is only reported as a broken ICU message
+          const error = checkMessageFormat(sourceValue, targetValue);
+          const mismatch = error ? null : findVariableMismatch(sourceValue, targetValue);
+
+          if (error) {
+            messageFormat.push({ namespace, key, language, value: targetValue, error });
+          }
+
+          if (mismatch) {
+            variableMismatch.push({ namespace, key, language, value: targetValue, ...mismatch });
+          }
+        }
+      }
+
+      // Check for plural forms the target language doesn't use
+      for (const key of superfluousPluralForms) {
+        plurals.push({
+          namespace,
+          key,
+          language,
+          category: parsePluralKey(key)?.category ?? 'other',
+          problem: 'superfluous',
+          value: targetKeys[key]
+        });
       }
 
       // Check for orphaned keys (exist in target but not in source)
       for (const [key, targetValue] of Object.entries(targetKeys)) {
-        if (sourceKeys[key] === undefined) {
+        if (!expectedKeys.has(key) && !superfluousPluralForms.includes(key)) {
           orphaned.push({
             namespace,
             key,
@@ -88,9 +184,32 @@ export function validateTranslations(projectRoot: string = process.cwd()): Valid
         }
       }
     }
+
+    // Every key of a namespace file the source language doesn't have is orphaned
+    for (const [namespace, targetKeys] of Object.entries(targetTranslations)) {
+      if (sourceNamespaces.includes(namespace)) {
+        continue;
+      }
+
+      for (const [key, value] of Object.entries(targetKeys)) {
+        orphaned.push({ namespace, key, language, value });
+      }
+    }
   }
 
-  const valid = !missing.length && !empty.length && !orphaned.length;
+  const valid =
+    !missing.length &&
+    !empty.length &&
+    !orphaned.length &&
+    !stale.length &&
+    !glossary.length &&
+    !messageFormat.length &&
+    !variableMismatch.length &&
+    !plurals.length;
+
+  // Existing files keep their format, missing ones are named the way sync would create them
+  const fileName = (item: { language: string; namespace: string }) =>
+    getTranslationFileName(translationsPath, item.language, item.namespace, config.fileFormat);
 
   if (valid) {
     console.log('✓ All translations are valid!');
@@ -98,7 +217,7 @@ export function validateTranslations(projectRoot: string = process.cwd()): Valid
     if (missing.length > 0) {
       console.log(`\n⚠ Found ${missing.length} missing translations:`);
       for (const item of missing.slice(0, 10)) {
-        console.log(`  ${item.language}/${item.namespace}.json -> ${item.key}`);
+        console.log(`  ${fileName(item)} -> ${item.key}`);
       }
       if (missing.length > 10) {
         console.log(`  ... and ${missing.length - 10} more`);
@@ -108,7 +227,7 @@ export function validateTranslations(projectRoot: string = process.cwd()): Valid
     if (empty.length > 0) {
       console.log(`\n⚠ Found ${empty.length} empty translations:`);
       for (const item of empty.slice(0, 10)) {
-        console.log(`  ${item.language}/${item.namespace}.json -> ${item.key}`);
+        console.log(`  ${fileName(item)} -> ${item.key}`);
       }
       if (empty.length > 10) {
         console.log(`  ... and ${empty.length - 10} more`);
@@ -116,19 +235,96 @@ export function validateTranslations(projectRoot: string = process.cwd()): Valid
     }
 
     if (orphaned.length > 0) {
-      console.log(`\n⚠ Found ${orphaned.length} orphaned translations (keys removed from source):`);
+      console.log(
+        `\n⚠ Found ${orphaned.length} orphaned translations (keys removed from source, run validate --fix to remove them):`
+      );
       for (const item of orphaned.slice(0, 10)) {
-        console.log(`  ${item.language}/${item.namespace}.json -> ${item.key}`);
+        console.log(`  ${fileName(item)} -> ${item.key}`);
       }
       if (orphaned.length > 10) {
         console.log(`  ... and ${orphaned.length - 10} more`);
       }
     }
+
+    if (stale.length > 0) {
+      console.log(`\n⚠ Found ${stale.length} stale translations (source changed since translation):`);
+      for (const item of stale.slice(0, 10)) {
+        console.log(`  ${fileName(item)} -> ${item.key}`);
+      }
+      if (stale.length > 10) {
+        console.log(`  ... and ${stale.length - 10} more`);
+      }
+    }
+
+    if (glossary.length > 0) {
+      console.log(`\n⚠ Found ${glossary.length} translations that ignore the glossary:`);
+      for (const item of glossary.slice(0, 10)) {
+        console.log(`  ${fileName(item)} -> ${item.key} ("${item.term}" should be "${item.expected}")`);
+      }
+      if (glossary.length > 10) {
+        console.log(`  ... and ${glossary.length - 10} more`);
+      }
+    }
+
+    if (messageFormat.length > 0) {
+      console.log(`\n⚠ Found ${messageFormat.length} translations with broken ICU messages:`);
+      for (const item of messageFormat.slice(0, 10)) {
+        console.log(`  ${fileName(item)} -> ${item.key} (${item.error})`);
+      }
+      if (messageFormat.length > 10) {
+        console.log(`  ... and ${messageFormat.length - 10} more`);
+      }
+    }
+
+    if (variableMismatch.length > 0) {
+      console.log(`\n⚠ Found ${variableMismatch.length} translations with mismatched variables:`);
+      for (const item of variableMismatch.slice(0, 10)) {
+        const details = [
+          item.missingVariables.length > 0 && `missing ${item.missingVariables.join(', ')}`,
+          item.extraVariables.length > 0 && `unknown ${item.extraVariables.join(', ')}`
+        ]
+          .filter(Boolean)
+          .join('; ');
+        console.log(`  ${fileName(item)} -> ${item.key} (${details})`);
+      }
+      if (variableMismatch.length > 10) {
+        console.log(`  ... and ${variableMismatch.length - 10} more`);
+      }
+    }
+
+    if (plurals.length > 0) {
+      console.log(`\n⚠ Found ${plurals.length} missing or superfluous plural forms:`);
+      for (const item of plurals.slice(0, 10)) {
+        const reason = item.problem === 'missing' ? `needed in ${item.language}` : `not used in ${item.language}`;
+        console.log(`  ${fileName(item)} -> ${item.key} (${reason})`);
+      }
+      if (plurals.length > 10) {
+        console.log(`  ... and ${plurals.length - 10} more`);
+      }
+    }
   }
 
   console.log('=====');
 
-  return { valid, missing, empty, orphaned };
+  return { valid, missing, empty, orphaned, stale, glossary, messageFormat, variableMismatch, plurals };
+}
+
+/**
+ * Check that a translation of an ICU message parses, returning the parse error if it doesn't
+ * Sources that aren't ICU messages (e.g. i18next {{variable}} interpolation) are not checked;
+ * arguments are compared with the other interpolation variables
+ */
+function checkMessageFormat(sourceValue: string, targetValue: string): string | null {
+  if (!tryParseIcuMessage(sourceValue)) {
+    return null;
+  }
+
+  try {
+    parseIcuMessage(targetValue);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
 }
 
 /**
@@ -141,8 +337,30 @@ export function getMissingForLanguage(
   const result = validateTranslations(projectRoot);
   const items = [
     ...result.missing.filter((m) => m.language === language).map((m) => ({ ...m, type: 'missing' as const })),
+    ...result.plurals
+      .filter((p) => p.language === language && p.problem === 'missing')
+      .map(({ namespace, key, sourceValue = '' }) => ({
+        namespace,
+        key,
+        language,
+        sourceValue,
+        type: 'missing' as const
+      })),
     ...result.empty.filter((e) => e.language === language).map((e) => ({ ...e, type: 'empty' as const }))
   ];
 
   return items;
 }
+
+/**
+ * Get all stale translations for a specific language
+ */
+export function getStaleForLanguage(
+  projectRoot: string,
+  language: string
+): Array<MissingTranslation & { type: 'stale' }> {
+  const result = validateTranslations(projectRoot);
+  return result.stale
+    .filter((s) => s.language === language)
+    .map(({ namespace, key, sourceValue }) => ({ namespace, key, language, sourceValue, type: 'stale' as const }));
+}
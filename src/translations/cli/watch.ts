@@ -0,0 +1,192 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getFileFormat } from '../utils/file-formats.js';
+import { readTranslations, type SyncResult, syncTranslationStructure } from '../utils/utils.js';
+import { autoFillTranslations } from './auto-fill.js';
+import { generateTranslationTypes } from './generate-types.js';
+import { loadConfig } from './init.js';
+
+const CONFIG_FILE = '.translationsrc.json';
+
+export interface WatchOptions {
+  /** Auto-fill source keys added while watching */
+  autoFill?: boolean;
+  /** Translation API key for auto-fill */
+  apiKey?: string;
+  /** Don't regenerate TypeScript types on changes */
+  skipTypes?: boolean;
+  /** Wait this long after the last change before syncing, in milliseconds (default: 200) */
+  debounceMs?: number;
+  /** Wait this long after the last added source key before auto-filling, in milliseconds (default: 2000) */
+  autoFillDebounceMs?: number;
+}
+
+export interface TranslationWatcher {
+  /** Stop watching; pending changes are dropped */
+  close(): void;
+}
+
+/**
+ * Sync the other languages with changed source namespaces (all of them when omitted), then regenerate the types
+ * The sync is non-destructive: keys removed from the source stay in other languages until `sync` removes them
+ */
+export function syncSourceChanges(
+  projectRoot: string,
+  namespaces?: string[],
+  options: { skipTypes?: boolean } = {}
+): SyncResult {
+  const config = loadConfig(projectRoot);
+  const translationsPath = path.join(projectRoot, config.translationsPath);
+
+  const result = syncTranslationStructure(translationsPath, config.languages, config.sourceLanguage, {
+    fileStructure: config.fileStructure,
+    fileFormat: config.fileFormat,
+    namespaces,
+    removeOrphans: false
+  });
+
+  for (const item of result.createdFiles) {
+    console.log(`+ ${item.language}/${path.basename(item.path)}`);
+  }
+  for (const item of result.addedKeys) {
+    console.log(`+ ${item.language}/${path.basename(item.path)} -> ${item.key}`);
+  }
+
+  if (!options.skipTypes) {
+    generateTranslationTypes(projectRoot);
+  }
+
+  return result;
+}
+
+/**
+ * Keys of each source namespace
+ */
+function readSourceKeys(translationsPath: string, sourceLanguage: string): Map<string, Set<string>> {
+  const translations = readTranslations(translationsPath, sourceLanguage);
+  return new Map(Object.entries(translations).map(([namespace, file]) => [namespace, new Set(Object.keys(file))]));
+}
+
+/**
+ * Watch the translations folder and the config, and keep the types and the other languages in sync
+ * Only source language files matter: a change syncs its namespace, a config change syncs every namespace
+ */
+export function watchTranslations(projectRoot: string = process.cwd(), options: WatchOptions = {}): TranslationWatcher {
+  const { autoFill = false, apiKey, skipTypes = false, debounceMs = 200, autoFillDebounceMs = 2000 } = options;
+  const config = loadConfig(projectRoot);
+  const translationsPath = path.join(projectRoot, config.translationsPath);
+  let sourceLanguage = config.sourceLanguage;
+
+  if (!fs.existsSync(translationsPath)) {
+    throw new Error(`Translations folder not found: ${translationsPath}`);
+  }
+
+  console.log('=====');
+  console.log('Watching translations');
+  console.log('=====');
+  console.log(`Translations: ${translationsPath}`);
+  console.log(`Source language: ${sourceLanguage}`);
+  console.log(`Auto-fill: ${autoFill}`);
+  console.log('=====');
+
+  syncSourceChanges(projectRoot, undefined, { skipTypes });
+
+  let sourceKeys = readSourceKeys(translationsPath, sourceLanguage);
+  const changedNamespaces = new Set<string>();
+  let configChanged = false;
+  let syncTimer: NodeJS.Timeout | undefined;
+
+  // Source keys added since the last auto-fill, and the fill in progress (fills never overlap)
+  const addedKeys = new Map<string, { namespace: string; key: string }>();
+  let autoFillTimer: NodeJS.Timeout | undefined;
+  let filling = Promise.resolve();
+
+  const runAutoFill = () => {
+    const keys = [...addedKeys.values()];
+    addedKeys.clear();
+
+    filling = filling
+      .then(async () => {
+        console.log(`\n🌐 Auto-filling ${keys.length} new keys...`);
+        await autoFillTranslations(projectRoot, { apiKey, keys });
+      })
+      .catch((error) => {
+        console.error('✗ Auto-fill failed:', error instanceof Error ? error.message : error);
+      });
+  };
+
+  const flush = () => {
+    const namespaces = configChanged ? undefined : [...changedNamespaces];
+    changedNamespaces.clear();
+
+    try {
+      if (configChanged) {
+        const updated = loadConfig(projectRoot);
+        if (path.join(projectRoot, updated.translationsPath) !== translationsPath) {
+          console.warn('⚠ translationsPath changed, restart watch to follow the new folder');
+        }
+        sourceLanguage = updated.sourceLanguage;
+        configChanged = false;
+      }
+
+      console.log(`\n🔄 ${namespaces ? `Changed: ${namespaces.join(', ')}` : 'Config changed'}`);
+      syncSourceChanges(projectRoot, namespaces, { skipTypes });
+
+      const previousKeys = sourceKeys;
+      sourceKeys = readSourceKeys(translationsPath, sourceLanguage);
+
+      if (!autoFill) {
+        return;
+      }
+
+      for (const [namespace, keys] of sourceKeys) {
+        for (const key of keys) {
+          if (!previousKeys.get(namespace)?.has(key)) {
+            addedKeys.set(`${namespace}:${key}`, { namespace, key });
+          }
+        }
+      }
+
+      if (addedKeys.size > 0) {
+        clearTimeout(autoFillTimer);
+        autoFillTimer = setTimeout(runAutoFill, autoFillDebounceMs);
+      }
+    } catch (error) {
+      // Usually a file saved halfway through an edit; the next save syncs again
+      console.error('✗ Sync failed:', error instanceof Error ? error.message : error);
+    }
+  };
+
+  const scheduleSync = () => {
+    clearTimeout(syncTimer);
+    syncTimer = setTimeout(flush, debounceMs);
+  };
+
+  const translationsWatcher = fs.watch(translationsPath, { recursive: true }, (_event, filename) => {
+    const [language, file, ...rest] = filename?.split(path.sep) ?? [];
+
+    // Other languages and the _archive folder don't change the structure
+    if (language === sourceLanguage && file && getFileFormat(file) && rest.length === 0) {
+      changedNamespaces.add(path.basename(file, path.extname(file)));
+      scheduleSync();
+    }
+  });
+
+  const configWatcher = fs.watch(projectRoot, (_event, filename) => {
+    if (filename === CONFIG_FILE) {
+      configChanged = true;
+      scheduleSync();
+    }
+  });
+
+  console.log('\n👀 Watching for changes (Ctrl+C to stop)');
+
+  return {
+    close() {
+      clearTimeout(syncTimer);
+      clearTimeout(autoFillTimer);
+      translationsWatcher.close();
+      configWatcher.close();
+    }
+  };
+}
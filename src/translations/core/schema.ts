@@ -1,9 +1,40 @@
 /**
  * Translation provider types
  */
-export const TRANSLATION_PROVIDERS = ['deepl', 'google'] as const;
+export const TRANSLATION_PROVIDERS = ['deepl', 'google', 'openai-compatible'] as const;
 export type TranslationProviderType = (typeof TRANSLATION_PROVIDERS)[number];
 
+/**
+ * Whether a provider name is one of the built-in providers
+ */
+export function isBuiltInProvider(name: string): name is TranslationProviderType {
+  return (TRANSLATION_PROVIDERS as readonly string[]).includes(name);
+}
+
+/**
+ * Environment variable holding the API key for each provider
+ */
+export const PROVIDER_API_KEY_ENV_VARS: Record<TranslationProviderType, string> = {
+  deepl: 'DEEPL_API_KEY',
+  google: 'GOOGLE_TRANSLATE_API_KEY',
+  'openai-compatible': 'OPENAI_API_KEY'
+};
+
+/**
+ * Get the environment variable name holding the API key for a provider
+ */
+export function getApiKeyEnvVar(provider: TranslationProviderType): string {
+  return PROVIDER_API_KEY_ENV_VARS[provider] ?? PROVIDER_API_KEY_ENV_VARS.deepl;
+}
+
+/**
+ * Whether a provider refuses to translate without an API key
+ * OpenAI-compatible endpoints may be local servers (llama.cpp, Ollama) that need no key
+ */
+export function providerRequiresApiKey(provider: TranslationProviderType): boolean {
+  return provider !== 'openai-compatible';
+}
+
 /**
  * DeepL supported target languages
  * Based on DeepL API v2 documentation
@@ -222,11 +253,129 @@ export const TRANSLATION_CONFIG_SCHEMA = {
       default: 'src/types/i18nTypes.ts',
       examples: ['src/types/i18nTypes.ts', 'src/types/translations.ts']
     },
+    typesFormat: {
+      type: 'string',
+      description:
+        'Shape of the generated types: "default" for key unions, resources and parameter types, "i18next" for a CustomTypeOptions module augmentation typing i18next and react-i18next',
+      enum: ['default', 'i18next'],
+      default: 'default'
+    },
+    typesHook: {
+      type: 'string',
+      description:
+        'Command run after the types file is generated, with the file path as last argument (e.g. a formatter). Empty to keep the output as generated',
+      default: '',
+      examples: ['npx prettier --write', 'npx biome format --write']
+    },
     provider: {
+      description:
+        'Translation provider to use (deepl, google or openai-compatible), or an ordered failover chain of providers',
+      oneOf: [
+        { type: 'string', enum: TRANSLATION_PROVIDERS },
+        { type: 'array', items: { type: 'string', enum: TRANSLATION_PROVIDERS }, minItems: 1, uniqueItems: true }
+      ],
+      default: 'deepl',
+      examples: ['deepl', ['deepl', 'google']]
+    },
+    providerOverrides: {
+      type: 'object',
+      description: 'Provider (or failover chain) to use for specific languages, overriding provider',
+      additionalProperties: {
+        oneOf: [
+          { type: 'string', enum: TRANSLATION_PROVIDERS },
+          { type: 'array', items: { type: 'string', enum: TRANSLATION_PROVIDERS }, minItems: 1, uniqueItems: true }
+        ]
+      },
+      default: {},
+      examples: [{ ja: 'deepl', sw: ['google', 'openai-compatible'] }]
+    },
+    providerModule: {
       type: 'string',
-      description: 'Translation provider to use (deepl or google)',
-      enum: TRANSLATION_PROVIDERS,
-      default: 'deepl'
+      description:
+        'Path to a local module (relative to the project root) exporting a TranslationProviderFactory as default or createTranslationProvider. Overrides provider when set',
+      examples: ['./translation-provider.mjs']
+    },
+    retry: {
+      type: 'object',
+      description: 'Retry policy for failed provider requests (rate limited, server errors, network errors)',
+      properties: {
+        maxRetries: {
+          type: 'integer',
+          description: 'Retries after the first attempt',
+          minimum: 0,
+          default: 3
+        },
+        baseDelayMs: {
+          type: 'integer',
+          description: 'Backoff before the first retry in milliseconds, doubled (with jitter) for every further retry',
+          minimum: 0,
+          default: 500
+        },
+        maxDelayMs: {
+          type: 'integer',
+          description: 'Upper bound for a single wait in milliseconds, including Retry-After',
+          minimum: 0,
+          default: 30000
+        }
+      },
+      additionalProperties: false
+    },
+    rateLimit: {
+      type: 'object',
+      description: 'Token bucket rate limit per provider name, or false to disable it',
+      additionalProperties: {
+        oneOf: [
+          { type: 'boolean', const: false },
+          {
+            type: 'object',
+            properties: {
+              requestsPerSecond: {
+                type: 'number',
+                description: 'Sustained requests per second',
+                exclusiveMinimum: 0,
+                default: 10
+              },
+              burst: {
+                type: 'integer',
+                description: 'Requests that may be sent at once before throttling kicks in',
+                minimum: 1
+              }
+            },
+            additionalProperties: false
+          }
+        ]
+      },
+      default: {},
+      examples: [{ deepl: { requestsPerSecond: 5, burst: 10 }, google: false }]
+    },
+    translationMemory: {
+      type: 'boolean',
+      description:
+        'Reuse earlier translations of the same text from .translation-memory.json instead of calling the provider again',
+      default: true
+    },
+    openaiCompatible: {
+      type: 'object',
+      description: 'Settings for the openai-compatible provider (any /v1/chat/completions endpoint)',
+      properties: {
+        baseUrl: {
+          type: 'string',
+          description: 'Base URL of the API, without /chat/completions',
+          default: 'https://api.openai.com/v1',
+          examples: ['https://api.openai.com/v1', 'http://localhost:11434/v1', 'http://localhost:8080/v1']
+        },
+        model: {
+          type: 'string',
+          description: 'Model name sent with every request',
+          default: 'gpt-4o-mini'
+        },
+        temperature: {
+          type: 'number',
+          description: 'Sampling temperature (lower is more deterministic)',
+          default: 0
+        }
+      },
+      additionalProperties: false
     },
     useFallbackLanguages: {
       type: 'boolean',
@@ -249,6 +398,21 @@ export const TRANSLATION_CONFIG_SCHEMA = {
       },
       default: ['.ts', '.tsx', '.js', '.jsx', '.vue', '.svelte']
     },
+    defaultNamespace: {
+      type: 'string',
+      description:
+        "Namespace of t() calls that don't name one with useTranslation('ns'), an ns option or a 'ns:' key prefix",
+      default: 'common'
+    },
+    ignoreUnusedKeys: {
+      type: 'array',
+      description:
+        'Keys that prune never removes (e.g. keys built at runtime), as keys or glob patterns such as "status.*", optionally prefixed with a namespace ("errors:*")',
+      items: {
+        type: 'string'
+      },
+      default: []
+    },
     protectedTerms: {
       type: 'array',
       description: 'List of terms that should never be translated (e.g. brand names, technical terms)',
@@ -256,6 +420,52 @@ export const TRANSLATION_CONFIG_SCHEMA = {
         type: 'string'
       },
       default: []
+    },
+    glossary: {
+      type: 'array',
+      description: 'Source terms that must always get a specific translation in some languages',
+      items: {
+        type: 'object',
+        properties: {
+          term: {
+            type: 'string',
+            description: 'Term in the source language'
+          },
+          translations: {
+            type: 'object',
+            description: 'Forced translation per target language',
+            additionalProperties: { type: 'string' }
+          },
+          caseSensitive: {
+            type: 'boolean',
+            description: 'Only match the term with the same case',
+            default: false
+          },
+          wholeWord: {
+            type: 'boolean',
+            description: 'Only match whole words, not parts of longer words',
+            default: true
+          }
+        },
+        required: ['term', 'translations'],
+        additionalProperties: false
+      },
+      default: [],
+      examples: [[{ term: 'Workspace', translations: { de: 'Arbeitsbereich', fr: 'Espace de travail' } }]]
+    },
+    fileStructure: {
+      type: 'string',
+      description:
+        'On-disk shape of namespace files: "auto" keeps each file\'s existing shape, "nested" and "flat" force one style project-wide',
+      enum: ['auto', 'nested', 'flat'],
+      default: 'auto'
+    },
+    fileFormat: {
+      type: 'string',
+      description:
+        'Format of new namespace files: "auto" follows the existing files, "json" writes <namespace>.json and "yaml" writes <namespace>.yml. Existing files always keep their format',
+      enum: ['auto', 'json', 'yaml'],
+      default: 'auto'
     }
   },
   required: ['translationsPath', 'languages', 'sourceLanguage'],
@@ -292,6 +502,8 @@ export function isValidLanguageForProvider(lang: string, provider: TranslationPr
       return isValidDeepLLanguage(lang);
     case 'google':
       return isValidGoogleLanguage(lang);
+    case 'openai-compatible':
+      return isValidLanguage(lang);
     default:
       return false;
   }
@@ -337,6 +549,8 @@ export function getSupportedLanguages(provider: TranslationProviderType): readon
       return DEEPL_LANGUAGES;
     case 'google':
       return GOOGLE_LANGUAGES;
+    case 'openai-compatible':
+      return SUPPORTED_LANGUAGES;
     default:
       return [];
   }
@@ -1,5 +1,82 @@
+import type { PluralCategory } from '../utils/plurals.js';
 import type { TranslationProviderType } from './schema.js';
 
+/**
+ * A single provider or an ordered failover chain of providers
+ */
+export type ProviderSetting = TranslationProviderType | TranslationProviderType[];
+
+/**
+ * Settings for the openai-compatible provider
+ */
+export interface OpenAICompatibleConfig {
+  /** Base URL of the API, without /chat/completions (default: https://api.openai.com/v1) */
+  baseUrl?: string;
+  /** Model name sent with every request (default: gpt-4o-mini) */
+  model?: string;
+  /** Sampling temperature (default: 0) */
+  temperature?: number;
+}
+
+/**
+ * Retry policy for failed provider requests
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Backoff before the first retry, doubled for every further retry (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single wait, including Retry-After (default: 30000) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Token bucket rate limit for a provider
+ */
+export interface RateLimitOptions {
+  /** Sustained requests per second (default: 10) */
+  requestsPerSecond?: number;
+  /** Requests that may be sent at once before throttling kicks in (default: requestsPerSecond) */
+  burst?: number;
+}
+
+/**
+ * Glossary entry: a source term with the translation it must get in each language
+ */
+export interface GlossaryEntry {
+  /** Term in the source language (e.g. 'Workspace') */
+  term: string;
+  /** Forced translation per target language, e.g. { "de": "Arbeitsbereich", "fr": "Espace de travail" } */
+  translations: Record<string, string>;
+  /** Only match the term with the same case (default: false) */
+  caseSensitive?: boolean;
+  /** Only match whole words, not parts of longer words (default: true) */
+  wholeWord?: boolean;
+}
+
+/**
+ * On-disk shape of namespace files
+ * - auto: keep each file's existing shape (new files follow the source language)
+ * - nested: always write nested objects ({ home: { title } })
+ * - flat: always write dot-notation keys ({ "home.title" })
+ */
+export type TranslationFileStructure = 'auto' | 'nested' | 'flat';
+
+/**
+ * Format of namespace files
+ * - auto: keep each file's existing format (new files follow other languages, then the rest of the project)
+ * - json: write new files as `<namespace>.json`
+ * - yaml: write new files as `<namespace>.yml`, optionally under a Rails-style language root key
+ */
+export type TranslationFileFormat = 'auto' | 'json' | 'yaml';
+
+/**
+ * Shape of the generated types file
+ * - default: key unions, Resources, TranslationParams and createTypedTranslate
+ * - i18next: key unions and a `declare module 'i18next'` augmentation of CustomTypeOptions
+ */
+export type TypesFormat = 'default' | 'i18next';
+
 export interface TranslationConfig {
   /** Path to the translations directory (default: public/static/locales) */
   translationsPath?: string;
@@ -9,16 +86,46 @@ export interface TranslationConfig {
   sourceLanguage?: string;
   /** Path to output i18n types (default: src/types/i18nTypes.ts) */
   typesOutputPath?: string;
-  /** Translation provider to use (default: 'deepl') */
-  provider?: TranslationProviderType;
+  /** Shape of the generated types: 'default' or 'i18next' (module augmentation) (default: 'default') */
+  typesFormat?: TypesFormat;
+  /** Command run on the generated types file (e.g. 'npx prettier --write'); the file path is passed as last argument */
+  typesHook?: string;
+  /**
+   * Translation provider to use (default: 'deepl')
+   * An ordered list is a failover chain: each language goes to the first provider that supports it,
+   * and later providers take over when one is unavailable (5xx, rate limited, quota exceeded)
+   */
+  provider?: ProviderSetting;
+  /** Per-language provider (or chain) overriding `provider`, e.g. { "ja": "deepl", "sw": ["google"] } */
+  providerOverrides?: Record<string, ProviderSetting>;
+  /** Settings for the openai-compatible provider (base URL, model) */
+  openaiCompatible?: OpenAICompatibleConfig;
+  /** Path to a local module exporting a TranslationProviderFactory; overrides `provider` when set */
+  providerModule?: string;
+  /** Retry policy for failed requests (429, 5xx, network errors) */
+  retry?: RetryOptions;
+  /** Rate limit per provider name, or false to disable it, e.g. { "deepl": { "requestsPerSecond": 5 } } */
+  rateLimit?: Record<string, RateLimitOptions | false>;
+  /** Reuse earlier translations from .translation-memory.json instead of calling the provider again (default: true) */
+  translationMemory?: boolean;
   /** Enable automatic language fallback for unsupported regional variants (default: true) */
   useFallbackLanguages?: boolean;
   /** Directories to search for translation key usage (default: ['src', 'app', 'pages', 'components']) */
   searchPaths?: string[];
   /** File extensions to search for key usage (default: ['.ts', '.tsx', '.js', '.jsx', '.vue', '.svelte']) */
   searchExtensions?: string[];
+  /** Namespace of t() calls that don't name one (no useTranslation('ns'), ns option or 'ns:' prefix) (default: 'common') */
+  defaultNamespace?: string;
+  /** Keys `prune` never removes, as keys or glob patterns (`status.*`), optionally with a namespace (`errors:*`) */
+  ignoreUnusedKeys?: string[];
   /** Words or phrases that should never be translated (e.g. brand names, product names) */
   protectedTerms?: string[];
+  /** Source terms that must always get a specific translation in some languages */
+  glossary?: GlossaryEntry[];
+  /** On-disk shape of namespace files: 'auto', 'nested' or 'flat' (default: 'auto') */
+  fileStructure?: TranslationFileStructure;
+  /** Format of new namespace files: 'auto', 'json' or 'yaml' (default: 'auto') */
+  fileFormat?: TranslationFileFormat;
 }
 
 export interface TranslationEntry {
@@ -49,6 +156,46 @@ export interface OrphanedTranslation {
   value: string;
 }
 
+export interface StaleTranslation {
+  namespace: string;
+  key: string;
+  language: string;
+  /** Current source value, which differs from the one the translation was made from */
+  sourceValue: string;
+  value: string;
+}
+
+export interface GlossaryViolation {
+  namespace: string;
+  key: string;
+  language: string;
+  /** Glossary term found in the source value */
+  term: string;
+  /** Translation the glossary requires */
+  expected: string;
+  value: string;
+}
+
+export interface MessageFormatIssue {
+  namespace: string;
+  key: string;
+  language: string;
+  value: string;
+  /** Why the translation isn't a valid ICU message */
+  error: string;
+}
+
+export interface VariableMismatch {
+  namespace: string;
+  key: string;
+  language: string;
+  value: string;
+  /** Variables of the source value that the translation doesn't use */
+  missingVariables: string[];
+  /** Variables of the translation that the source value doesn't have */
+  extraVariables: string[];
+}
+
 export interface UnusedTranslation {
   namespace: string;
   key: string;
@@ -56,11 +203,35 @@ export interface UnusedTranslation {
   partialMatches?: string[];
 }
 
+export interface PluralFormIssue {
+  namespace: string;
+  /** Plural-suffixed key, e.g. items_few */
+  key: string;
+  language: string;
+  category: PluralCategory;
+  /** 'missing': the language needs the form, 'superfluous': the language never uses it */
+  problem: 'missing' | 'superfluous';
+  /** Source value the missing form is translated from */
+  sourceValue?: string;
+  /** Current value of the superfluous form */
+  value?: string;
+}
+
 export interface ValidationResult {
   valid: boolean;
   missing: MissingTranslation[];
   empty: MissingTranslation[];
   orphaned: OrphanedTranslation[];
+  /** Translations whose source value changed since they were translated */
+  stale: StaleTranslation[];
+  /** Translations that don't use the glossary translation of a term in their source value */
+  glossary: GlossaryViolation[];
+  /** Translations of ICU messages that don't parse */
+  messageFormat: MessageFormatIssue[];
+  /** Translations that lost, renamed or added {{variable}} / {variable} interpolations or ICU arguments */
+  variableMismatch: VariableMismatch[];
+  /** Plural forms missing from or superfluous in a language according to the CLDR plural rules */
+  plurals: PluralFormIssue[];
 }
 
 export interface UnusedKeysResult {
@@ -69,6 +240,26 @@ export interface UnusedKeysResult {
   searchedFiles: number;
 }
 
+/**
+ * A key used in code that the source language doesn't have
+ */
+export interface MissingKeyUsage {
+  /** Namespace the key resolves to (ns: prefix, ns option, useTranslation() or defaultNamespace) */
+  namespace: string;
+  key: string;
+  /** Default value passed in code, if any */
+  defaultValue?: string;
+  /** Every place the key is used, relative to the project root */
+  locations: Array<{ file: string; line: number }>;
+}
+
+export interface MissingKeysResult {
+  missing: MissingKeyUsage[];
+  /** Statically resolvable keys found in code */
+  totalUsages: number;
+  searchedFiles: number;
+}
+
 export interface DuplicateTranslation {
   namespace: string; // the non-common namespace where the dup lives
   key: string; // the key in that namespace
@@ -86,11 +277,24 @@ export const DEFAULT_CONFIG: Required<TranslationConfig> = {
   languages: ['en'],
   sourceLanguage: 'en',
   typesOutputPath: 'src/types/i18nTypes.ts',
+  typesFormat: 'default',
+  typesHook: '',
   provider: 'deepl',
+  providerOverrides: {},
+  openaiCompatible: {},
+  providerModule: '',
+  retry: {},
+  rateLimit: {},
+  translationMemory: true,
   useFallbackLanguages: true,
   searchPaths: ['src', 'app', 'pages', 'components'],
   searchExtensions: ['.ts', '.tsx', '.js', '.jsx', '.vue', '.svelte'],
-  protectedTerms: []
+  defaultNamespace: 'common',
+  ignoreUnusedKeys: [],
+  protectedTerms: [],
+  glossary: [],
+  fileStructure: 'auto',
+  fileFormat: 'auto'
 };
 
 export const DEFAULT_LANGUAGES = ['en', 'fr', 'it', 'pl', 'es', 'pt', 'de', 'nl', 'sv', 'hu', 'cs', 'ja'] as const;
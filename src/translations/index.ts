@@ -10,20 +10,43 @@
  */
 
 // CLI commands
+export * from './cli/accept-stale.js';
 export * from './cli/add-key.js';
 export * from './cli/auto-fill.js';
+export * from './cli/find-missing.js';
 export * from './cli/find-unused.js';
 export * from './cli/generate-types.js';
 export * from './cli/init.js';
 export * from './cli/init-interactive.js';
 export * from './cli/manage.js';
+export * from './cli/memory.js';
+export * from './cli/prune.js';
+export * from './cli/report.js';
+export * from './cli/sync.js';
 export * from './cli/validate.js';
+export * from './cli/watch.js';
 
 // Core types and schemas
 export * from './core/schema.js';
 export * from './core/types.js';
+export * from './utils/diff.js';
+export * from './utils/failover-translate-provider.js';
+export * from './utils/file-formats.js';
+export * from './utils/glossary.js';
 export * from './utils/google-translate-provider.js';
+export * from './utils/icu.js';
+export * from './utils/key-extractor.js';
+export * from './utils/key-locations.js';
 // Utilities
+export * from './utils/lockfile.js';
+export * from './utils/openai-compatible-translate-provider.js';
+export * from './utils/placeholders.js';
+export * from './utils/plurals.js';
+export * from './utils/provider-error.js';
+export * from './utils/provider-registry.js';
+export * from './utils/retry.js';
+export * from './utils/translation-memory.js';
+export * from './utils/translation-store.js';
 export * from './utils/translator.js';
 export * from './utils/translator-interface.js';
 export * from './utils/utils.js';
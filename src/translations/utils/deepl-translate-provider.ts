@@ -3,8 +3,26 @@
  * Uses DeepL Translation API v2
  */
 
+import { createHash } from 'node:crypto';
+import { type GlossaryTerm, getGlossaryTerms } from './glossary.js';
+import { translateMessageSegments } from './icu.js';
 import { logLanguageFallback, resolveLanguageWithFallback } from './language-fallback.js';
-import type { TranslateOptions, TranslationProvider } from './translator-interface';
+import { preserveVariables, restoreVariables } from './placeholders.js';
+import { TranslationProviderError } from './provider-error.js';
+import { getProviderThrottle, parseRetryAfter } from './retry.js';
+import type { BatchTranslateOptions, TranslateOptions, TranslationProvider } from './translator-interface';
+
+/**
+ * DeepL request limits for /v2/translate
+ * Up to 50 texts per request and a total request body of 128 KiB
+ */
+const MAX_TEXTS_PER_REQUEST = 50;
+const MAX_REQUEST_BYTES = 128 * 1024;
+
+/**
+ * Bytes reserved for the non-text part of the request body (target_lang, source_lang, JSON syntax)
+ */
+const REQUEST_OVERHEAD_BYTES = 256;
 
 interface DeepLTranslateResponse {
   translations: Array<{
@@ -17,62 +35,14 @@ interface DeepLErrorResponse {
   message?: string;
 }
 
-/**
- * Replace protected terms and {{variable}} / {variable} interpolations with
- * unique placeholders (e.g. XXX_0_XXX) before sending text to the translation API.
- * Placeholders use uppercase letters and underscores — a format translation
- * models treat as technical tokens and leave untouched.
- */
-function preserveVariables(
-  text: string,
-  protectedTerms: string[] = []
-): {
-  textWithPlaceholders: string;
-  variableMap: Map<string, string>;
-} {
-  const variableMap = new Map<string, string>();
-  let placeholderIndex = 0;
-  let result = text;
-
-  // Replace protected terms first so they aren't caught by the variable patterns below
-  for (const term of protectedTerms) {
-    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    result = result.replace(new RegExp(escaped, 'g'), () => {
-      const placeholder = `XXX_${placeholderIndex}_XXX`;
-      variableMap.set(placeholder, term);
-      placeholderIndex++;
-      return placeholder;
-    });
-  }
-
-  // Match both {{variable}} and {variable} patterns
-  // Process {{...}} first to avoid partial matches
-  const textWithPlaceholders = result
-    .replace(/\{\{([^}]+)\}\}/g, (match) => {
-      const placeholder = `XXX_${placeholderIndex}_XXX`;
-      variableMap.set(placeholder, match);
-      placeholderIndex++;
-      return placeholder;
-    })
-    .replace(/\{([^}]+)\}/g, (match) => {
-      const placeholder = `XXX_${placeholderIndex}_XXX`;
-      variableMap.set(placeholder, match);
-      placeholderIndex++;
-      return placeholder;
-    });
-
-  return { textWithPlaceholders, variableMap };
+interface DeepLGlossary {
+  glossary_id: string;
+  name: string;
+  ready: boolean;
 }
 
-/**
- * Restore all placeholders back to their original values.
- */
-function restoreVariables(text: string, variableMap: Map<string, string>): string {
-  let result = text;
-  for (const [placeholder, original] of variableMap) {
-    result = result.replace(new RegExp(placeholder, 'g'), original);
-  }
-  return result;
+interface DeepLGlossaryListResponse {
+  glossaries: DeepLGlossary[];
 }
 
 /**
@@ -83,6 +53,44 @@ function normalizeLanguageCode(langCode: string): string {
   return langCode.replace('_', '-').toUpperCase();
 }
 
+/**
+ * Glossaries are defined between base languages (e.g. 'pt_br' -> 'pt')
+ */
+function toGlossaryLanguage(langCode: string): string {
+  return langCode.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Split texts into chunks that respect DeepL's per-request text count and body size limits.
+ * Order is preserved, so concatenating the chunk results maps back to the input.
+ */
+function chunkTexts(texts: string[]): string[][] {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let currentBytes = REQUEST_OVERHEAD_BYTES;
+
+  for (const text of texts) {
+    // Each text is serialized as a JSON string plus a separating comma
+    const textBytes = Buffer.byteLength(JSON.stringify(text), 'utf-8') + 1;
+    const exceedsLimits = current.length >= MAX_TEXTS_PER_REQUEST || currentBytes + textBytes > MAX_REQUEST_BYTES;
+
+    if (current.length > 0 && exceedsLimits) {
+      chunks.push(current);
+      current = [];
+      currentBytes = REQUEST_OVERHEAD_BYTES;
+    }
+
+    current.push(text);
+    currentBytes += textBytes;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
 /**
  * DeepL Translate provider
  * Implements the TranslationProvider interface
@@ -94,12 +102,46 @@ export class DeepLTranslateProvider implements TranslationProvider {
     this.isFreeApi = isFreeApi;
   }
 
+  /**
+   * Glossary ids by language pair and entries, so each glossary is looked up once per provider
+   */
+  private readonly glossaryIds = new Map<string, Promise<string | undefined>>();
+
+  private getApiBaseUrl(): string {
+    return this.isFreeApi ? 'https://api-free.deepl.com/v2' : 'https://api.deepl.com/v2';
+  }
+
   private getApiEndpoint(): string {
-    return this.isFreeApi ? 'https://api-free.deepl.com/v2/translate' : 'https://api.deepl.com/v2/translate';
+    return `${this.getApiBaseUrl()}/translate`;
   }
 
   async translate(options: TranslateOptions): Promise<string> {
-    const { text, sourceLang, targetLang, apiKey, useFallbackLanguages = true, protectedTerms = [] } = options;
+    const {
+      text,
+      sourceLang,
+      targetLang,
+      apiKey,
+      useFallbackLanguages = true,
+      protectedTerms = [],
+      glossary = []
+    } = options;
+    const [translated] = await this.translateBatch([text], sourceLang, targetLang, apiKey, 0, {
+      useFallbackLanguages,
+      protectedTerms,
+      glossary
+    });
+    return translated;
+  }
+
+  async translateBatch(
+    texts: string[],
+    sourceLang: string,
+    targetLang: string,
+    apiKey?: string,
+    _delayMs?: number,
+    options: BatchTranslateOptions = {}
+  ): Promise<string[]> {
+    const { useFallbackLanguages = true, protectedTerms = [], glossary = [] } = options;
 
     if (!apiKey) {
       throw new Error(
@@ -107,6 +149,10 @@ export class DeepLTranslateProvider implements TranslationProvider {
       );
     }
 
+    if (!texts.length) {
+      return [];
+    }
+
     // Resolve target language with fallback
     const targetLangResult = resolveLanguageWithFallback(targetLang, 'deepl', useFallbackLanguages);
     logLanguageFallback(targetLangResult, 'deepl');
@@ -119,14 +165,59 @@ export class DeepLTranslateProvider implements TranslationProvider {
       resolvedSourceLang = sourceLangResult.resolvedLanguage;
     }
 
-    // Extract and preserve interpolation variables
-    const { textWithPlaceholders, variableMap } = preserveVariables(text, protectedTerms);
+    // A native DeepL glossary inflects terms properly; without one, terms are forced through placeholders
+    // Glossary entries are tab-separated lines, so terms containing tabs or line breaks always use placeholders
+    const glossaryTerms = getGlossaryTerms(glossary, targetLang);
+    const nativeTerms = glossaryTerms.filter((term) => !/[\t\r\n]/.test(term.term + term.translation));
+    const glossaryId =
+      nativeTerms.length > 0 && resolvedSourceLang
+        ? await this.getGlossaryId(nativeTerms, resolvedSourceLang, targetLangResult.resolvedLanguage, apiKey)
+        : undefined;
+    const placeholderTerms = glossaryId ? glossaryTerms.filter((term) => !nativeTerms.includes(term)) : glossaryTerms;
+
+    // ICU plural/select messages are split so only their sub-messages are translated
+    return translateMessageSegments(texts, async (segments) => {
+      // Extract and preserve interpolation variables for every item separately
+      const preserved = segments.map((text) => preserveVariables(text, protectedTerms, placeholderTerms));
+      const chunks = chunkTexts(preserved.map((item) => item.textWithPlaceholders));
+
+      const results: string[] = [];
+
+      const throttle = getProviderThrottle('deepl');
+
+      for (const chunk of chunks) {
+        const translatedChunk = await throttle.run(() =>
+          this.requestTranslations(
+            chunk,
+            normalizeLanguageCode(targetLangResult.resolvedLanguage),
+            resolvedSourceLang && normalizeLanguageCode(resolvedSourceLang),
+            apiKey,
+            glossaryId
+          )
+        );
+        results.push(...translatedChunk);
+      }
 
-    // Prepare request body
+      // Restore original interpolation variables, in the same order as the input
+      return results.map((translated, index) => restoreVariables(translated, preserved[index].variableMap));
+    });
+  }
+
+  /**
+   * Send a single /v2/translate request and return the translations in request order
+   */
+  private async requestTranslations(
+    texts: string[],
+    targetLang: string,
+    sourceLang: string | undefined,
+    apiKey: string,
+    glossaryId?: string
+  ): Promise<string[]> {
     const body = {
-      text: [textWithPlaceholders],
-      target_lang: normalizeLanguageCode(targetLangResult.resolvedLanguage),
-      ...(resolvedSourceLang && { source_lang: normalizeLanguageCode(resolvedSourceLang) })
+      text: texts,
+      target_lang: targetLang,
+      ...(sourceLang && { source_lang: sourceLang }),
+      ...(glossaryId && { glossary_id: glossaryId })
     };
 
     const response = await fetch(this.getApiEndpoint(), {
@@ -138,10 +229,7 @@ export class DeepLTranslateProvider implements TranslationProvider {
       body: JSON.stringify(body)
     });
 
-    if (!response.ok) {
-      const errorData = (await response.json().catch(() => ({}))) as DeepLErrorResponse;
-      throw new Error(`DeepL API error: ${errorData.message || response.statusText} (${response.status})`);
-    }
+    await this.assertOk(response);
 
     const data = (await response.json()) as DeepLTranslateResponse;
 
@@ -149,37 +237,100 @@ export class DeepLTranslateProvider implements TranslationProvider {
       throw new Error('DeepL API returned no translations');
     }
 
-    const translatedText = data.translations[0].text;
+    if (data.translations.length !== texts.length) {
+      throw new Error(`DeepL API returned ${data.translations.length} translations for ${texts.length} texts`);
+    }
 
-    // Restore original interpolation variables
-    return restoreVariables(translatedText, variableMap);
+    return data.translations.map((translation) => translation.text);
   }
 
-  async translateBatch(
-    texts: string[],
+  /**
+   * Find or create the DeepL glossary holding the terms of a language pair
+   * Glossaries are named after a hash of their entries, so an unchanged glossary is reused across runs.
+   * Returns undefined when no glossary can be used (e.g. DeepL doesn't support the language pair),
+   * in which case the terms are forced through placeholders instead.
+   */
+  private getGlossaryId(
+    terms: GlossaryTerm[],
     sourceLang: string,
     targetLang: string,
-    apiKey?: string,
-    delayMs = 100
-  ): Promise<string[]> {
-    const results: string[] = [];
-
-    for (const text of texts) {
-      const translated = await this.translate({
-        text,
-        sourceLang,
-        targetLang,
-        apiKey
+    apiKey: string
+  ): Promise<string | undefined> {
+    const source = toGlossaryLanguage(sourceLang);
+    const target = toGlossaryLanguage(targetLang);
+    // Glossary entries are tab-separated lines, one per source term
+    const entries = terms.map((term) => `${term.term}\t${term.translation}`).join('\n');
+    const name = `poly-lexis-${source}-${target}-${createHash('sha256').update(entries).digest('hex').slice(0, 12)}`;
+
+    let glossaryId = this.glossaryIds.get(name);
+    if (!glossaryId) {
+      glossaryId = this.findOrCreateGlossary(name, source, target, entries, apiKey).catch((error) => {
+        console.warn(
+          `⚠️  deepl: glossary ${source} -> ${target} unavailable (${error instanceof Error ? error.message : 'Unknown error'}), using placeholders instead`
+        );
+        return undefined;
       });
-      results.push(translated);
+      this.glossaryIds.set(name, glossaryId);
+    }
 
-      // Add delay to avoid rate limiting
-      if (delayMs > 0) {
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
-      }
+    return glossaryId;
+  }
+
+  private async findOrCreateGlossary(
+    name: string,
+    sourceLang: string,
+    targetLang: string,
+    entries: string,
+    apiKey: string
+  ): Promise<string> {
+    const throttle = getProviderThrottle('deepl');
+    const headers = { Authorization: `DeepL-Auth-Key ${apiKey}`, 'Content-Type': 'application/json' };
+
+    const existing = await throttle.run(async () => {
+      const response = await fetch(`${this.getApiBaseUrl()}/glossaries`, { headers });
+      await this.assertOk(response);
+      const data = (await response.json()) as DeepLGlossaryListResponse;
+      return data.glossaries.find((glossary) => glossary.name === name);
+    });
+
+    if (existing) {
+      return existing.glossary_id;
+    }
+
+    const created = await throttle.run(async () => {
+      const response = await fetch(`${this.getApiBaseUrl()}/glossaries`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          name,
+          source_lang: sourceLang,
+          target_lang: targetLang,
+          entries,
+          entries_format: 'tsv'
+        })
+      });
+      await this.assertOk(response);
+      return (await response.json()) as DeepLGlossary;
+    });
+
+    return created.glossary_id;
+  }
+
+  /**
+   * Throw a TranslationProviderError for a failed DeepL response
+   */
+  private async assertOk(response: Response): Promise<void> {
+    if (response.ok) {
+      return;
     }
 
-    return results;
+    const errorData = (await response.json().catch(() => ({}))) as DeepLErrorResponse;
+    throw new TranslationProviderError(
+      `DeepL API error: ${errorData.message || response.statusText} (${response.status})`,
+      'deepl',
+      response.status,
+      parseRetryAfter(response.headers?.get('retry-after'))
+    );
   }
 
   async validateConfig(): Promise<boolean> {
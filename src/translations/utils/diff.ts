@@ -0,0 +1,156 @@
+/**
+ * Unified diff utilities
+ * Line-based diffs of translation files, so sync can show what it changes before it touches anything
+ */
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+function splitLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Diff two lists of lines with a longest common subsequence, after skipping the common start and end
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = oldLines.slice(0, start).map((text) => ({ type: ' ', text }));
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: ' ', text: a[i] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+      lines.push({ type: '+', text: b[j] });
+      j++;
+    } else {
+      lines.push({ type: '-', text: a[i] });
+      i++;
+    }
+  }
+
+  for (const text of oldLines.slice(oldEnd)) {
+    lines.push({ type: ' ', text });
+  }
+
+  // Removals first within each run of changes, like diff(1)
+  for (let runStart = 0; runStart < lines.length; ) {
+    let runEnd = runStart;
+    while (runEnd < lines.length && lines[runEnd].type !== ' ') {
+      runEnd++;
+    }
+    if (runEnd > runStart) {
+      const run = lines.slice(runStart, runEnd);
+      lines.splice(
+        runStart,
+        run.length,
+        ...run.filter((line) => line.type === '-'),
+        ...run.filter((line) => line.type === '+')
+      );
+    }
+    runStart = runEnd + 1;
+  }
+
+  return lines;
+}
+
+/**
+ * Create a unified diff (as printed by `diff -u` and git) between two versions of a file
+ * A missing file is passed as `null` and shown as /dev/null; returns an empty string when nothing changed
+ */
+export function createUnifiedDiff(
+  fileName: string,
+  oldContent: string | null,
+  newContent: string | null,
+  context = 3
+): string {
+  if (oldContent === newContent) {
+    return '';
+  }
+
+  const lines = diffLines(splitLines(oldContent ?? ''), splitLines(newContent ?? ''));
+  const changes = lines.flatMap((line, index) => (line.type === ' ' ? [] : [index]));
+
+  if (changes.length === 0) {
+    return '';
+  }
+
+  // Line numbers before each diff line
+  const oldLineNumbers: number[] = [];
+  const newLineNumbers: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    oldLineNumbers.push(oldLine);
+    newLineNumbers.push(newLine);
+    if (line.type !== '+') oldLine++;
+    if (line.type !== '-') newLine++;
+  }
+
+  const output = [
+    `--- ${oldContent === null ? '/dev/null' : `a/${fileName}`}`,
+    `+++ ${newContent === null ? '/dev/null' : `b/${fileName}`}`
+  ];
+
+  // Changes closer than twice the context share a hunk
+  let hunkStart = 0;
+  while (hunkStart < changes.length) {
+    let hunkEnd = hunkStart;
+    while (hunkEnd + 1 < changes.length && changes[hunkEnd + 1] - changes[hunkEnd] <= context * 2 + 1) {
+      hunkEnd++;
+    }
+
+    const from = Math.max(0, changes[hunkStart] - context);
+    const to = Math.min(lines.length, changes[hunkEnd] + context + 1);
+    const hunk = lines.slice(from, to);
+    const oldCount = hunk.filter((line) => line.type !== '+').length;
+    const newCount = hunk.filter((line) => line.type !== '-').length;
+    const oldStart = oldCount === 0 ? oldLineNumbers[from] - 1 : oldLineNumbers[from];
+    const newStart = newCount === 0 ? newLineNumbers[from] - 1 : newLineNumbers[from];
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunk.map((line) => `${line.type}${line.text}`));
+    hunkStart = hunkEnd + 1;
+  }
+
+  return `${output.join('\n')}\n`;
+}
@@ -0,0 +1,148 @@
+/**
+ * Failover translation provider
+ * Routes each target language to the first provider in a chain that supports it,
+ * and moves on to the next provider when one is unavailable
+ */
+
+import {
+  isBuiltInProvider,
+  isValidLanguageForProvider,
+  PROVIDER_API_KEY_ENV_VARS,
+  providerRequiresApiKey
+} from '../core/schema.js';
+import { resolveLanguageWithFallback } from './language-fallback.js';
+import { isProviderUnavailableError } from './provider-error.js';
+import type {
+  BatchTranslateOptions,
+  ProviderBatchResult,
+  TranslateOptions,
+  TranslationProvider
+} from './translator-interface';
+
+/**
+ * Whether a provider can translate into a language, directly or through a language fallback
+ * Providers registered at runtime don't declare their languages, so they are assumed to support all of them
+ */
+export function providerSupportsLanguage(name: string, language: string, useFallbackLanguages = true): boolean {
+  if (!isBuiltInProvider(name)) {
+    return true;
+  }
+
+  const { resolvedLanguage } = resolveLanguageWithFallback(language, name, useFallbackLanguages);
+  return isValidLanguageForProvider(resolvedLanguage, name);
+}
+
+/**
+ * Provider that tries an ordered chain of providers
+ *
+ * For each target language the chain comes from the per-language overrides or the default chain.
+ * Providers that don't support the language, or have no API key, are skipped. When a provider is
+ * unavailable (5xx, 429 or quota exceeded) the next one takes over; any other error is thrown.
+ */
+export class FailoverTranslateProvider implements TranslationProvider {
+  constructor(
+    private readonly providers: Map<string, TranslationProvider>,
+    private readonly defaultChain: string[],
+    private readonly overrides: Record<string, string[]> = {}
+  ) {}
+
+  /**
+   * Providers to try for a language, in order
+   */
+  getChain(targetLang: string, useFallbackLanguages = true): string[] {
+    const chain = this.overrides[targetLang] ?? this.overrides[targetLang.toLowerCase()] ?? this.defaultChain;
+    const supported = chain.filter((name) => providerSupportsLanguage(name, targetLang, useFallbackLanguages));
+
+    // When nobody supports the language, let the first provider try (and report the error)
+    return supported.length > 0 ? supported : chain.slice(0, 1);
+  }
+
+  async translate(options: TranslateOptions): Promise<string> {
+    const { text, sourceLang, targetLang, apiKey, context, ...rest } = options;
+    const { translations } = await this.translateBatchWithProvider([text], sourceLang, targetLang, apiKey, 0, {
+      ...rest,
+      ...(context && { contexts: [context] })
+    });
+    return translations[0];
+  }
+
+  async translateBatch(
+    texts: string[],
+    sourceLang: string,
+    targetLang: string,
+    apiKey?: string,
+    delayMs = 100,
+    options: BatchTranslateOptions = {}
+  ): Promise<string[]> {
+    const { translations } = await this.translateBatchWithProvider(
+      texts,
+      sourceLang,
+      targetLang,
+      apiKey,
+      delayMs,
+      options
+    );
+    return translations;
+  }
+
+  async translateBatchWithProvider(
+    texts: string[],
+    sourceLang: string,
+    targetLang: string,
+    apiKey?: string,
+    delayMs = 100,
+    options: BatchTranslateOptions = {}
+  ): Promise<ProviderBatchResult> {
+    const chain = this.getChain(targetLang, options.useFallbackLanguages);
+    let lastError: unknown;
+
+    for (const [index, name] of chain.entries()) {
+      const provider = this.providers.get(name);
+      const providerApiKey = this.getApiKey(name, apiKey);
+
+      if (!provider || (!providerApiKey && isBuiltInProvider(name) && providerRequiresApiKey(name))) {
+        continue;
+      }
+
+      try {
+        const translations = await provider.translateBatch(
+          texts,
+          sourceLang,
+          targetLang,
+          providerApiKey,
+          delayMs,
+          options
+        );
+        return { translations, provider: name };
+      } catch (error) {
+        if (!isProviderUnavailableError(error)) {
+          throw error;
+        }
+
+        lastError = error;
+        const next = chain[index + 1];
+        console.warn(
+          `⚠️  ${name} is unavailable (${error instanceof Error ? error.message : 'Unknown error'})${next ? `, trying ${next}` : ''}`
+        );
+      }
+    }
+
+    if (lastError) {
+      throw lastError;
+    }
+
+    throw new Error(`No provider with an API key is available for ${targetLang} (tried ${chain.join(', ')})`);
+  }
+
+  /**
+   * API key for a provider in the chain
+   * The key passed in belongs to the primary provider; the others read their own environment variable
+   */
+  private getApiKey(name: string, apiKey?: string): string | undefined {
+    if (name === this.defaultChain[0] || !isBuiltInProvider(name)) {
+      return apiKey;
+    }
+
+    return process.env[PROVIDER_API_KEY_ENV_VARS[name]];
+  }
+}
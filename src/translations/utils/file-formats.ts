@@ -0,0 +1,310 @@
+/**
+ * Translation file formats
+ * Each format has an adapter that reads and writes namespace files. YAML files keep their comments, key order
+ * and Rails-style language root key (`en:` wrapping every key) when they are rewritten
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Document, isMap, isScalar, isSeq, parseDocument, type YAMLMap } from 'yaml';
+import type { TranslationFileFormat } from '../core/types.js';
+import type { NestedTranslationFile } from './utils.js';
+
+export interface StringifyOptions {
+  /** Language of the file */
+  language: string;
+  /** Current content of the file, or null for a new file */
+  previous: string | null;
+  /** The same namespace in another language, whose layout a new file follows */
+  reference?: { language: string; content: string };
+}
+
+export interface TranslationFileAdapter {
+  /** File extensions, the first one is used for new files */
+  readonly extensions: readonly string[];
+  /** Read the translations of a file (nested objects are flattened by the caller) */
+  parse(content: string, language: string): NestedTranslationFile;
+  /** Write translations, flat or nested the way they should appear in the file */
+  stringify(translations: NestedTranslationFile, options: StringifyOptions): string;
+}
+
+/**
+ * Whether a key is the language of the file (en, pt_br or pt-BR)
+ */
+function isLanguageKey(key: unknown, language: string): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace(/_/g, '-');
+  return typeof key === 'string' && normalize(key) === normalize(language);
+}
+
+/**
+ * The map holding the translations of a YAML document: the value of a Rails-style language root key when
+ * the document has one (`en:` and nothing else), otherwise the document itself
+ */
+export function getYamlTranslationsNode(doc: Document, language: string): YAMLMap | null {
+  if (!isMap(doc.contents)) {
+    return null;
+  }
+
+  const [root, ...others] = doc.contents.items;
+  if (
+    root &&
+    others.length === 0 &&
+    isScalar(root.key) &&
+    isLanguageKey(root.key.value, language) &&
+    isMap(root.value)
+  ) {
+    return root.value;
+  }
+
+  return doc.contents;
+}
+
+/**
+ * Parse a YAML document, throwing its first error
+ */
+function parseYaml(content: string): Document {
+  const doc = parseDocument(content);
+
+  if (doc.errors.length > 0) {
+    throw doc.errors[0];
+  }
+
+  return doc;
+}
+
+/**
+ * Translations of a YAML map; numbers and booleans become strings, null an empty string
+ * Sequences (e.g. Rails' date.day_names) aren't translations and are skipped
+ */
+function readYamlMap(map: YAMLMap): NestedTranslationFile {
+  const result: NestedTranslationFile = {};
+
+  for (const pair of map.items) {
+    const key = String(isScalar(pair.key) ? pair.key.value : pair.key);
+
+    if (isMap(pair.value)) {
+      result[key] = readYamlMap(pair.value);
+    } else if (isScalar(pair.value)) {
+      result[key] = pair.value.value === null ? '' : String(pair.value.value);
+    } else if (pair.value === null) {
+      result[key] = '';
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Update a YAML map in place, so that unchanged keys keep their position, comments and quoting
+ * Removed keys are dropped (except sequences, which aren't read as translations) and new keys are appended
+ */
+function updateYamlMap(doc: Document, map: YAMLMap, translations: NestedTranslationFile): void {
+  const keyOf = (key: unknown) => String(isScalar(key) ? key.value : key);
+
+  map.items = map.items.filter((pair) => keyOf(pair.key) in translations || isSeq(pair.value));
+  const pairs = new Map(map.items.map((pair) => [keyOf(pair.key), pair]));
+
+  for (const [key, value] of Object.entries(translations)) {
+    const pair = pairs.get(key);
+
+    if (!pair) {
+      map.items.push(doc.createPair(key, value));
+    } else if (typeof value === 'string' && isScalar(pair.value)) {
+      pair.value.value = value;
+    } else if (typeof value !== 'string' && isMap(pair.value)) {
+      updateYamlMap(doc, pair.value, value);
+    } else {
+      pair.value = doc.createNode(value);
+    }
+  }
+}
+
+/** Long values stay on one line instead of being folded */
+const YAML_OUTPUT_OPTIONS = { lineWidth: 0 };
+
+export const jsonFileAdapter: TranslationFileAdapter = {
+  extensions: ['.json'],
+  parse: (content) => JSON.parse(content) as NestedTranslationFile,
+  stringify: (translations) => `${JSON.stringify(translations, null, 2)}\n`
+};
+
+export const yamlFileAdapter: TranslationFileAdapter = {
+  extensions: ['.yml', '.yaml'],
+
+  parse(content, language) {
+    const doc = parseYaml(content);
+    const map = getYamlTranslationsNode(doc, language);
+    return map ? readYamlMap(map) : {};
+  },
+
+  stringify(translations, { language, previous, reference }) {
+    if (previous !== null) {
+      const doc = parseYaml(previous);
+      const map = getYamlTranslationsNode(doc, language);
+
+      if (map) {
+        updateYamlMap(doc, map, translations);
+        return doc.toString(YAML_OUTPUT_OPTIONS);
+      }
+    }
+
+    // A new file gets a language root key when the same namespace has one in another language
+    let hasRoot = false;
+    if (reference) {
+      const referenceDoc = parseYaml(reference.content);
+      hasRoot = getYamlTranslationsNode(referenceDoc, reference.language) !== referenceDoc.contents;
+    }
+    const doc = new Document(hasRoot ? { [language]: translations } : translations);
+
+    return doc.toString(YAML_OUTPUT_OPTIONS);
+  }
+};
+
+/**
+ * Adapters by format, in the order their files are looked up
+ */
+export const TRANSLATION_FILE_ADAPTERS: Record<Exclude<TranslationFileFormat, 'auto'>, TranslationFileAdapter> = {
+  json: jsonFileAdapter,
+  yaml: yamlFileAdapter
+};
+
+const FORMATS = Object.keys(TRANSLATION_FILE_ADAPTERS) as Array<Exclude<TranslationFileFormat, 'auto'>>;
+
+/**
+ * Format of a translation file from its extension, or null for other files
+ */
+export function getFileFormat(fileName: string): Exclude<TranslationFileFormat, 'auto'> | null {
+  const extension = path.extname(fileName).toLowerCase();
+  return FORMATS.find((format) => TRANSLATION_FILE_ADAPTERS[format].extensions.includes(extension)) ?? null;
+}
+
+/**
+ * Adapter for a translation file path
+ */
+export function getFileAdapter(filePath: string): TranslationFileAdapter {
+  return TRANSLATION_FILE_ADAPTERS[getFileFormat(filePath) ?? 'json'];
+}
+
+/**
+ * Namespace files of a language folder, by namespace (a namespace found in several formats uses the first format)
+ */
+export function listTranslationFiles(langPath: string): Map<string, string> {
+  const files = new Map<string, string>();
+
+  if (!fs.existsSync(langPath)) {
+    return files;
+  }
+
+  const entries = fs.readdirSync(langPath).filter((file) => getFileFormat(file) !== null);
+  entries.sort((a, b) => FORMATS.indexOf(getFileFormat(a) ?? 'json') - FORMATS.indexOf(getFileFormat(b) ?? 'json'));
+
+  for (const file of entries) {
+    const namespace = path.basename(file, path.extname(file));
+    if (!files.has(namespace) && fs.statSync(path.join(langPath, file)).isFile()) {
+      files.set(namespace, path.join(langPath, file));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Existing file of a namespace in any format, or null
+ */
+export function findTranslationFile(translationsPath: string, language: string, namespace: string): string | null {
+  for (const format of FORMATS) {
+    for (const extension of TRANSLATION_FILE_ADAPTERS[format].extensions) {
+      const filePath = path.join(translationsPath, language, `${namespace}${extension}`);
+      if (fs.existsSync(filePath)) {
+        return filePath;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Language folders of the translations folder
+ */
+function getLanguageFolders(translationsPath: string): string[] {
+  if (!fs.existsSync(translationsPath)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(translationsPath, { withFileTypes: true })
+    .filter((dirent) => dirent.isDirectory())
+    .map((dirent) => dirent.name)
+    .sort();
+}
+
+/**
+ * Format of the existing translation files of a project, or null when it has none
+ */
+export function detectTranslationFileFormat(translationsPath: string): Exclude<TranslationFileFormat, 'auto'> | null {
+  for (const language of getLanguageFolders(translationsPath)) {
+    const [filePath] = listTranslationFiles(path.join(translationsPath, language)).values();
+    if (filePath) {
+      return getFileFormat(filePath);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve which format a new namespace file should be written in
+ * 'auto' follows the same namespace in other languages, then the other files of the project, then defaults to JSON
+ */
+function resolveFileFormat(
+  translationsPath: string,
+  language: string,
+  namespace: string,
+  format: TranslationFileFormat
+): Exclude<TranslationFileFormat, 'auto'> {
+  if (format !== 'auto') {
+    return format;
+  }
+
+  for (const otherLanguage of getLanguageFolders(translationsPath)) {
+    if (otherLanguage === language) continue;
+
+    const otherFile = findTranslationFile(translationsPath, otherLanguage, namespace);
+    if (otherFile) {
+      return getFileFormat(otherFile) ?? 'json';
+    }
+  }
+
+  return detectTranslationFileFormat(translationsPath) ?? 'json';
+}
+
+/**
+ * Path of a namespace file: the existing file whatever its format, otherwise a new file in the resolved format
+ */
+export function getTranslationFilePath(
+  translationsPath: string,
+  language: string,
+  namespace: string,
+  format: TranslationFileFormat = 'auto'
+): string {
+  const existing = findTranslationFile(translationsPath, language, namespace);
+  if (existing) {
+    return existing;
+  }
+
+  const { extensions } = TRANSLATION_FILE_ADAPTERS[resolveFileFormat(translationsPath, language, namespace, format)];
+  return path.join(translationsPath, language, `${namespace}${extensions[0]}`);
+}
+
+/**
+ * Name of a namespace file in messages (fr/common.yml), from getTranslationFilePath
+ */
+export function getTranslationFileName(
+  translationsPath: string,
+  language: string,
+  namespace: string,
+  format: TranslationFileFormat = 'auto'
+): string {
+  return `${language}/${path.basename(getTranslationFilePath(translationsPath, language, namespace, format))}`;
+}
@@ -0,0 +1,110 @@
+/**
+ * Glossary utilities
+ * Resolve the glossary terms that apply to a target language and match them in source and translated text
+ */
+
+import type { GlossaryEntry } from '../core/types.js';
+
+/**
+ * A glossary term resolved for one target language
+ */
+export interface GlossaryTerm {
+  term: string;
+  /** Translation the term must get in the target language */
+  translation: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+/**
+ * Look up the translation of an entry for a language: exact code first, then the base language (de_at -> de)
+ */
+function getEntryTranslation(entry: GlossaryEntry, language: string): string | undefined {
+  const normalized = language.toLowerCase();
+  const [baseLanguage] = normalized.split(/[-_]/);
+
+  for (const [entryLanguage, translation] of Object.entries(entry.translations)) {
+    if (entryLanguage.toLowerCase().replace('-', '_') === normalized.replace('-', '_')) {
+      return translation;
+    }
+  }
+
+  return Object.entries(entry.translations).find(
+    ([entryLanguage]) => entryLanguage.toLowerCase() === baseLanguage
+  )?.[1];
+}
+
+/**
+ * Glossary terms that have a translation for a target language, longest first so that
+ * "Shared workspace" wins over "workspace"
+ */
+export function getGlossaryTerms(glossary: GlossaryEntry[] = [], targetLang: string): GlossaryTerm[] {
+  const terms: GlossaryTerm[] = [];
+
+  for (const entry of glossary) {
+    const translation = getEntryTranslation(entry, targetLang);
+
+    if (entry.term && translation) {
+      terms.push({
+        term: entry.term,
+        translation,
+        caseSensitive: entry.caseSensitive ?? false,
+        wholeWord: entry.wholeWord ?? true
+      });
+    }
+  }
+
+  return terms.sort((a, b) => b.term.length - a.term.length);
+}
+
+/**
+ * Regular expression matching a phrase with the given case and word boundary options
+ * Word boundaries are Unicode-aware, so accented letters count as part of a word
+ */
+export function createGlossaryPattern(
+  phrase: string,
+  options: Pick<GlossaryTerm, 'caseSensitive' | 'wholeWord'>
+): RegExp {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const source = options.wholeWord ? `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])` : escaped;
+  return new RegExp(source, options.caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Translation to insert for a matched term
+ * Case-insensitive matches that start with a capital letter get a capitalized translation
+ */
+export function applyGlossaryCase(match: string, term: GlossaryTerm): string {
+  const first = match.charAt(0);
+
+  if (!term.caseSensitive && first !== first.toLowerCase() && first === first.toUpperCase()) {
+    return term.translation.charAt(0).toUpperCase() + term.translation.slice(1);
+  }
+
+  return term.translation;
+}
+
+/**
+ * Glossary terms used in a source value whose required translation is missing from the translated value
+ */
+export function findGlossaryViolations(
+  sourceValue: string,
+  translatedValue: string,
+  terms: GlossaryTerm[]
+): GlossaryTerm[] {
+  return terms.filter(
+    (term) =>
+      createGlossaryPattern(term.term, term).test(sourceValue) &&
+      !createGlossaryPattern(term.translation, { caseSensitive: term.caseSensitive, wholeWord: false }).test(
+        translatedValue
+      )
+  );
+}
+
+/**
+ * Stable description of the glossary terms of a language, used to tell translations made
+ * with different glossaries apart (e.g. in the translation memory)
+ */
+export function describeGlossaryTerms(terms: GlossaryTerm[]): string[] {
+  return terms.map((term) => `${term.term} -> ${term.translation}`).sort();
+}
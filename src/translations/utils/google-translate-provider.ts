@@ -3,8 +3,13 @@
  * Uses Google Cloud Translation API v2
  */
 
+import { getGlossaryTerms } from './glossary.js';
+import { translateMessageSegments } from './icu.js';
 import { logLanguageFallback, resolveLanguageWithFallback } from './language-fallback.js';
-import type { TranslateOptions, TranslationProvider } from './translator-interface';
+import { preserveVariables, restoreVariables } from './placeholders.js';
+import { TranslationProviderError } from './provider-error.js';
+import { getProviderThrottle, parseRetryAfter } from './retry.js';
+import type { BatchTranslateOptions, TranslateOptions, TranslationProvider } from './translator-interface';
 
 interface GoogleTranslateResponse {
   data: {
@@ -13,73 +18,26 @@ interface GoogleTranslateResponse {
     }>;
   };
   error?: {
+    code?: number;
     message: string;
   };
 }
 
-/**
- * Preserve {{variable}} and {variable} interpolations by replacing with placeholders
- * Uses a format that Google Translate won't translate (uppercase + underscores + numbers)
- */
-function preserveVariables(
-  text: string,
-  protectedTerms: string[] = []
-): {
-  textWithPlaceholders: string;
-  variableMap: Map<string, string>;
-} {
-  const variableMap = new Map<string, string>();
-  let placeholderIndex = 0;
-  let result = text;
-
-  // Replace protected terms first (before variable patterns)
-  for (const term of protectedTerms) {
-    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    result = result.replace(new RegExp(escaped, 'g'), () => {
-      const placeholder = `XXX_${placeholderIndex}_XXX`;
-      variableMap.set(placeholder, term);
-      placeholderIndex++;
-      return placeholder;
-    });
-  }
-
-  // Match both {{variable}} and {variable} patterns
-  // Process {{...}} first to avoid partial matches
-  const textWithPlaceholders = result
-    .replace(/\{\{([^}]+)\}\}/g, (match) => {
-      const placeholder = `XXX_${placeholderIndex}_XXX`;
-      variableMap.set(placeholder, match);
-      placeholderIndex++;
-      return placeholder;
-    })
-    .replace(/\{([^}]+)\}/g, (match) => {
-      const placeholder = `XXX_${placeholderIndex}_XXX`;
-      variableMap.set(placeholder, match);
-      placeholderIndex++;
-      return placeholder;
-    });
-
-  return { textWithPlaceholders, variableMap };
-}
-
-/**
- * Restore original {{variable}} and {variable} interpolations from placeholders
- */
-function restoreVariables(text: string, variableMap: Map<string, string>): string {
-  let result = text;
-  for (const [placeholder, original] of variableMap) {
-    result = result.replace(new RegExp(placeholder, 'g'), original);
-  }
-  return result;
-}
-
 /**
  * Google Translate provider
  * Implements the TranslationProvider interface
  */
 export class GoogleTranslateProvider implements TranslationProvider {
   async translate(options: TranslateOptions): Promise<string> {
-    const { text, sourceLang, targetLang, apiKey, useFallbackLanguages = true, protectedTerms = [] } = options;
+    const {
+      text,
+      sourceLang,
+      targetLang,
+      apiKey,
+      useFallbackLanguages = true,
+      protectedTerms = [],
+      glossary = []
+    } = options;
 
     if (!apiKey) {
       throw new Error(
@@ -99,9 +57,6 @@ export class GoogleTranslateProvider implements TranslationProvider {
       resolvedSourceLang = sourceLangResult.resolvedLanguage;
     }
 
-    // Extract and preserve interpolation variables
-    const { textWithPlaceholders, variableMap } = preserveVariables(text, protectedTerms);
-
     // Translate the text with placeholders
     const url = `https://translation.googleapis.com/language/translate/v2?key=${apiKey}`;
 
@@ -113,29 +68,75 @@ export class GoogleTranslateProvider implements TranslationProvider {
       ? targetLangResult.resolvedLanguage.split('_')[0]
       : targetLangResult.resolvedLanguage;
 
+    const glossaryTerms = getGlossaryTerms(glossary, targetLang);
+
+    // ICU plural/select messages are split so only their sub-messages are translated
+    const [translated] = await translateMessageSegments([text], async (segments) => {
+      const results: string[] = [];
+
+      for (const segment of segments) {
+        // Extract and preserve interpolation variables; glossary terms restore to their forced translation
+        const { textWithPlaceholders, variableMap } = preserveVariables(segment, protectedTerms, glossaryTerms);
+
+        const translatedText = await getProviderThrottle('google').run(() =>
+          this.requestTranslation(url, textWithPlaceholders, sourceForGoogle, targetForGoogle)
+        );
+
+        // Restore original interpolation variables
+        results.push(restoreVariables(translatedText, variableMap));
+      }
+
+      return results;
+    });
+
+    return translated;
+  }
+
+  /**
+   * Send a single translate request and return the translated text
+   */
+  private async requestTranslation(
+    url: string,
+    text: string,
+    source: string | undefined,
+    target: string
+  ): Promise<string> {
     const response = await fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
-        q: textWithPlaceholders,
-        source: sourceForGoogle,
-        target: targetForGoogle,
+        q: text,
+        source,
+        target,
         format: 'text'
       })
     });
 
+    // Proxies and load balancers answer errors with HTML or an empty body, so the status is checked before parsing
+    if (!response.ok) {
+      const errorData = (await response.json().catch(() => ({}))) as GoogleTranslateResponse;
+      throw new TranslationProviderError(
+        `Google Translate API error: ${errorData.error?.message || response.statusText} (${response.status})`,
+        'google',
+        response.status,
+        parseRetryAfter(response.headers?.get('retry-after'))
+      );
+    }
+
     const data = (await response.json()) as GoogleTranslateResponse;
 
     if (data.error) {
-      throw new Error(`Google Translate API error: ${data.error.message}`);
+      throw new TranslationProviderError(
+        `Google Translate API error: ${data.error.message}`,
+        'google',
+        data.error.code ?? response.status,
+        parseRetryAfter(response.headers?.get('retry-after'))
+      );
     }
 
-    const translatedText = data.data.translations[0].translatedText;
-
-    // Restore original interpolation variables
-    return restoreVariables(translatedText, variableMap);
+    return data.data.translations[0].translatedText;
   }
 
   async translateBatch(
@@ -143,23 +144,20 @@ export class GoogleTranslateProvider implements TranslationProvider {
     sourceLang: string,
     targetLang: string,
     apiKey?: string,
-    delayMs: number = 100
+    _delayMs?: number,
+    options: BatchTranslateOptions = {}
   ): Promise<string[]> {
     const results: string[] = [];
 
     for (const text of texts) {
       const translated = await this.translate({
+        ...options,
         text,
         sourceLang,
         targetLang,
         apiKey
       });
       results.push(translated);
-
-      // Add delay to avoid rate limiting
-      if (delayMs > 0) {
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
-      }
     }
 
     return results;
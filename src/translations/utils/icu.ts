@@ -0,0 +1,484 @@
+/**
+ * ICU MessageFormat utilities
+ * Parses messages such as `{count, plural, one {# item} other {# items}}` so that providers only
+ * translate the text of each sub-message, and validation can compare the arguments of translations
+ */
+
+export type IcuNode =
+  | { type: 'literal'; value: string }
+  /** Simple argument such as {name} or {amount, number, ::currency/EUR}, kept as written */
+  | { type: 'argument'; name: string; raw: string }
+  /** `#` inside a plural sub-message */
+  | { type: 'pound' }
+  | {
+      type: 'plural' | 'selectordinal' | 'select';
+      name: string;
+      offset?: number;
+      options: Array<{ selector: string; message: IcuNode[] }>;
+    };
+
+/**
+ * Error thrown for messages that aren't valid ICU MessageFormat
+ */
+export class IcuParseError extends Error {
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(`${message} at position ${offset}`);
+    this.name = 'IcuParseError';
+    this.offset = offset;
+  }
+}
+
+const COMPLEX_TYPES = ['plural', 'selectordinal', 'select'] as const;
+
+/**
+ * Characters that an apostrophe quotes (ICU "DOUBLE_OPTIONAL" apostrophe mode)
+ */
+function isQuotable(char: string | undefined, inPlural: boolean): boolean {
+  return char === '{' || char === '}' || char === '|' || (inPlural && char === '#');
+}
+
+class IcuParser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): IcuNode[] {
+    const nodes = this.parseMessage(false);
+
+    if (this.position < this.source.length) {
+      throw new IcuParseError("Unexpected '}'", this.position);
+    }
+
+    return nodes;
+  }
+
+  private parseMessage(inPlural: boolean): IcuNode[] {
+    const nodes: IcuNode[] = [];
+    let literal = '';
+
+    const flushLiteral = () => {
+      if (literal) {
+        nodes.push({ type: 'literal', value: literal });
+        literal = '';
+      }
+    };
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+
+      if (char === '}') {
+        break;
+      }
+
+      if (char === '{') {
+        flushLiteral();
+        nodes.push(this.parseArgument());
+      } else if (char === '#' && inPlural) {
+        flushLiteral();
+        nodes.push({ type: 'pound' });
+        this.position++;
+      } else if (char === "'") {
+        literal += this.parseApostrophe(inPlural);
+      } else {
+        literal += char;
+        this.position++;
+      }
+    }
+
+    flushLiteral();
+    return nodes;
+  }
+
+  /**
+   * `''` is a literal apostrophe; an apostrophe before a syntax character quotes text up to the
+   * next single apostrophe; any other apostrophe is literal
+   */
+  private parseApostrophe(inPlural: boolean): string {
+    const next = this.source[this.position + 1];
+
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+
+    if (!isQuotable(next, inPlural)) {
+      this.position++;
+      return "'";
+    }
+
+    let quoted = '';
+    this.position++;
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+
+      if (char === "'") {
+        if (this.source[this.position + 1] === "'") {
+          quoted += "'";
+          this.position += 2;
+          continue;
+        }
+        this.position++;
+        return quoted;
+      }
+
+      quoted += char;
+      this.position++;
+    }
+
+    // An unterminated quote runs to the end of the message
+    return quoted;
+  }
+
+  private parseArgument(): IcuNode {
+    const start = this.position;
+    this.position++; // {
+    this.skipWhitespace();
+
+    const name = this.readWord();
+    if (!name) {
+      throw new IcuParseError('Expected an argument name', this.position);
+    }
+    this.skipWhitespace();
+
+    if (this.source[this.position] === '}') {
+      this.position++;
+      return { type: 'argument', name, raw: this.source.slice(start, this.position) };
+    }
+
+    this.expect(',');
+    this.skipWhitespace();
+    const type = this.readWord();
+    this.skipWhitespace();
+
+    if ((COMPLEX_TYPES as readonly string[]).includes(type)) {
+      return this.parseComplexArgument(name, type as (typeof COMPLEX_TYPES)[number]);
+    }
+
+    if (!type) {
+      throw new IcuParseError('Expected an argument type', this.position);
+    }
+
+    // number, date, time, ... with an optional style that may contain quoted text
+    if (this.source[this.position] === ',') {
+      this.position++;
+      this.skipStyle();
+    }
+
+    this.expect('}');
+    return { type: 'argument', name, raw: this.source.slice(start, this.position) };
+  }
+
+  private parseComplexArgument(name: string, type: (typeof COMPLEX_TYPES)[number]): IcuNode {
+    this.expect(',');
+    this.skipWhitespace();
+
+    let offset: number | undefined;
+    const options: Array<{ selector: string; message: IcuNode[] }> = [];
+    const inPlural = type !== 'select';
+
+    while (this.position < this.source.length && this.source[this.position] !== '}') {
+      const selector = this.readWord();
+
+      if (!selector) {
+        throw new IcuParseError(`Expected a ${type} selector`, this.position);
+      }
+
+      if (inPlural && selector.startsWith('offset:')) {
+        this.skipWhitespace();
+        offset = Number(selector.slice('offset:'.length) || this.readWord());
+        if (Number.isNaN(offset)) {
+          throw new IcuParseError('Invalid plural offset', this.position);
+        }
+        this.skipWhitespace();
+        continue;
+      }
+
+      if (options.some((option) => option.selector === selector)) {
+        throw new IcuParseError(`Duplicate selector "${selector}"`, this.position);
+      }
+
+      this.skipWhitespace();
+      this.expect('{');
+      const message = this.parseMessage(inPlural);
+      this.expect('}');
+      options.push({ selector, message });
+      this.skipWhitespace();
+    }
+
+    this.expect('}');
+
+    if (!options.some((option) => option.selector === 'other')) {
+      throw new IcuParseError(`The ${type} argument "${name}" needs an "other" option`, this.position);
+    }
+
+    return { type, name, ...(offset !== undefined && { offset }), options };
+  }
+
+  private skipStyle(): void {
+    let depth = 0;
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+
+      if (char === "'") {
+        this.parseApostrophe(true);
+        continue;
+      }
+      if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        if (depth === 0) {
+          return;
+        }
+        depth--;
+      }
+      this.position++;
+    }
+  }
+
+  private readWord(): string {
+    const match = this.source.slice(this.position).match(/^[^\s{},#']+/);
+    const word = match?.[0] ?? '';
+    this.position += word.length;
+    return word;
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.source[this.position] ?? '')) {
+      this.position++;
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.source[this.position] !== char) {
+      throw new IcuParseError(
+        this.position >= this.source.length ? `Expected '${char}' before the end of the message` : `Expected '${char}'`,
+        this.position
+      );
+    }
+    this.position++;
+  }
+}
+
+/**
+ * Parse an ICU MessageFormat message
+ * @throws IcuParseError when the message is not valid
+ */
+export function parseIcuMessage(message: string): IcuNode[] {
+  return new IcuParser(message).parse();
+}
+
+/**
+ * Parse a message, returning null instead of throwing when it isn't valid ICU
+ * (e.g. i18next messages with {{variable}} interpolations)
+ */
+export function tryParseIcuMessage(message: string): IcuNode[] | null {
+  try {
+    return parseIcuMessage(message);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a parsed message has plural, selectordinal or select arguments
+ */
+export function hasComplexArguments(nodes: IcuNode[]): boolean {
+  return nodes.some((node) => node.type === 'plural' || node.type === 'selectordinal' || node.type === 'select');
+}
+
+/**
+ * Names of all arguments used in a message (including nested ones), sorted and unique
+ */
+export function getIcuArgumentNames(nodes: IcuNode[]): string[] {
+  const names = new Set<string>();
+
+  const visit = (list: IcuNode[]) => {
+    for (const node of list) {
+      if (node.type === 'argument') {
+        names.add(node.name);
+      } else if (node.type !== 'literal' && node.type !== 'pound') {
+        names.add(node.name);
+        for (const option of node.options) {
+          visit(option.message);
+        }
+      }
+    }
+  };
+
+  visit(nodes);
+  return [...names].sort();
+}
+
+/**
+ * Escape literal text so it reads back as the same text inside a message
+ */
+function escapeLiteral(value: string, inPlural: boolean): string {
+  let result = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    const next = value[i + 1];
+
+    if (char === "'") {
+      // Double apostrophes that would otherwise start a quote (or end up next to one)
+      result += next === undefined || next === "'" || isQuotable(next, inPlural) ? "''" : "'";
+    } else if (isQuotable(char, inPlural)) {
+      result += `'${char}'`;
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+type SimpleNode = Exclude<IcuNode, { type: 'plural' | 'selectordinal' | 'select' }>;
+
+/**
+ * Walk a message, printing complex arguments and handing each run of text, simple arguments
+ * and `#` to `printRun`
+ */
+function printNodes(nodes: IcuNode[], inPlural: boolean, printRun: (run: SimpleNode[], inPlural: boolean) => string) {
+  let output = '';
+  let run: SimpleNode[] = [];
+
+  const flushRun = () => {
+    if (run.length > 0) {
+      output += printRun(run, inPlural);
+      run = [];
+    }
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'literal' || node.type === 'argument' || node.type === 'pound') {
+      run.push(node);
+      continue;
+    }
+
+    flushRun();
+    const offset = node.offset !== undefined ? ` offset:${node.offset}` : '';
+    const options = node.options
+      .map((option) => `${option.selector} {${printNodes(option.message, node.type !== 'select', printRun)}}`)
+      .join(' ');
+    output += `{${node.name}, ${node.type},${offset} ${options}}`;
+  }
+
+  flushRun();
+  return output;
+}
+
+function printRun(run: SimpleNode[], inPlural: boolean): string {
+  return run
+    .map((node) =>
+      node.type === 'literal' ? escapeLiteral(node.value, inPlural) : node.type === 'pound' ? '#' : node.raw
+    )
+    .join('');
+}
+
+/**
+ * Print a parsed message back to ICU MessageFormat
+ */
+export function printIcuMessage(nodes: IcuNode[]): string {
+  return printNodes(nodes, false, printRun);
+}
+
+/**
+ * Text of a run as sent to a provider: literal text unescaped, arguments as written and `#` as {#},
+ * so that placeholder protection treats every argument the same way
+ */
+function runToTranslatableText(run: SimpleNode[]): string {
+  return run.map((node) => (node.type === 'literal' ? node.value : node.type === 'pound' ? '{#}' : node.raw)).join('');
+}
+
+/**
+ * Turn a translated run back into message syntax, escaping the translated text
+ */
+function translatedTextToRun(text: string, inPlural: boolean): string {
+  return text
+    .split(/(\{[^{}]*\})/)
+    .map((part, index) => {
+      if (index % 2 === 0) {
+        return escapeLiteral(part, inPlural);
+      }
+      return part === '{#}' && inPlural ? '#' : part;
+    })
+    .join('');
+}
+
+/**
+ * Whether a run has text worth translating (not just arguments, whitespace or punctuation)
+ */
+function isTranslatableRun(run: SimpleNode[]): boolean {
+  return run.some((node) => node.type === 'literal' && /\p{L}/u.test(node.value));
+}
+
+export interface TranslatableMessage {
+  /** Texts to translate: the sub-messages of plural/select arguments and the text around them */
+  segments: string[];
+  /** Rebuild the message from the translated segments (in the same order) */
+  assemble(translatedSegments: string[]): string;
+}
+
+/**
+ * Split a message into the parts a provider should translate
+ * ICU messages with plural, selectordinal or select arguments are split into their sub-messages
+ * so selectors and argument names are never sent to the provider. Any other message (plain text,
+ * simple arguments, {{variable}} interpolations) is a single segment.
+ */
+export function splitTranslatableMessage(message: string): TranslatableMessage {
+  const nodes = tryParseIcuMessage(message);
+
+  if (!nodes || !hasComplexArguments(nodes)) {
+    return { segments: [message], assemble: ([translated]) => translated };
+  }
+
+  // Providers tend to trim whitespace, so segments are sent trimmed and the whitespace is put back
+  const segments: string[] = [];
+  const padding: Array<[string, string]> = [];
+  printNodes(nodes, false, (run, inPlural) => {
+    if (isTranslatableRun(run)) {
+      const text = runToTranslatableText(run);
+      segments.push(text.trim());
+      padding.push([text.match(/^\s*/)?.[0] ?? '', text.match(/\s*$/)?.[0] ?? '']);
+    }
+    return printRun(run, inPlural);
+  });
+
+  return {
+    segments,
+    assemble: (translatedSegments) => {
+      let index = 0;
+      return printNodes(nodes, false, (run, inPlural) => {
+        if (!isTranslatableRun(run)) {
+          return printRun(run, inPlural);
+        }
+        const [leading, trailing] = padding[index];
+        const translated = translatedSegments[index++].trim();
+        return translatedTextToRun(`${leading}${translated}${trailing}`, inPlural);
+      });
+    }
+  };
+}
+
+/**
+ * Translate a message segment by segment and reassemble it
+ * @param translateSegments - Translates the segments, returning them in the same order
+ */
+export async function translateMessageSegments(
+  messages: string[],
+  translateSegments: (segments: string[]) => Promise<string[]>
+): Promise<string[]> {
+  const split = messages.map(splitTranslatableMessage);
+  const translated = await translateSegments(split.flatMap((message) => message.segments));
+  let offset = 0;
+
+  return split.map((message) => {
+    const segments = translated.slice(offset, offset + message.segments.length);
+    offset += message.segments.length;
+    return message.assemble(segments);
+  });
+}
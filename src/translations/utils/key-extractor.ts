@@ -0,0 +1,510 @@
+/**
+ * Key usage extraction
+ * Tokenize TS/TSX/JS/Vue/Svelte sources once and collect the translation keys they use:
+ * t('KEY'), i18n.t('KEY'), $t('KEY'), <Trans i18nKey="KEY"> and the namespaces of useTranslation('ns')
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { TranslationFiles } from '../core/types.js';
+import { PLURAL_SUFFIXES } from './plurals.js';
+
+/**
+ * A translation key used in code
+ */
+export interface KeyUsage {
+  /** The key, or the static start of a key built at runtime (t(`status.${code}`) -> "status.") */
+  key: string;
+  /** Whether only the start of the key is known */
+  dynamic: boolean;
+  /**
+   * Namespaces of the ns option, the ns attribute of <Trans> or the closest useTranslation() call,
+   * in lookup order (unset when the call doesn't name one)
+   */
+  namespaces?: string[];
+  /** Default value passed in code: t('KEY', 'Default'), t('KEY', { defaultValue }) or <Trans defaults="Default"> */
+  defaultValue?: string;
+  file: string;
+  /** 1-based line of the key */
+  line: number;
+}
+
+/**
+ * Everything collected from a set of source files in one pass
+ */
+export interface ExtractedKeys {
+  usages: KeyUsage[];
+  /** Static string literals other than call keys, so keys kept in constants or arrays still count as mentioned */
+  literals: Set<string>;
+  /** Lowercase words of identifiers and strings, for spotting keys that may be built at runtime */
+  words: Set<string>;
+  files: number;
+}
+
+interface Token {
+  type: 'identifier' | 'string' | 'template' | 'punctuation';
+  /** Identifier name, punctuation character, string content, or template text up to its first ${} */
+  value: string;
+  line: number;
+  /** Template literal with ${} expressions */
+  dynamic?: boolean;
+}
+
+/** Functions that take a translation key as first argument, called directly or as a method (i18n.t) */
+const TRANSLATE_FUNCTIONS = new Set(['t', '$t', '$_']);
+
+/** Keywords after which a slash starts a regular expression instead of a division */
+const REGEX_KEYWORDS = new Set(['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'void', 'yield', 'await']);
+
+/** Directories never searched for key usage */
+const EXCLUDED_DIRS = new Set([
+  'node_modules',
+  'dist',
+  'build',
+  '.next',
+  '.nuxt',
+  'out',
+  'coverage',
+  '.git',
+  '.svelte-kit',
+  '.vercel',
+  '.turbo',
+  'public',
+  'static'
+]);
+
+const isIdentifierChar = (char: string) => /[\w$]/.test(char);
+
+const isStringToken = (token: Token | undefined): token is Token =>
+  token?.type === 'string' || token?.type === 'template';
+
+const isPunctuation = (token: Token | undefined, value: string) =>
+  token?.type === 'punctuation' && token.value === value;
+
+/**
+ * Split source code into identifiers, strings, template literals and punctuation, skipping comments and regexes
+ * With htmlAttributes (Vue and Svelte templates), double quotes after `=` delimit attributes rather than strings,
+ * so the expressions inside them (:label="$t('KEY')") are tokenized too
+ */
+function tokenize(source: string, start: number, end: number, line: number, htmlAttributes = false): Token[] {
+  const tokens: Token[] = [];
+  let i = start;
+  let inAttribute = false;
+
+  const previous = () => tokens[tokens.length - 1];
+
+  const slashStartsRegex = () => {
+    const token = previous();
+    if (!token) return true;
+    if (token.type === 'identifier') return REGEX_KEYWORDS.has(token.value);
+    // `</` closes a JSX or HTML tag
+    return token.type === 'punctuation' && !')]}<'.includes(token.value);
+  };
+
+  // Quoted strings end at the line end, so a stray apostrophe in JSX or template text can't swallow the file
+  const readQuoted = (quote: string) => {
+    const startLine = line;
+    let value = '';
+    let j = i + 1;
+
+    while (j < end && source[j] !== quote && source[j] !== '\n') {
+      if (source[j] === '\\') {
+        value += source[j + 1] ?? '';
+        j += 2;
+      } else {
+        value += source[j];
+        j++;
+      }
+    }
+
+    if (source[j] === quote) {
+      tokens.push({ type: 'string', value, line: startLine });
+      i = j + 1;
+    } else {
+      i = j;
+    }
+  };
+
+  const readTemplate = () => {
+    const token: Token = { type: 'template', value: '', line, dynamic: false };
+    tokens.push(token);
+    i++;
+
+    while (i < end && source[i] !== '`') {
+      if (source[i] === '\\') {
+        if (!token.dynamic) token.value += source[i + 1] ?? '';
+        i += 2;
+      } else if (source[i] === '$' && source[i + 1] === '{') {
+        token.dynamic = true;
+        i += 2;
+
+        // Tokenize the expression up to its closing brace
+        let depth = 0;
+        let expressionEnd = i;
+        while (expressionEnd < end && (source[expressionEnd] !== '}' || depth > 0)) {
+          if (source[expressionEnd] === '{') depth++;
+          if (source[expressionEnd] === '}') depth--;
+          expressionEnd++;
+        }
+        tokens.push(...tokenize(source, i, expressionEnd, line));
+        for (let j = i; j < expressionEnd; j++) {
+          if (source[j] === '\n') line++;
+        }
+        i = expressionEnd + 1;
+      } else {
+        if (source[i] === '\n') line++;
+        if (!token.dynamic) token.value += source[i];
+        i++;
+      }
+    }
+
+    i++;
+  };
+
+  while (i < end) {
+    const char = source[i];
+
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '/' && source[i + 1] === '/') {
+      while (i < end && source[i] !== '\n') i++;
+    } else if (char === '/' && source[i + 1] === '*') {
+      const close = source.indexOf('*/', i + 2);
+      const commentEnd = close === -1 || close > end ? end : close + 2;
+      for (let j = i; j < commentEnd; j++) {
+        if (source[j] === '\n') line++;
+      }
+      i = commentEnd;
+    } else if (char === '/' && slashStartsRegex()) {
+      // Skip the regex up to its closing slash (outside character classes), or treat it as a division
+      let j = i + 1;
+      let inClass = false;
+      while (j < end && source[j] !== '\n' && (source[j] !== '/' || inClass)) {
+        if (source[j] === '\\') j++;
+        else if (source[j] === '[') inClass = true;
+        else if (source[j] === ']') inClass = false;
+        j++;
+      }
+      if (source[j] === '/') {
+        i = j + 1;
+        while (i < end && /[a-z]/i.test(source[i])) i++;
+      } else {
+        tokens.push({ type: 'punctuation', value: char, line });
+        i++;
+      }
+    } else if (char === '"' && htmlAttributes && (inAttribute || isPunctuation(previous(), '='))) {
+      inAttribute = !inAttribute;
+      i++;
+    } else if (char === "'" || char === '"') {
+      readQuoted(char);
+    } else if (char === '`') {
+      readTemplate();
+    } else if (isIdentifierChar(char)) {
+      let j = i;
+      while (j < end && isIdentifierChar(source[j])) j++;
+      tokens.push({ type: 'identifier', value: source.slice(i, j), line });
+      i = j;
+    } else {
+      tokens.push({ type: 'punctuation', value: char, line });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Tokenize a file; Vue and Svelte files get their <script> blocks tokenized as code and the rest as a template
+ */
+function tokenizeFile(content: string, filePath: string): Token[] {
+  const extension = path.extname(filePath);
+
+  if (extension !== '.vue' && extension !== '.svelte') {
+    return tokenize(content, 0, content.length, 1);
+  }
+
+  const tokens: Token[] = [];
+  const lineAt = (index: number) => content.slice(0, index).split('\n').length;
+  const scriptPattern = /(<script\b[^>]*>)([\s\S]*?)<\/script>/g;
+  let templateStart = 0;
+
+  for (const match of content.matchAll(scriptPattern)) {
+    const scriptStart = match.index + match[1].length;
+    const scriptEnd = scriptStart + match[2].length;
+
+    tokens.push(...tokenize(content, templateStart, match.index, lineAt(templateStart), true));
+    tokens.push(...tokenize(content, scriptStart, scriptEnd, lineAt(scriptStart)));
+    templateStart = scriptEnd;
+  }
+
+  tokens.push(...tokenize(content, templateStart, content.length, lineAt(templateStart), true));
+  return tokens;
+}
+
+/**
+ * Read a JSX attribute value: "value", 'value', {'value'} or {`value`}
+ */
+function readAttributeValue(tokens: Token[], index: number): Token | undefined {
+  if (isStringToken(tokens[index])) {
+    return tokens[index];
+  }
+  if (isPunctuation(tokens[index], '{') && isStringToken(tokens[index + 1]) && isPunctuation(tokens[index + 2], '}')) {
+    return tokens[index + 1];
+  }
+  return undefined;
+}
+
+/**
+ * Collect the attributes of a JSX element starting at its name, up to the closing > or />
+ */
+function readJsxAttributes(tokens: Token[], index: number): Map<string, Token> {
+  const attributes = new Map<string, Token>();
+
+  for (let i = index + 1; i < tokens.length && !isPunctuation(tokens[i], '>'); i++) {
+    if (tokens[i].type === 'identifier' && isPunctuation(tokens[i + 1], '=')) {
+      const value = readAttributeValue(tokens, i + 2);
+      if (value) {
+        attributes.set(tokens[i].value, value);
+      }
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Read a namespace value: 'ns' or ['ns', 'fallback']
+ */
+function readNamespaces(tokens: Token[], index: number): string[] | undefined {
+  const token = tokens[index];
+
+  if (isStringToken(token)) {
+    return token.dynamic ? undefined : [token.value];
+  }
+  if (!isPunctuation(token, '[')) {
+    return undefined;
+  }
+
+  const namespaces: string[] = [];
+  for (let i = index + 1; i < tokens.length && !isPunctuation(tokens[i], ']'); i++) {
+    if (isStringToken(tokens[i]) && !tokens[i].dynamic) {
+      namespaces.push(tokens[i].value);
+    }
+  }
+  return namespaces.length > 0 ? namespaces : undefined;
+}
+
+/**
+ * Read the ns and defaultValue properties of a t() options object starting at its opening brace
+ */
+function readCallOptions(tokens: Token[], index: number): { namespaces?: string[]; defaultValue?: string } {
+  const options: { namespaces?: string[]; defaultValue?: string } = {};
+  let depth = 0;
+
+  for (let i = index; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'punctuation' && '{[('.includes(token.value)) {
+      depth++;
+    } else if (token.type === 'punctuation' && '}])'.includes(token.value)) {
+      depth--;
+      if (depth === 0) break;
+    } else if (depth === 1 && token.type !== 'punctuation' && isPunctuation(tokens[i + 1], ':')) {
+      if (token.value === 'ns') {
+        options.namespaces = readNamespaces(tokens, i + 2);
+      } else if (token.value === 'defaultValue' && isStringToken(tokens[i + 2]) && !tokens[i + 2].dynamic) {
+        options.defaultValue = tokens[i + 2].value;
+      }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Extract the translation keys used in one source file
+ */
+export function extractKeyUsages(content: string, filePath: string): KeyUsage[] {
+  return collectFromTokens(tokenizeFile(content, filePath), filePath).usages;
+}
+
+function collectFromTokens(tokens: Token[], file: string): Pick<ExtractedKeys, 'usages' | 'literals' | 'words'> {
+  const usages: KeyUsage[] = [];
+  const keyTokens = new Set<Token>();
+  let scopeNamespaces: string[] | undefined;
+
+  const addUsage = (keyToken: Token, namespaces: string[] | undefined, defaultValue: string | undefined) => {
+    keyTokens.add(keyToken);
+
+    if (keyToken.value === '' && keyToken.dynamic) {
+      return; // Nothing is known about a key like t(`${key}`)
+    }
+
+    usages.push({
+      key: keyToken.value,
+      dynamic: !!keyToken.dynamic,
+      ...(namespaces !== undefined && { namespaces }),
+      ...(defaultValue !== undefined && { defaultValue }),
+      file,
+      line: keyToken.line
+    });
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type !== 'identifier' || !isPunctuation(tokens[i + 1], '(')) {
+      if (isPunctuation(token, '<') && tokens[i + 1]?.type === 'identifier' && tokens[i + 1].value === 'Trans') {
+        const attributes = readJsxAttributes(tokens, i + 1);
+        const key = attributes.get('i18nKey');
+        if (key) {
+          const ns = attributes.get('ns');
+          addUsage(key, ns && !ns.dynamic ? [ns.value] : scopeNamespaces, attributes.get('defaults')?.value);
+        }
+      }
+      continue;
+    }
+
+    const argument = tokens[i + 2];
+
+    // useTranslation('ns') and useTranslation(['ns', 'fallback']) set the namespaces of the t calls after them
+    if (token.value === 'useTranslation') {
+      scopeNamespaces = readNamespaces(tokens, i + 2);
+    } else if (TRANSLATE_FUNCTIONS.has(token.value) && isStringToken(argument)) {
+      // t('KEY', 'Default'), t('KEY', { ns, defaultValue }) or t('KEY', 'Default', { ns })
+      let next = i + 3;
+      let defaultValue: string | undefined;
+      let options: ReturnType<typeof readCallOptions> = {};
+
+      if (isPunctuation(tokens[next], ',') && isStringToken(tokens[next + 1])) {
+        defaultValue = tokens[next + 1].dynamic ? undefined : tokens[next + 1].value;
+        next += 2;
+      }
+      if (isPunctuation(tokens[next], ',') && isPunctuation(tokens[next + 1], '{')) {
+        options = readCallOptions(tokens, next + 1);
+      }
+
+      addUsage(argument, options.namespaces ?? scopeNamespaces, options.defaultValue ?? defaultValue);
+    }
+  }
+
+  // Strings that aren't keys of a translation call still count as mentions (keys kept in constants or arrays)
+  const literals = new Set<string>();
+  const words = new Set<string>();
+
+  for (const token of tokens) {
+    if (token.type !== 'punctuation') {
+      for (const word of token.value.split(/[^\w$]+/)) {
+        if (word) words.add(word.toLowerCase());
+      }
+    }
+    if (isStringToken(token) && !token.dynamic && !keyTokens.has(token)) {
+      literals.add(token.value);
+    }
+  }
+
+  return { usages, literals, words };
+}
+
+/**
+ * The namespaces a usage may resolve to, in i18next lookup order, and its key without a namespace prefix
+ * A 'ns:' prefix naming a known namespace wins, then the ns option or useTranslation() scope, then the default namespace
+ */
+export function resolveKeyUsage(
+  usage: KeyUsage,
+  knownNamespaces: string[],
+  defaultNamespace: string
+): { namespaces: string[]; key: string } {
+  const separator = usage.key.indexOf(':');
+
+  if (separator > 0 && knownNamespaces.includes(usage.key.slice(0, separator))) {
+    return { namespaces: [usage.key.slice(0, separator)], key: usage.key.slice(separator + 1) };
+  }
+
+  return { namespaces: usage.namespaces ?? [defaultNamespace], key: usage.key };
+}
+
+/**
+ * The namespace a resolved usage reads its key from: like i18next, the first of its namespaces that has the key
+ * (or plural forms of it), or undefined when none has it
+ */
+export function findKeyNamespace(
+  resolved: { namespaces: string[]; key: string },
+  sourceTranslations: TranslationFiles
+): string | undefined {
+  return resolved.namespaces.find((namespace) => {
+    const file = sourceTranslations[namespace] || {};
+    return (
+      file[resolved.key] !== undefined ||
+      PLURAL_SUFFIXES.some((suffix) => file[`${resolved.key}${suffix}`] !== undefined)
+    );
+  });
+}
+
+/**
+ * Find all source files with the given extensions in the search paths, skipping build and dependency folders
+ */
+export function findSourceFiles(projectRoot: string, searchPaths: string[], extensions: string[]): string[] {
+  const files: string[] = [];
+  const extensionSet = new Set(extensions);
+
+  function scanDirectory(dir: string): void {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return; // Skip directories we can't read
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!EXCLUDED_DIRS.has(entry.name)) {
+          scanDirectory(fullPath);
+        }
+      } else if (entry.isFile() && extensionSet.has(path.extname(entry.name))) {
+        files.push(fullPath);
+      }
+    }
+  }
+
+  for (const searchPath of searchPaths) {
+    const fullSearchPath = path.join(projectRoot, searchPath);
+    if (fs.existsSync(fullSearchPath)) {
+      scanDirectory(fullSearchPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Read every file once and collect the keys they use
+ * Usage file paths are relative to the project root
+ */
+export function extractKeys(projectRoot: string, files: string[]): ExtractedKeys {
+  const extracted: ExtractedKeys = { usages: [], literals: new Set(), words: new Set(), files: 0 };
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = fs.readFileSync(file, 'utf-8');
+    } catch {
+      continue; // Skip files that can't be read
+    }
+
+    const relativePath = path.relative(projectRoot, file).split(path.sep).join('/');
+    const { usages, literals, words } = collectFromTokens(tokenizeFile(content, file), relativePath);
+
+    extracted.usages.push(...usages);
+    for (const literal of literals) extracted.literals.add(literal);
+    for (const word of words) extracted.words.add(word);
+    extracted.files++;
+  }
+
+  return extracted;
+}
@@ -0,0 +1,119 @@
+/**
+ * Key location utilities
+ * Find the line each translation key is defined on, so reports can point at the exact spot in a file
+ */
+
+import * as fs from 'node:fs';
+import { isMap, isScalar, LineCounter, parseDocument, type YAMLMap } from 'yaml';
+import { findTranslationFile, getFileFormat, getYamlTranslationsNode } from './file-formats.js';
+
+interface Container {
+  type: 'object' | 'array';
+  /** Whether the container added a key to the current path */
+  named: boolean;
+  /** Whether the next string in the object is a key */
+  expectKey: boolean;
+}
+
+/**
+ * Map every key of a JSON translation file to the (1-based) line it is defined on
+ * Keys of nested objects are flattened with dot notation, like readTranslations does
+ */
+export function getKeyLines(content: string): Map<string, number> {
+  const lines = new Map<string, number>();
+  const keyPath: string[] = [];
+  const containers: Container[] = [];
+  let pendingKey: string | null = null;
+  let line = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    const container = containers[containers.length - 1];
+
+    if (char === '\n') {
+      line++;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < content.length && content[end] !== '"') {
+        end += content[end] === '\\' ? 2 : 1;
+      }
+
+      const text = content.slice(i, end + 1);
+      i = end;
+
+      if (container?.type === 'object' && container.expectKey) {
+        pendingKey = JSON.parse(text) as string;
+        container.expectKey = false;
+        lines.set([...keyPath, pendingKey].join('.'), line);
+      } else {
+        pendingKey = null;
+      }
+    } else if (char === '{' || char === '[') {
+      const named = pendingKey !== null;
+      if (pendingKey !== null) {
+        keyPath.push(pendingKey);
+        pendingKey = null;
+      }
+      containers.push({ type: char === '{' ? 'object' : 'array', named, expectKey: char === '{' });
+    } else if (char === '}' || char === ']') {
+      if (containers.pop()?.named) {
+        keyPath.pop();
+      }
+    } else if (char === ',') {
+      pendingKey = null;
+      if (container?.type === 'object') {
+        container.expectKey = true;
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Map every key of a YAML translation file to the (1-based) line it is defined on
+ * Keys are relative to the language root key when the file has one, like readTranslations reads them
+ */
+export function getYamlKeyLines(content: string, language: string): Map<string, number> {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  const lines = new Map<string, number>();
+
+  const visit = (map: YAMLMap, prefix: string) => {
+    for (const pair of map.items) {
+      if (!isScalar(pair.key)) continue;
+
+      const key = prefix ? `${prefix}.${String(pair.key.value)}` : String(pair.key.value);
+      if (pair.key.range) {
+        lines.set(key, lineCounter.linePos(pair.key.range[0]).line);
+      }
+      if (isMap(pair.value)) {
+        visit(pair.value, key);
+      }
+    }
+  };
+
+  const root = getYamlTranslationsNode(doc, language);
+  if (root) {
+    visit(root, '');
+  }
+
+  return lines;
+}
+
+/**
+ * Read the key lines of a namespace file, or an empty map if the file doesn't exist or isn't readable
+ */
+export function readKeyLines(translationsPath: string, language: string, namespace: string): Map<string, number> {
+  try {
+    const filePath = findTranslationFile(translationsPath, language, namespace);
+    if (!filePath) {
+      return new Map();
+    }
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    return getFileFormat(filePath) === 'yaml' ? getYamlKeyLines(content, language) : getKeyLines(content);
+  } catch {
+    return new Map();
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import type { DeepLLanguage, GoogleLanguage, TranslationProviderType } from '../core/schema.js';
-import { DEEPL_LANGUAGES, GOOGLE_LANGUAGES } from '../core/schema.js';
+import { DEEPL_LANGUAGES, GOOGLE_LANGUAGES, SUPPORTED_LANGUAGES } from '../core/schema.js';
 
 /**
  * Language fallback mapping
@@ -99,7 +99,7 @@ export interface LanguageFallbackResult {
  * Tries to find a supported language for the given provider
  *
  * @param language - Original language code requested
- * @param provider - Translation provider type ('deepl' or 'google')
+ * @param provider - Translation provider type ('deepl', 'google' or 'openai-compatible')
  * @param enableFallback - Whether to enable fallback logic (default: true)
  * @returns LanguageFallbackResult with resolved language and metadata
  */
@@ -171,6 +171,8 @@ function getSupportedLanguagesForProvider(provider: TranslationProviderType): re
       return DEEPL_LANGUAGES;
     case 'google':
       return GOOGLE_LANGUAGES;
+    case 'openai-compatible':
+      return SUPPORTED_LANGUAGES;
     default:
       return [];
   }
@@ -0,0 +1,159 @@
+/**
+ * Translation lockfile utilities
+ * Records which source value each translation was made from, so edits to the source can be detected
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Lockfile name, stored in the project root next to .translationsrc.json
+ */
+export const TRANSLATION_LOCK_FILE = '.translations-lock.json';
+
+const LOCK_VERSION = 1;
+
+export interface TranslationLockEntry {
+  /** Hash of the source value the translation was made from */
+  sourceHash: string;
+  /** Provider that produced the translation (e.g. 'deepl') */
+  provider?: string;
+}
+
+export interface TranslationLock {
+  version: number;
+  /** language -> namespace -> key -> entry */
+  translations: {
+    [language: string]: {
+      [namespace: string]: {
+        [key: string]: TranslationLockEntry;
+      };
+    };
+  };
+}
+
+/**
+ * Hash a source value for the lockfile
+ * A short sha256 prefix keeps the lockfile readable while making collisions practically impossible
+ */
+export function hashSourceValue(value: string): string {
+  return createHash('sha256').update(value, 'utf-8').digest('hex').slice(0, 16);
+}
+
+/**
+ * Read the translation lockfile, returning an empty lock when none exists yet
+ * Throws an error naming the lockfile when it isn't valid JSON
+ */
+export function readTranslationLock(projectRoot: string): TranslationLock {
+  const lockPath = path.join(projectRoot, TRANSLATION_LOCK_FILE);
+
+  if (!fs.existsSync(lockPath)) {
+    return { version: LOCK_VERSION, translations: {} };
+  }
+
+  let parsed: Partial<TranslationLock>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(lockPath, 'utf-8')) as Partial<TranslationLock>;
+  } catch (error) {
+    // Usually merge conflict markers; the lockfile has to be fixed by hand (or deleted) before anything can run
+    throw new Error(
+      `Invalid ${TRANSLATION_LOCK_FILE} (${error instanceof Error ? error.message : error}), resolve merge conflicts or delete it`
+    );
+  }
+
+  return { version: parsed.version ?? LOCK_VERSION, translations: parsed.translations ?? {} };
+}
+
+/**
+ * Write the translation lockfile with sorted keys so diffs stay small and stable
+ */
+export function writeTranslationLock(projectRoot: string, lock: TranslationLock): void {
+  const lockPath = path.join(projectRoot, TRANSLATION_LOCK_FILE);
+  const sorted: TranslationLock['translations'] = {};
+
+  for (const language of Object.keys(lock.translations).sort()) {
+    sorted[language] = {};
+    for (const namespace of Object.keys(lock.translations[language]).sort()) {
+      const entries = lock.translations[language][namespace];
+      sorted[language][namespace] = {};
+      for (const key of Object.keys(entries).sort()) {
+        sorted[language][namespace][key] = entries[key];
+      }
+    }
+  }
+
+  fs.writeFileSync(lockPath, `${JSON.stringify({ version: lock.version, translations: sorted }, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Get the lock entry for a translation, if one has been recorded
+ */
+export function getLockEntry(
+  lock: TranslationLock,
+  language: string,
+  namespace: string,
+  key: string
+): TranslationLockEntry | undefined {
+  return lock.translations[language]?.[namespace]?.[key];
+}
+
+/**
+ * Record that a translation was made from the given source value
+ */
+export function recordTranslation(
+  lock: TranslationLock,
+  language: string,
+  namespace: string,
+  key: string,
+  sourceValue: string,
+  provider?: string
+): void {
+  if (!lock.translations[language]) {
+    lock.translations[language] = {};
+  }
+  if (!lock.translations[language][namespace]) {
+    lock.translations[language][namespace] = {};
+  }
+
+  lock.translations[language][namespace][key] = {
+    sourceHash: hashSourceValue(sourceValue),
+    ...(provider && { provider })
+  };
+}
+
+/**
+ * Remove the lock entry of a translation, dropping namespaces and languages left empty
+ */
+export function removeLockEntry(lock: TranslationLock, language: string, namespace: string, key: string): boolean {
+  const entries = lock.translations[language]?.[namespace];
+
+  if (!entries || !(key in entries)) {
+    return false;
+  }
+
+  delete entries[key];
+  if (Object.keys(entries).length === 0) {
+    delete lock.translations[language][namespace];
+  }
+  if (Object.keys(lock.translations[language]).length === 0) {
+    delete lock.translations[language];
+  }
+
+  return true;
+}
+
+/**
+ * Whether a translation was made from a different source value than the current one
+ * Translations without a lock entry are never considered stale
+ */
+export function isStaleTranslation(
+  lock: TranslationLock,
+  language: string,
+  namespace: string,
+  key: string,
+  currentSourceValue: string
+): boolean {
+  const entry = getLockEntry(lock, language, namespace, key);
+  return !!entry && entry.sourceHash !== hashSourceValue(currentSourceValue);
+}
@@ -0,0 +1,228 @@
+/**
+ * OpenAI-compatible translation provider implementation
+ * Works with any /v1/chat/completions endpoint: hosted APIs as well as local servers such as llama.cpp or Ollama
+ */
+
+import { getGlossaryTerms } from './glossary.js';
+import { translateMessageSegments } from './icu.js';
+import { findMissingPlaceholders, preserveVariables, restoreVariables } from './placeholders.js';
+import { TranslationProviderError } from './provider-error.js';
+import { getProviderThrottle, parseRetryAfter } from './retry.js';
+import type {
+  BatchTranslateOptions,
+  TranslateOptions,
+  TranslationContext,
+  TranslationProvider
+} from './translator-interface';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+const SYSTEM_PROMPT = [
+  'You are a professional software localization translator.',
+  'Translate the user interface string you are given into the target language.',
+  'Tokens of the form XXX_0_XXX, XXX_1_XXX, ... are placeholders: copy every one of them into the translation exactly as written, and never translate, reorder the characters of, or drop them.',
+  'Reply with the translated string only, without quotes, explanations or notes.'
+].join(' ');
+
+export interface OpenAICompatibleProviderOptions {
+  /** Base URL of the API, without /chat/completions (default: https://api.openai.com/v1) */
+  baseUrl?: string;
+  /** Model name sent with every request (default: gpt-4o-mini) */
+  model?: string;
+  /** Sampling temperature (default: 0) */
+  temperature?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+interface ChatCompletionErrorResponse {
+  error?: {
+    message?: string;
+  };
+}
+
+/**
+ * Describe a language code for the prompt, e.g. 'pt_BR' -> 'Brazilian Portuguese (pt-BR)'
+ */
+function describeLanguage(langCode: string): string {
+  const tag = langCode.replace('_', '-');
+  try {
+    const name = new Intl.DisplayNames(['en'], { type: 'language' }).of(tag);
+    return name && name !== tag ? `${name} (${tag})` : tag;
+  } catch {
+    return tag;
+  }
+}
+
+/**
+ * Build the user message with the text to translate and everything known about where it is used
+ */
+function buildUserPrompt(
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  protectedTerms: string[],
+  context?: TranslationContext
+): string {
+  const lines = [
+    `Source language: ${sourceLang ? describeLanguage(sourceLang) : 'auto-detect'}`,
+    `Target language: ${describeLanguage(targetLang)}`
+  ];
+
+  if (context?.namespace) {
+    lines.push(`Namespace: ${context.namespace}`);
+  }
+  if (context?.key) {
+    lines.push(`Key: ${context.key}`);
+  }
+  if (protectedTerms.length > 0) {
+    lines.push(`Protected terms (already replaced by placeholders, never translate): ${protectedTerms.join(', ')}`);
+  }
+
+  const neighbours = Object.entries(context?.neighbours ?? {});
+  if (neighbours.length > 0) {
+    lines.push('Neighbouring strings in the same namespace, for context only (do not translate them):');
+    for (const [key, value] of neighbours) {
+      lines.push(`- ${key}: ${value}`);
+    }
+  }
+
+  lines.push('', 'Text to translate:', text);
+
+  return lines.join('\n');
+}
+
+/**
+ * OpenAI-compatible chat completion provider
+ * Implements the TranslationProvider interface
+ */
+export class OpenAICompatibleTranslateProvider implements TranslationProvider {
+  private readonly baseUrl: string;
+  private readonly model: string;
+  private readonly temperature: number;
+
+  constructor(options: OpenAICompatibleProviderOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.model = options.model || DEFAULT_MODEL;
+    this.temperature = options.temperature ?? 0;
+  }
+
+  async translate(options: TranslateOptions): Promise<string> {
+    const { text, sourceLang, targetLang, apiKey, protectedTerms = [], glossary = [], context } = options;
+
+    if (!text.trim()) {
+      return text;
+    }
+
+    const glossaryTerms = getGlossaryTerms(glossary, targetLang);
+
+    // ICU plural/select messages are split so only their sub-messages are translated
+    const [translatedMessage] = await translateMessageSegments([text], async (segments) => {
+      const results: string[] = [];
+
+      for (const segment of segments) {
+        // Glossary terms are replaced too and restore to their forced translation
+        const { textWithPlaceholders, variableMap } = preserveVariables(segment, protectedTerms, glossaryTerms);
+        const translated = await getProviderThrottle('openai-compatible').run(() =>
+          this.requestCompletion(
+            buildUserPrompt(textWithPlaceholders, sourceLang, targetLang, protectedTerms, context),
+            apiKey
+          )
+        );
+
+        const missing = findMissingPlaceholders(translated, variableMap);
+        if (missing.length > 0) {
+          throw new Error(
+            `OpenAI-compatible API dropped placeholders ${missing.join(', ')} while translating "${text}" to ${targetLang}`
+          );
+        }
+
+        results.push(restoreVariables(translated, variableMap));
+      }
+
+      return results;
+    });
+
+    return translatedMessage;
+  }
+
+  async translateBatch(
+    texts: string[],
+    sourceLang: string,
+    targetLang: string,
+    apiKey?: string,
+    _delayMs?: number,
+    options: BatchTranslateOptions = {}
+  ): Promise<string[]> {
+    const { contexts = [], ...rest } = options;
+    const results: string[] = [];
+
+    // One request per text, so each string gets its own context and placeholder check
+    for (let i = 0; i < texts.length; i++) {
+      const translated = await this.translate({
+        ...rest,
+        text: texts[i],
+        sourceLang,
+        targetLang,
+        apiKey,
+        context: contexts[i]
+      });
+      results.push(translated);
+    }
+
+    return results;
+  }
+
+  /**
+   * Send a single chat completion request and return the trimmed reply
+   */
+  private async requestCompletion(userPrompt: string, apiKey?: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Local servers usually run without authentication
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: this.temperature,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: userPrompt }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = (await response.json().catch(() => ({}))) as ChatCompletionErrorResponse;
+      throw new TranslationProviderError(
+        `OpenAI-compatible API error: ${errorData.error?.message || response.statusText} (${response.status})`,
+        'openai-compatible',
+        response.status,
+        parseRetryAfter(response.headers?.get('retry-after'))
+      );
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new Error('OpenAI-compatible API returned no translation');
+    }
+
+    return content.trim();
+  }
+
+  async validateConfig(): Promise<boolean> {
+    // API keys are optional, local servers work without one
+    return true;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Placeholder utilities shared by translation providers
+ * Protected terms, glossary terms and interpolation variables are swapped for placeholders before
+ * text is sent to a translation service, and swapped back afterwards.
+ */
+
+import { applyGlossaryCase, createGlossaryPattern, type GlossaryTerm } from './glossary.js';
+
+/**
+ * Replace protected terms and {{variable}} / {variable} interpolations with
+ * unique placeholders (e.g. XXX_0_XXX) before sending text to the translation API.
+ * Placeholders use uppercase letters and underscores — a format translation
+ * models treat as technical tokens and leave untouched.
+ * Glossary terms are replaced too, but restore to their forced translation instead of the source term.
+ * They are replaced last, so a term inside an interpolation ({{workspace}}) is left alone.
+ */
+export function preserveVariables(
+  text: string,
+  protectedTerms: string[] = [],
+  glossaryTerms: GlossaryTerm[] = []
+): {
+  textWithPlaceholders: string;
+  variableMap: Map<string, string>;
+} {
+  const variableMap = new Map<string, string>();
+  let placeholderIndex = 0;
+  let result = text;
+
+  // Replace protected terms first so they aren't caught by the variable patterns below
+  for (const term of protectedTerms) {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    result = result.replace(new RegExp(escaped, 'g'), () => {
+      const placeholder = `XXX_${placeholderIndex}_XXX`;
+      variableMap.set(placeholder, term);
+      placeholderIndex++;
+      return placeholder;
+    });
+  }
+
+  // Match both {{variable}} and {variable} patterns
+  // Process {{...}} first to avoid partial matches
+  result = result
+    .replace(/\{\{([^}]+)\}\}/g, (match) => {
+      const placeholder = `XXX_${placeholderIndex}_XXX`;
+      variableMap.set(placeholder, match);
+      placeholderIndex++;
+      return placeholder;
+    })
+    .replace(/\{([^}]+)\}/g, (match) => {
+      const placeholder = `XXX_${placeholderIndex}_XXX`;
+      variableMap.set(placeholder, match);
+      placeholderIndex++;
+      return placeholder;
+    });
+
+  for (const term of glossaryTerms) {
+    result = result.replace(createGlossaryPattern(term.term, term), (match) => {
+      const placeholder = `XXX_${placeholderIndex}_XXX`;
+      variableMap.set(placeholder, applyGlossaryCase(match, term));
+      placeholderIndex++;
+      return placeholder;
+    });
+  }
+
+  return { textWithPlaceholders: result, variableMap };
+}
+
+/**
+ * Restore all placeholders back to their original values.
+ */
+export function restoreVariables(text: string, variableMap: Map<string, string>): string {
+  let result = text;
+  for (const [placeholder, original] of variableMap) {
+    result = result.replace(new RegExp(placeholder, 'g'), original);
+  }
+  return result;
+}
+
+/**
+ * Find placeholders that were lost or altered by the translation service
+ */
+export function findMissingPlaceholders(text: string, variableMap: Map<string, string>): string[] {
+  return Array.from(variableMap.keys()).filter((placeholder) => !text.includes(placeholder));
+}
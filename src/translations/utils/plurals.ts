@@ -0,0 +1,145 @@
+/**
+ * Plural form utilities
+ * Work out which plural-suffixed keys (i18next style: items_one, items_other) each language needs,
+ * using the CLDR plural rules built into Intl.PluralRules
+ */
+
+import type { TranslationFile } from '../core/types.js';
+
+export const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'] as const;
+
+export type PluralCategory = (typeof PLURAL_CATEGORIES)[number];
+
+export const PLURAL_SUFFIXES = PLURAL_CATEGORIES.map((category) => `_${category}` as const);
+
+/**
+ * A plural-suffixed key split into its base key and category
+ */
+export interface PluralKey {
+  baseKey: string;
+  category: PluralCategory;
+  /** i18next ordinal keys (place_ordinal_one) use the ordinal rules */
+  ordinal: boolean;
+}
+
+/**
+ * Split a plural-suffixed key (e.g. "items_few" -> "items" + "few")
+ */
+export function parsePluralKey(key: string): PluralKey | null {
+  for (const category of PLURAL_CATEGORIES) {
+    const suffix = `_${category}`;
+
+    if (key.endsWith(suffix) && key.length > suffix.length) {
+      const baseKey = key.slice(0, -suffix.length);
+      return { baseKey, category, ordinal: baseKey.endsWith('_ordinal') };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * CLDR plural categories a language needs, in canonical order
+ * Language codes use underscores (pt_br) or hyphens (pt-BR); unknown languages return null
+ */
+export function getPluralCategories(language: string, ordinal = false): PluralCategory[] | null {
+  const [baseLanguage, ...subtags] = language.split(/[-_]/);
+
+  for (const locale of [[baseLanguage, ...subtags].join('-'), baseLanguage]) {
+    try {
+      if (Intl.PluralRules.supportedLocalesOf(locale).length === 0) {
+        continue;
+      }
+
+      const categories = new Intl.PluralRules(locale, { type: ordinal ? 'ordinal' : 'cardinal' }).resolvedOptions()
+        .pluralCategories as PluralCategory[];
+      return PLURAL_CATEGORIES.filter((category) => categories.includes(category));
+    } catch {
+      // Invalid language tag, try the base language
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Plural groups of a source file: base keys that have an `_other` form and aren't a key themselves
+ */
+function getSourcePluralGroups(sourceFile: TranslationFile): Map<string, PluralKey[]> {
+  const groups = new Map<string, PluralKey[]>();
+
+  for (const key of Object.keys(sourceFile)) {
+    const pluralKey = parsePluralKey(key);
+
+    if (pluralKey && sourceFile[pluralKey.baseKey] === undefined) {
+      groups.set(pluralKey.baseKey, [...(groups.get(pluralKey.baseKey) ?? []), pluralKey]);
+    }
+  }
+
+  for (const [baseKey, forms] of groups) {
+    if (!forms.some((form) => form.category === 'other')) {
+      groups.delete(baseKey);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Keys a language should have for a source file, mapped to the source key each one is translated from
+ * Plural groups get the plural forms of the target language instead of the source's set: a form the
+ * source doesn't have (Polish `_few`) is translated from the source's `_other`. A `_zero` form in the
+ * source is kept in every language, as i18next uses it for a count of 0 regardless of the plural rules
+ */
+export function getExpectedTranslationKeys(sourceFile: TranslationFile, language: string): Map<string, string> {
+  const expected = new Map<string, string>();
+  const groups = getSourcePluralGroups(sourceFile);
+
+  for (const key of Object.keys(sourceFile)) {
+    const pluralKey = parsePluralKey(key);
+    const forms = pluralKey && groups.get(pluralKey.baseKey);
+
+    if (!pluralKey || !forms) {
+      expected.set(key, key);
+      continue;
+    }
+
+    // Expand the whole group once, at the position of its first form
+    if (forms[0].category !== pluralKey.category) {
+      continue;
+    }
+
+    const categories = getPluralCategories(language, pluralKey.ordinal);
+    const sourceCategories = forms.map((form) => form.category);
+    const targetCategories = categories
+      ? PLURAL_CATEGORIES.filter(
+          (category) => categories.includes(category) || (category === 'zero' && sourceCategories.includes('zero'))
+        )
+      : sourceCategories;
+
+    for (const category of targetCategories) {
+      const sourceCategory = sourceCategories.includes(category) ? category : 'other';
+      expected.set(`${pluralKey.baseKey}_${category}`, `${pluralKey.baseKey}_${sourceCategory}`);
+    }
+  }
+
+  return expected;
+}
+
+/**
+ * Keys of a target file that are plural forms of a source plural group its language doesn't use
+ * (e.g. `items_one` in Japanese)
+ */
+export function getSuperfluousPluralForms(
+  sourceFile: TranslationFile,
+  targetFile: TranslationFile,
+  language: string
+): string[] {
+  const groups = getSourcePluralGroups(sourceFile);
+  const expected = getExpectedTranslationKeys(sourceFile, language);
+
+  return Object.keys(targetFile).filter((key) => {
+    const pluralKey = parsePluralKey(key);
+    return !!pluralKey && groups.has(pluralKey.baseKey) && !expected.has(key);
+  });
+}
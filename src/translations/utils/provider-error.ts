@@ -0,0 +1,33 @@
+/**
+ * Errors raised by translation providers
+ */
+
+/**
+ * Error returned by a translation service, with the HTTP status when one is known
+ */
+export class TranslationProviderError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  /** How long the service asked to wait before retrying (from the Retry-After header) */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, provider: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'TranslationProviderError';
+    this.provider = provider;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Whether an error means the service is unavailable right now rather than the request being wrong:
+ * server errors (5xx), rate limiting (429) and DeepL's quota exceeded (456)
+ */
+export function isProviderUnavailableError(error: unknown): boolean {
+  if (!(error instanceof TranslationProviderError) || error.status === undefined) {
+    return false;
+  }
+
+  return error.status >= 500 || error.status === 429 || error.status === 456;
+}
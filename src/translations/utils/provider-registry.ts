@@ -0,0 +1,246 @@
+/**
+ * Translation provider registry
+ * Maps provider names to factories and creates the provider described by .translationsrc.json
+ */
+
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+  isBuiltInProvider,
+  providerRequiresApiKey,
+  TRANSLATION_PROVIDERS,
+  type TranslationProviderType
+} from '../core/schema.js';
+import type { ProviderSetting, TranslationConfig } from '../core/types.js';
+import { DeepLTranslateProvider } from './deepl-translate-provider.js';
+import { FailoverTranslateProvider } from './failover-translate-provider.js';
+import { GoogleTranslateProvider } from './google-translate-provider.js';
+import { OpenAICompatibleTranslateProvider } from './openai-compatible-translate-provider.js';
+import { configureProviderThrottle, RetryingTranslationProvider } from './retry.js';
+import { TranslationMemory } from './translation-memory.js';
+import { hasCustomTranslationProvider, setConfiguredTranslationProvider, setTranslationMemory } from './translator.js';
+import type { TranslationProvider, TranslationProviderFactory } from './translator-interface';
+
+/**
+ * Throttle name used for providers loaded from providerModule
+ */
+const CUSTOM_PROVIDER_NAME = 'custom';
+
+/**
+ * Registered provider factories, keyed by provider name
+ */
+const registry = new Map<string, TranslationProviderFactory>();
+
+/**
+ * Register a provider factory under a name
+ * Registering an existing name replaces it, which allows overriding the built-in providers
+ */
+export function registerTranslationProvider(name: string, factory: TranslationProviderFactory): void {
+  registry.set(name, factory);
+}
+
+/**
+ * Remove a registered provider factory
+ */
+export function unregisterTranslationProvider(name: string): void {
+  registry.delete(name);
+}
+
+/**
+ * Get the factory registered under a name, if any
+ */
+export function getRegisteredTranslationProvider(name: string): TranslationProviderFactory | undefined {
+  return registry.get(name);
+}
+
+/**
+ * List the names of all registered providers
+ */
+export function listTranslationProviders(): string[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Register the providers shipped with poly-lexis
+ */
+function registerBuiltInProviders(): void {
+  registerTranslationProvider('deepl', () => new DeepLTranslateProvider());
+  registerTranslationProvider('google', () => new GoogleTranslateProvider());
+  registerTranslationProvider(
+    'openai-compatible',
+    (config) => new OpenAICompatibleTranslateProvider(config?.openaiCompatible)
+  );
+}
+
+registerBuiltInProviders();
+
+/**
+ * Whether a value looks like a TranslationProvider instance
+ */
+function isTranslationProvider(value: unknown): value is TranslationProvider {
+  const candidate = value as TranslationProvider | null;
+  return !!candidate && typeof candidate.translate === 'function' && typeof candidate.translateBatch === 'function';
+}
+
+/**
+ * Load a provider factory from a local module
+ *
+ * The module must export a `TranslationProviderFactory` as its default export or as `createTranslationProvider`.
+ * A default-exported provider class (like examples/custom-provider-template.ts) is accepted as well.
+ *
+ * @param projectRoot - Directory the module path is resolved against
+ * @param modulePath - Path to the module, relative to projectRoot
+ */
+export async function loadProviderModule(projectRoot: string, modulePath: string): Promise<TranslationProviderFactory> {
+  const resolvedPath = path.resolve(projectRoot, modulePath);
+  const loaded = (await import(pathToFileURL(resolvedPath).href)) as {
+    default?: unknown;
+    createTranslationProvider?: unknown;
+  };
+  const exported = loaded.createTranslationProvider ?? loaded.default;
+
+  if (typeof exported !== 'function') {
+    throw new Error(
+      `Provider module ${modulePath} must export a TranslationProviderFactory as default or createTranslationProvider`
+    );
+  }
+
+  // Classes can't be called without `new`, so detect them through their prototype
+  const prototype = (exported as { prototype?: unknown }).prototype;
+  if (isTranslationProvider(prototype)) {
+    const ProviderClass = exported as new () => TranslationProvider;
+    return () => new ProviderClass();
+  }
+
+  return exported as TranslationProviderFactory;
+}
+
+/**
+ * Create the translation provider described by the config
+ * A configured providerModule takes precedence over the provider name. A provider chain or
+ * per-language overrides produce a FailoverTranslateProvider
+ *
+ * @param projectRoot - Project root, used to resolve providerModule
+ * @param config - Translation config
+ */
+export async function createProviderFromConfig(
+  projectRoot: string,
+  config: TranslationConfig
+): Promise<TranslationProvider> {
+  if (config.providerModule) {
+    const factory = await loadProviderModule(projectRoot, config.providerModule);
+    const provider = factory(config);
+
+    if (!isTranslationProvider(provider)) {
+      throw new Error(`Provider module ${config.providerModule} did not return a TranslationProvider`);
+    }
+
+    return new RetryingTranslationProvider(CUSTOM_PROVIDER_NAME, provider);
+  }
+
+  const chain = toProviderChain(config.provider);
+  const overrides: Record<string, string[]> = {};
+  for (const [language, setting] of Object.entries(config.providerOverrides ?? {})) {
+    overrides[language] = toProviderChain(setting);
+  }
+
+  // A single provider without overrides needs no routing
+  if (chain.length === 1 && Object.keys(overrides).length === 0) {
+    return createNamedProvider(chain[0], config);
+  }
+
+  const providers = new Map<string, TranslationProvider>();
+  for (const name of [...chain, ...Object.values(overrides).flat()]) {
+    if (!providers.has(name)) {
+      providers.set(name, createNamedProvider(name, config));
+    }
+  }
+
+  return new FailoverTranslateProvider(providers, chain, overrides);
+}
+
+/**
+ * Create a provider from its registered factory
+ */
+function createNamedProvider(name: string, config: TranslationConfig): TranslationProvider {
+  const factory = getRegisteredTranslationProvider(name);
+
+  if (!factory) {
+    throw new Error(
+      `Unknown translation provider "${name}". Registered providers: ${listTranslationProviders().join(', ')}`
+    );
+  }
+
+  const provider = factory(config);
+
+  // Built-in providers throttle each HTTP request themselves; others are throttled per call
+  return isBuiltInProvider(name) ? provider : new RetryingTranslationProvider(name, provider);
+}
+
+/**
+ * Apply the retry and rate limit settings of the config to every provider throttle
+ */
+export function configureProviderThrottles(config: Pick<TranslationConfig, 'retry' | 'rateLimit'>): void {
+  const rateLimits = config.rateLimit ?? {};
+  const names = new Set([...TRANSLATION_PROVIDERS, CUSTOM_PROVIDER_NAME, ...Object.keys(rateLimits)]);
+
+  for (const name of names) {
+    configureProviderThrottle(name, rateLimits[name] ?? {}, config.retry ?? {});
+  }
+}
+
+/**
+ * Normalize a provider setting to an ordered chain of provider names
+ */
+export function toProviderChain(setting?: ProviderSetting): TranslationProviderType[] {
+  const chain = Array.isArray(setting) ? setting : setting ? [setting] : [];
+  return chain.length > 0 ? chain : ['deepl'];
+}
+
+/**
+ * The first provider of the configured chain
+ * Its API key is the one passed with --api-key or read from its environment variable
+ */
+export function getPrimaryProvider(config: Pick<TranslationConfig, 'provider'>): TranslationProviderType {
+  return toProviderChain(config.provider)[0];
+}
+
+/**
+ * Providers whose translations can be reused for a target language: its provider chain,
+ * or 'custom' when translations come from providerModule
+ */
+export function getMemoryProviders(config: TranslationConfig, targetLang: string): string[] {
+  if (config.providerModule) {
+    return [CUSTOM_PROVIDER_NAME];
+  }
+
+  const override = config.providerOverrides?.[targetLang] ?? config.providerOverrides?.[targetLang.toLowerCase()];
+  return toProviderChain(override ?? config.provider);
+}
+
+/**
+ * Create the provider described by the config and make it the active provider
+ * A provider set with setTranslationProvider still takes precedence.
+ * Also loads the project's translation memory unless `translationMemory` is false.
+ */
+export async function useConfiguredTranslationProvider(projectRoot: string, config: TranslationConfig): Promise<void> {
+  configureProviderThrottles(config);
+  setTranslationMemory(config.translationMemory === false ? null : TranslationMemory.load(projectRoot), (targetLang) =>
+    getMemoryProviders(config, targetLang)
+  );
+
+  // Don't load provider modules that would never be used
+  if (hasCustomTranslationProvider()) {
+    return;
+  }
+
+  setConfiguredTranslationProvider(await createProviderFromConfig(projectRoot, config));
+}
+
+/**
+ * Whether translating with this config needs an API key
+ * Providers loaded from a module handle their own credentials
+ */
+export function configRequiresApiKey(config: Pick<TranslationConfig, 'provider' | 'providerModule'>): boolean {
+  return !config.providerModule && providerRequiresApiKey(getPrimaryProvider(config));
+}
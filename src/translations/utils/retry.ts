@@ -0,0 +1,254 @@
+/**
+ * Retry and rate limiting for translation providers
+ * Every request goes through a per-provider throttle: a token bucket limits the request rate,
+ * and transient failures are retried with jittered exponential backoff (or after Retry-After)
+ */
+
+import type { RateLimitOptions, RetryOptions } from '../core/types.js';
+import { TranslationProviderError } from './provider-error.js';
+import type {
+  BatchTranslateOptions,
+  ProviderBatchResult,
+  TranslateOptions,
+  TranslationProvider
+} from './translator-interface';
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000
+};
+
+export const DEFAULT_RATE_LIMIT: Required<RateLimitOptions> = {
+  requestsPerSecond: 10,
+  burst: 10
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Whether a failed request is worth retrying: server errors, rate limiting and network failures
+ * Quota errors (DeepL 456) won't recover within a retry window, so they are not retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TranslationProviderError) {
+    return error.status !== undefined && (error.status >= 500 || error.status === 429);
+  }
+
+  // fetch rejects with a TypeError carrying the network error as its cause ("fetch failed") when the connection
+  // fails; other TypeErrors are programming errors that a retry won't fix
+  return error instanceof TypeError && (error.message === 'fetch failed' || error.cause !== undefined);
+}
+
+/**
+ * Wait before the next attempt: Retry-After when the service sent one, otherwise
+ * "full jitter" exponential backoff, a random delay between 0 and base * 2^attempt
+ */
+export function computeRetryDelay(
+  attempt: number,
+  error: unknown,
+  options: Required<RetryOptions>,
+  random: () => number = Math.random
+): number {
+  const retryAfterMs = error instanceof TranslationProviderError ? error.retryAfterMs : undefined;
+
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, options.maxDelayMs);
+  }
+
+  return Math.floor(random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt));
+}
+
+/**
+ * Token bucket rate limiter
+ * Holds up to `burst` tokens and refills `requestsPerSecond` tokens per second; every request takes one
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly requestsPerSecond: number,
+    private readonly burst: number
+  ) {
+    this.tokens = burst;
+  }
+
+  /**
+   * Wait until a token is available and take it
+   * Waiters are served in call order
+   */
+  take(): Promise<void> {
+    this.queue = this.queue.then(async () => {
+      this.refill();
+
+      if (this.tokens < 1) {
+        await sleep(Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000));
+        this.refill();
+      }
+
+      this.tokens -= 1;
+    });
+
+    return this.queue;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Rate limit and retry policy for one provider
+ */
+export class RequestThrottle {
+  private readonly bucket: TokenBucket | null;
+  private readonly retry: Required<RetryOptions>;
+
+  constructor(
+    private readonly name: string,
+    rateLimit: RateLimitOptions | false = {},
+    retry: RetryOptions = {}
+  ) {
+    if (rateLimit === false) {
+      this.bucket = null;
+    } else {
+      const requestsPerSecond = rateLimit.requestsPerSecond ?? DEFAULT_RATE_LIMIT.requestsPerSecond;
+      this.bucket = new TokenBucket(requestsPerSecond, rateLimit.burst ?? requestsPerSecond);
+    }
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...retry };
+  }
+
+  /**
+   * Run a request, waiting for the rate limiter before every attempt and retrying transient failures
+   */
+  async run<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket?.take();
+
+      try {
+        return await request();
+      } catch (error) {
+        if (attempt >= this.retry.maxRetries || !isRetryableError(error)) {
+          throw error;
+        }
+
+        const delay = computeRetryDelay(attempt, error, this.retry);
+        console.warn(
+          `⚠️  ${this.name}: ${error instanceof Error ? error.message : 'request failed'}, retrying in ${delay}ms (${attempt + 1}/${this.retry.maxRetries})`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+/**
+ * Throttles shared by every instance of a provider, keyed by provider name
+ */
+const throttles = new Map<string, RequestThrottle>();
+
+/**
+ * Get the throttle for a provider, creating one with the default policy on first use
+ * Built-in providers run every HTTP request through it, so requests are rate limited and transient failures retried
+ */
+export function getProviderThrottle(name: string): RequestThrottle {
+  let throttle = throttles.get(name);
+  if (!throttle) {
+    throttle = new RequestThrottle(name);
+    throttles.set(name, throttle);
+  }
+  return throttle;
+}
+
+/**
+ * Replace the rate limit and retry policy of a provider
+ * Pass `rateLimit: false` to disable rate limiting
+ */
+export function configureProviderThrottle(
+  name: string,
+  rateLimit: RateLimitOptions | false = {},
+  retry: RetryOptions = {}
+): void {
+  throttles.set(name, new RequestThrottle(name, rateLimit, retry));
+}
+
+/**
+ * Forget all configured throttles, going back to the default policy
+ */
+export function resetProviderThrottles(): void {
+  throttles.clear();
+}
+
+/**
+ * Adds the shared retry and rate limit layer to providers that don't use it themselves
+ * (providers loaded from a module or registered at runtime). Each call counts as one request.
+ */
+export class RetryingTranslationProvider implements TranslationProvider {
+  constructor(
+    private readonly name: string,
+    private readonly inner: TranslationProvider
+  ) {}
+
+  translate(options: TranslateOptions): Promise<string> {
+    return getProviderThrottle(this.name).run(() => this.inner.translate(options));
+  }
+
+  translateBatch(
+    texts: string[],
+    sourceLang: string,
+    targetLang: string,
+    apiKey?: string,
+    delayMs?: number,
+    options?: BatchTranslateOptions
+  ): Promise<string[]> {
+    return getProviderThrottle(this.name).run(() =>
+      this.inner.translateBatch(texts, sourceLang, targetLang, apiKey, delayMs, options)
+    );
+  }
+
+  async translateBatchWithProvider(
+    texts: string[],
+    sourceLang: string,
+    targetLang: string,
+    apiKey?: string,
+    delayMs?: number,
+    options?: BatchTranslateOptions
+  ): Promise<ProviderBatchResult> {
+    const translateWithProvider = this.inner.translateBatchWithProvider?.bind(this.inner);
+
+    if (translateWithProvider) {
+      return getProviderThrottle(this.name).run(() =>
+        translateWithProvider(texts, sourceLang, targetLang, apiKey, delayMs, options)
+      );
+    }
+
+    return { translations: await this.translateBatch(texts, sourceLang, targetLang, apiKey, delayMs, options) };
+  }
+
+  validateConfig(): Promise<boolean> {
+    return this.inner.validateConfig ? this.inner.validateConfig() : Promise.resolve(true);
+  }
+}
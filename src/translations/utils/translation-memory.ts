@@ -0,0 +1,455 @@
+/**
+ * Translation memory
+ * Remembers every machine translation, so the same source text is only paid for once per
+ * provider and language pair, and repeated strings ("Save", "Cancel") keep the same wording
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Memory file name, stored in the project root next to .translationsrc.json
+ */
+export const TRANSLATION_MEMORY_FILE = '.translation-memory.json';
+
+/**
+ * Provider recorded for entries imported from a TMX file without an x-provider property
+ */
+export const IMPORTED_PROVIDER = 'tmx';
+
+const MEMORY_VERSION = 1;
+
+export interface TranslationMemoryEntry {
+  /** Provider that produced the translation (or 'tmx' for imported entries) */
+  provider: string;
+  sourceLang: string;
+  targetLang: string;
+  /** Source text */
+  source: string;
+  /** Translated text */
+  target: string;
+  /** Protected terms the translation was made with, sorted */
+  protectedTerms?: string[];
+  /** Glossary terms the translation was made with ("term -> translation"), sorted */
+  glossary?: string[];
+  /** ISO date the entry was added */
+  createdAt: string;
+  /** ISO date the entry was last reused */
+  lastUsedAt: string;
+  /** Number of times the entry was reused instead of calling the provider */
+  hits: number;
+}
+
+/**
+ * What a translation is looked up by
+ */
+export interface TranslationMemoryQuery {
+  sourceLang: string;
+  targetLang: string;
+  text: string;
+  protectedTerms?: string[];
+  /** Glossary terms for the target language, see describeGlossaryTerms */
+  glossary?: string[];
+}
+
+export interface TranslationMemoryStats {
+  entries: number;
+  hits: number;
+  /** Entry count per "source -> target" language pair */
+  languagePairs: Record<string, number>;
+  /** Entry count per provider */
+  providers: Record<string, number>;
+}
+
+export interface PruneTranslationMemoryOptions {
+  /** Remove entries not used for this many days */
+  olderThanDays?: number;
+  /** Only remove entries for this target language */
+  language?: string;
+  /** Only remove entries produced by this provider */
+  provider?: string;
+  /** Reference date (default: now) */
+  now?: Date;
+}
+
+function normalizeTerms(protectedTerms: string[] = []): string[] {
+  return [...new Set(protectedTerms)].sort();
+}
+
+/**
+ * Imported units never carry protected terms or a glossary, so they are keyed by language pair and text only
+ */
+function createEntryKey(
+  provider: string,
+  sourceLang: string,
+  targetLang: string,
+  text: string,
+  protectedTerms: string[],
+  glossary: string[]
+): string {
+  const terms = provider === IMPORTED_PROVIDER ? [] : [protectedTerms, glossary];
+  return JSON.stringify([provider, sourceLang.toLowerCase(), targetLang.toLowerCase(), text, ...terms]);
+}
+
+function entryKey(entry: TranslationMemoryEntry): string {
+  return createEntryKey(
+    entry.provider,
+    entry.sourceLang,
+    entry.targetLang,
+    entry.source,
+    normalizeTerms(entry.protectedTerms),
+    normalizeTerms(entry.glossary)
+  );
+}
+
+/**
+ * Translation memory backed by a JSON file
+ * Entries are keyed by provider, source language, target language, source text, protected terms
+ * and the glossary terms of the target language (imported entries by language pair and text only)
+ */
+export class TranslationMemory {
+  private readonly entries = new Map<string, TranslationMemoryEntry>();
+  private dirty = false;
+
+  constructor(
+    readonly filePath: string,
+    entries: TranslationMemoryEntry[] = []
+  ) {
+    for (const entry of entries) {
+      this.entries.set(entryKey(entry), entry);
+    }
+  }
+
+  /**
+   * Load the memory of a project, starting empty when the file doesn't exist yet
+   */
+  static load(projectRoot: string): TranslationMemory {
+    const filePath = path.join(projectRoot, TRANSLATION_MEMORY_FILE);
+
+    if (!fs.existsSync(filePath)) {
+      return new TranslationMemory(filePath);
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { entries?: TranslationMemoryEntry[] };
+    return new TranslationMemory(filePath, parsed.entries ?? []);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Find a translation made by one of the given providers (in order)
+   * Imported entries are preferred, since agency memories are usually reviewed by a person.
+   * A hit updates the entry's usage statistics.
+   */
+  lookup(providers: string[], query: TranslationMemoryQuery): TranslationMemoryEntry | undefined {
+    const terms = normalizeTerms(query.protectedTerms);
+    const glossary = normalizeTerms(query.glossary);
+
+    for (const provider of [IMPORTED_PROVIDER, ...providers]) {
+      const entry = this.entries.get(
+        createEntryKey(provider, query.sourceLang, query.targetLang, query.text, terms, glossary)
+      );
+
+      if (entry) {
+        entry.hits += 1;
+        entry.lastUsedAt = new Date().toISOString();
+        this.dirty = true;
+        return entry;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Remember a translation, replacing any previous translation of the same text by the same provider
+   */
+  store(provider: string, query: TranslationMemoryQuery, target: string): void {
+    const now = new Date().toISOString();
+    const protectedTerms = normalizeTerms(query.protectedTerms);
+    const glossary = normalizeTerms(query.glossary);
+
+    this.add({
+      provider,
+      sourceLang: query.sourceLang,
+      targetLang: query.targetLang,
+      source: query.text,
+      target,
+      ...(protectedTerms.length > 0 && { protectedTerms }),
+      ...(glossary.length > 0 && { glossary }),
+      createdAt: now,
+      lastUsedAt: now,
+      hits: 0
+    });
+  }
+
+  /**
+   * Add a complete entry (e.g. from an import)
+   */
+  add(entry: TranslationMemoryEntry): void {
+    this.entries.set(entryKey(entry), entry);
+    this.dirty = true;
+  }
+
+  /**
+   * All entries, sorted by language pair, source text and provider
+   */
+  list(): TranslationMemoryEntry[] {
+    return [...this.entries.values()].sort(
+      (a, b) =>
+        a.sourceLang.localeCompare(b.sourceLang) ||
+        a.targetLang.localeCompare(b.targetLang) ||
+        a.source.localeCompare(b.source) ||
+        a.provider.localeCompare(b.provider)
+    );
+  }
+
+  stats(): TranslationMemoryStats {
+    const stats: TranslationMemoryStats = { entries: this.entries.size, hits: 0, languagePairs: {}, providers: {} };
+
+    for (const entry of this.entries.values()) {
+      const pair = `${entry.sourceLang} -> ${entry.targetLang}`;
+      stats.hits += entry.hits;
+      stats.languagePairs[pair] = (stats.languagePairs[pair] ?? 0) + 1;
+      stats.providers[entry.provider] = (stats.providers[entry.provider] ?? 0) + 1;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Remove entries matching every given criterion
+   * @returns Number of removed entries
+   */
+  prune(options: PruneTranslationMemoryOptions = {}): number {
+    const { olderThanDays, language, provider, now = new Date() } = options;
+    const cutoff = olderThanDays === undefined ? undefined : now.getTime() - olderThanDays * 24 * 60 * 60 * 1000;
+    let removed = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (
+        (cutoff === undefined || Date.parse(entry.lastUsedAt) < cutoff) &&
+        (!language || entry.targetLang.toLowerCase() === language.toLowerCase()) &&
+        (!provider || entry.provider === provider)
+      ) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.dirty = true;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Write the memory file if anything changed since it was loaded or last saved
+   */
+  save(): void {
+    if (!this.dirty) {
+      return;
+    }
+
+    fs.writeFileSync(
+      this.filePath,
+      `${JSON.stringify({ version: MEMORY_VERSION, entries: this.list() }, null, 2)}\n`,
+      'utf-8'
+    );
+    this.dirty = false;
+  }
+}
+
+/**
+ * Convert a language code to a BCP 47 tag for TMX (pt_br -> pt-BR, zh_hans -> zh-Hans)
+ */
+function toTmxLanguage(language: string): string {
+  const [primary, ...subtags] = language.split(/[-_]/);
+
+  return [
+    primary.toLowerCase(),
+    ...subtags.map((subtag) =>
+      subtag.length === 2
+        ? subtag.toUpperCase()
+        : subtag.length === 4
+          ? subtag[0].toUpperCase() + subtag.slice(1).toLowerCase()
+          : subtag
+    )
+  ].join('-');
+}
+
+/**
+ * Convert a TMX language tag to the language code used in the config (pt-BR -> pt_br)
+ * With the configured languages, a region tag resolves to the configured language when only that one is
+ * configured (de-DE -> de), and a base tag to the only configured variant of it (pt -> pt_br)
+ */
+function fromTmxLanguage(language: string, languages: string[] = []): string {
+  const code = language.toLowerCase().replace(/-/g, '_');
+  const configured = languages.find((item) => item.toLowerCase() === code);
+
+  if (configured) {
+    return configured;
+  }
+
+  const base = code.split('_')[0];
+  const baseLanguage = languages.find((item) => item.toLowerCase() === base);
+  if (baseLanguage) {
+    return baseLanguage;
+  }
+
+  const variants = languages.filter((item) => item.toLowerCase().split(/[-_]/)[0] === base);
+  return variants.length === 1 ? variants[0] : code;
+}
+
+/**
+ * TMX dates are ISO 8601 basic format (20260101T120000Z)
+ */
+function toTmxDate(isoDate: string): string {
+  return `${isoDate.replace(/[-:]/g, '').split('.')[0].replace(/Z$/, '')}Z`;
+}
+
+function fromTmxDate(tmxDate: string | undefined): string | undefined {
+  const match = tmxDate?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}.000Z` : undefined;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1].toLowerCase() === 'x' ? Number.parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return String.fromCodePoint(codePoint);
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[name.toLowerCase()] ?? entity;
+  });
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? unescapeXml(match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * Text content of a <seg>, keeping the native code of inline markup (<ph>, <bpt>, ...) and dropping the tags
+ */
+function readSegment(segment: string): string {
+  return unescapeXml(segment.replace(/<\/?(?:bpt|ept|ph|it|hi|ut|sub)\b[^>]*>/gi, ''));
+}
+
+/**
+ * Serialize memory entries as a TMX 1.4 document
+ * Each entry becomes a translation unit with a source and a target variant; the provider and
+ * protected terms are kept as x- properties so a round trip restores the same keys
+ */
+export function toTmx(entries: TranslationMemoryEntry[]): string {
+  const sourceLanguages = new Set(entries.map((entry) => entry.sourceLang));
+  const srclang = sourceLanguages.size === 1 ? toTmxLanguage([...sourceLanguages][0]) : '*all*';
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="poly-lexis" creationtoolversion="1" datatype="plaintext" segtype="sentence" adminlang="en" srclang="${srclang}" o-tmf="poly-lexis"/>`,
+    '  <body>'
+  ];
+
+  for (const entry of entries) {
+    lines.push(
+      `    <tu srclang="${toTmxLanguage(entry.sourceLang)}" creationdate="${toTmxDate(entry.createdAt)}" lastusagedate="${toTmxDate(entry.lastUsedAt)}" usagecount="${entry.hits}">`
+    );
+    lines.push(`      <prop type="x-provider">${escapeXml(entry.provider)}</prop>`);
+    if (entry.protectedTerms?.length) {
+      lines.push(`      <prop type="x-protected-terms">${escapeXml(JSON.stringify(entry.protectedTerms))}</prop>`);
+    }
+    if (entry.glossary?.length) {
+      lines.push(`      <prop type="x-glossary">${escapeXml(JSON.stringify(entry.glossary))}</prop>`);
+    }
+    lines.push(`      <tuv xml:lang="${toTmxLanguage(entry.sourceLang)}"><seg>${escapeXml(entry.source)}</seg></tuv>`);
+    lines.push(`      <tuv xml:lang="${toTmxLanguage(entry.targetLang)}"><seg>${escapeXml(entry.target)}</seg></tuv>`);
+    lines.push('    </tu>');
+  }
+
+  lines.push('  </body>', '</tmx>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Parse a TMX document into memory entries
+ * A translation unit with several target variants produces one entry per target language.
+ * Units without an x-provider property are recorded under `provider` (default: 'tmx'),
+ * which every lookup accepts. Language tags are resolved against `languages`, the configured
+ * languages, so the region tags agencies use (de-DE) match the config (de).
+ */
+export function parseTmx(
+  xml: string,
+  provider = IMPORTED_PROVIDER,
+  languages: string[] = []
+): TranslationMemoryEntry[] {
+  const header = xml.match(/<header\b[^>]*>/i)?.[0] ?? '';
+  const headerSourceLang = readAttribute(header, 'srclang');
+  const now = new Date().toISOString();
+  const entries: TranslationMemoryEntry[] = [];
+
+  for (const [, unitTag, unitBody] of xml.matchAll(/<tu\b([^>]*)>([\s\S]*?)<\/tu>/gi)) {
+    const props: Record<string, string> = {};
+    for (const [, propTag, value] of unitBody.matchAll(/<prop\b([^>]*)>([\s\S]*?)<\/prop>/gi)) {
+      const type = readAttribute(propTag, 'type');
+      if (type) {
+        props[type] = unescapeXml(value);
+      }
+    }
+
+    const variants: Array<{ lang: string; text: string }> = [];
+    for (const [, variantTag, variantBody] of unitBody.matchAll(/<tuv\b([^>]*)>([\s\S]*?)<\/tuv>/gi)) {
+      const lang = readAttribute(variantTag, 'xml:lang') ?? readAttribute(variantTag, 'lang');
+      const segment = variantBody.match(/<seg\b[^>]*>([\s\S]*?)<\/seg>/i);
+      if (lang && segment) {
+        variants.push({ lang, text: readSegment(segment[1]) });
+      }
+    }
+
+    const unitSourceLang = readAttribute(unitTag, 'srclang') ?? headerSourceLang;
+    const source =
+      unitSourceLang && unitSourceLang !== '*all*'
+        ? variants.find((variant) => variant.lang.toLowerCase() === unitSourceLang.toLowerCase())
+        : variants[0];
+
+    if (!source) {
+      continue;
+    }
+
+    const protectedTerms = props['x-protected-terms'] ? (JSON.parse(props['x-protected-terms']) as string[]) : [];
+    const glossary = props['x-glossary'] ? (JSON.parse(props['x-glossary']) as string[]) : [];
+    const createdAt = fromTmxDate(readAttribute(unitTag, 'creationdate')) ?? now;
+
+    for (const target of variants) {
+      if (target === source || !target.text) {
+        continue;
+      }
+
+      entries.push({
+        provider: props['x-provider'] ?? provider,
+        sourceLang: fromTmxLanguage(source.lang, languages),
+        targetLang: fromTmxLanguage(target.lang, languages),
+        source: source.text,
+        target: target.text,
+        ...(protectedTerms.length > 0 && { protectedTerms: normalizeTerms(protectedTerms) }),
+        ...(glossary.length > 0 && { glossary: normalizeTerms(glossary) }),
+        createdAt,
+        lastUsedAt: fromTmxDate(readAttribute(unitTag, 'lastusagedate')) ?? createdAt,
+        hits: Number(readAttribute(unitTag, 'usagecount') ?? 0) || 0
+      });
+    }
+  }
+
+  return entries;
+}
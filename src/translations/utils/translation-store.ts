@@ -0,0 +1,95 @@
+/**
+ * In-memory working set of translation files
+ * Lets concurrent workers update translations without re-reading or overwriting each other's files
+ */
+
+import type {
+  TranslationFile,
+  TranslationFileFormat,
+  TranslationFileStructure,
+  TranslationFiles
+} from '../core/types.js';
+import { readTranslations, sortKeys, writeTranslation } from './utils.js';
+
+/**
+ * Working set of all namespaces for a single language
+ *
+ * Files are read once when the store is created. Workers update entries in memory with `set`,
+ * and `flush` writes every namespace that changed since the last flush. Flushes are chained,
+ * so concurrent callers never interleave writes to the same file.
+ */
+export class TranslationStore {
+  private readonly translations: TranslationFiles;
+  private readonly dirtyNamespaces = new Set<string>();
+  private pendingFlush: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly translationsPath: string,
+    private readonly language: string,
+    private readonly fileStructure: TranslationFileStructure = 'auto',
+    private readonly fileFormat: TranslationFileFormat = 'auto'
+  ) {
+    this.translations = readTranslations(translationsPath, language);
+  }
+
+  /**
+   * Get the current in-memory translations for a namespace
+   */
+  getNamespace(namespace: string): TranslationFile {
+    return this.translations[namespace] || {};
+  }
+
+  /**
+   * Update a single key in memory and mark its namespace for the next flush
+   */
+  set(namespace: string, key: string, value: string): void {
+    if (!this.translations[namespace]) {
+      this.translations[namespace] = {};
+    }
+
+    this.translations[namespace][key] = value;
+    this.dirtyNamespaces.add(namespace);
+  }
+
+  /**
+   * Whether there are in-memory changes that have not been written yet
+   */
+  hasPendingChanges(): boolean {
+    return this.dirtyNamespaces.size > 0;
+  }
+
+  /**
+   * Write all changed namespaces to disk
+   * Resolves once every change made before the call has been written
+   */
+  flush(): Promise<void> {
+    // A failed flush must not block later ones, so chain onto the settled previous flush
+    this.pendingFlush = this.pendingFlush
+      .catch(() => undefined)
+      .then(() => {
+        const namespaces = Array.from(this.dirtyNamespaces);
+        this.dirtyNamespaces.clear();
+
+        for (const [index, namespace] of namespaces.entries()) {
+          try {
+            writeTranslation(
+              this.translationsPath,
+              this.language,
+              namespace,
+              sortKeys(this.translations[namespace]),
+              this.fileStructure,
+              this.fileFormat
+            );
+          } catch (error) {
+            // Keep unwritten namespaces dirty so the next flush retries them
+            for (const unwritten of namespaces.slice(index)) {
+              this.dirtyNamespaces.add(unwritten);
+            }
+            throw error;
+          }
+        }
+      });
+
+    return this.pendingFlush;
+  }
+}
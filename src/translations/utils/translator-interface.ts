@@ -3,6 +3,21 @@
  * Implement this interface to create custom translation providers
  */
 
+import type { GlossaryEntry, TranslationConfig } from '../core/types.js';
+
+/**
+ * Where a text lives in the catalogue
+ * Context-aware providers (e.g. LLMs) use it to pick the right wording
+ */
+export interface TranslationContext {
+  /** Namespace the key belongs to (e.g. 'common') */
+  namespace?: string;
+  /** Translation key (e.g. 'SAVE_BUTTON') */
+  key?: string;
+  /** Neighbouring source strings in the same namespace, keyed by translation key */
+  neighbours?: Record<string, string>;
+}
+
 /**
  * Options for translating text
  */
@@ -19,6 +34,26 @@ export interface TranslateOptions {
   useFallbackLanguages?: boolean;
   /** Words or phrases that should never be translated (e.g. brand names, product names) */
   protectedTerms?: string[];
+  /** Terms that must get a specific translation (see getGlossaryTerms) */
+  glossary?: GlossaryEntry[];
+  /** Where the text lives in the catalogue (ignored by providers that don't use context) */
+  context?: TranslationContext;
+  /** Additional provider-specific options */
+  [key: string]: unknown;
+}
+
+/**
+ * Options shared by every text in a batch translation
+ */
+export interface BatchTranslateOptions {
+  /** Enable automatic language fallback for unsupported regional variants (default: true) */
+  useFallbackLanguages?: boolean;
+  /** Words or phrases that should never be translated (e.g. brand names, product names) */
+  protectedTerms?: string[];
+  /** Terms that must get a specific translation (see getGlossaryTerms) */
+  glossary?: GlossaryEntry[];
+  /** Per-text context, aligned with the texts array */
+  contexts?: Array<TranslationContext | undefined>;
   /** Additional provider-specific options */
   [key: string]: unknown;
 }
@@ -33,6 +68,18 @@ export interface TranslationResult {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Translations of a batch together with the provider that produced them
+ */
+export interface ProviderBatchResult {
+  /** Translated texts, in the same order as the input */
+  translations: string[];
+  /** Name of the provider that produced the translations (e.g. 'deepl') */
+  provider?: string;
+  /** Provider of each translation, when they differ (e.g. some came from the translation memory) */
+  providers?: string[];
+}
+
 /**
  * Translation provider interface
  * All custom translation providers must implement this interface
@@ -51,17 +98,32 @@ export interface TranslationProvider {
    * @param sourceLang - Source language code
    * @param targetLang - Target language code
    * @param apiKey - API key or credentials (optional)
-   * @param delayMs - Optional delay between requests to avoid rate limiting
-   * @returns Promise resolving to array of translated texts
+   * @param delayMs - Deprecated: built-in providers rate limit through the shared request throttle and ignore it
+   * @param options - Options applied to every text in the batch (protected terms, fallback)
+   * @returns Promise resolving to array of translated texts, in the same order as `texts`
    */
   translateBatch(
     texts: string[],
     sourceLang: string,
     targetLang: string,
     apiKey?: string,
-    delayMs?: number
+    delayMs?: number,
+    options?: BatchTranslateOptions
   ): Promise<string[]>;
 
+  /**
+   * Optional batch translation that also reports which provider produced the result
+   * Implemented by providers that route between several services (e.g. a failover chain)
+   */
+  translateBatchWithProvider?(
+    texts: string[],
+    sourceLang: string,
+    targetLang: string,
+    apiKey?: string,
+    delayMs?: number,
+    options?: BatchTranslateOptions
+  ): Promise<ProviderBatchResult>;
+
   /**
    * Optional method to validate the provider configuration
    * @returns Promise resolving to true if configuration is valid
@@ -71,5 +133,6 @@ export interface TranslationProvider {
 
 /**
  * Type for a function that creates a translation provider
+ * Receives the project config, so providers can read their own settings from .translationsrc.json
  */
-export type TranslationProviderFactory = () => TranslationProvider;
+export type TranslationProviderFactory = (config?: TranslationConfig) => TranslationProvider;
@@ -3,8 +3,17 @@
  * Only translates content outside of {{variable}} interpolations
  */
 
+import type { GlossaryEntry } from '../core/types.js';
+import { describeGlossaryTerms, getGlossaryTerms } from './glossary.js';
 import { GoogleTranslateProvider } from './google-translate-provider';
-import type { TranslationProvider } from './translator-interface';
+import type { TranslationMemory } from './translation-memory';
+import type {
+  BatchTranslateOptions,
+  ProviderBatchResult,
+  TranslationContext,
+  TranslationProvider
+} from './translator-interface';
+import { validateVariables } from './utils.js';
 
 /**
  * Default translation provider (Google Translate)
@@ -16,8 +25,20 @@ const defaultProvider: TranslationProvider = new GoogleTranslateProvider();
  */
 let customProvider: TranslationProvider | null = null;
 
+/**
+ * Provider created from .translationsrc.json by the CLI commands
+ */
+let configuredProvider: TranslationProvider | null = null;
+
+/**
+ * Translation memory consulted before calling the provider, with the provider names whose
+ * translations may be reused for a target language
+ */
+let translationMemory: { memory: TranslationMemory; providersFor: (targetLang: string) => string[] } | null = null;
+
 /**
  * Set a custom translation provider
+ * Takes precedence over the provider configured in .translationsrc.json
  * @param provider - Custom translation provider implementing TranslationProvider interface
  */
 export function setTranslationProvider(provider: TranslationProvider): void {
@@ -25,10 +46,26 @@ export function setTranslationProvider(provider: TranslationProvider): void {
 }
 
 /**
- * Get the active translation provider (custom or default)
+ * Set the provider described by the project config
+ * Used by the CLI commands; a custom provider set with setTranslationProvider still wins
+ * @param provider - Provider created from the config, or null to clear it
+ */
+export function setConfiguredTranslationProvider(provider: TranslationProvider | null): void {
+  configuredProvider = provider;
+}
+
+/**
+ * Whether a custom provider has been set with setTranslationProvider
+ */
+export function hasCustomTranslationProvider(): boolean {
+  return customProvider !== null;
+}
+
+/**
+ * Get the active translation provider (custom, configured or default)
  */
 export function getTranslationProvider(): TranslationProvider {
-  return customProvider || defaultProvider;
+  return customProvider || configuredProvider || defaultProvider;
 }
 
 /**
@@ -36,17 +73,44 @@ export function getTranslationProvider(): TranslationProvider {
  */
 export function resetTranslationProvider(): void {
   customProvider = null;
+  configuredProvider = null;
+}
+
+/**
+ * Use a translation memory for every translation
+ * Texts found in the memory are not sent to the provider, and new translations are added to it
+ *
+ * @param memory - Translation memory, or null to stop using one
+ * @param providersFor - Providers whose translations can be reused for a target language, in order;
+ *   the first one is recorded for translations of providers that don't report their name (default: 'custom')
+ */
+export function setTranslationMemory(
+  memory: TranslationMemory | null,
+  providersFor: (targetLang: string) => string[] = () => ['custom']
+): void {
+  translationMemory = memory ? { memory, providersFor } : null;
+}
+
+/**
+ * Get the translation memory in use, if any
+ */
+export function getTranslationMemory(): TranslationMemory | null {
+  return translationMemory?.memory ?? null;
 }
 
 /**
  * Translate text using the active translation provider
  * Preserves {{variable}} interpolations by temporarily replacing them
+ * Reuses the translation memory when one is set
  *
  * @param text - Text to translate
  * @param targetLang - Target language code
  * @param sourceLang - Source language code (default: "en")
  * @param apiKey - API key for the translation service
  * @param useFallbackLanguages - Enable automatic language fallback (default: true)
+ * @param protectedTerms - Words or phrases that should never be translated
+ * @param context - Where the text lives in the catalogue (namespace, key, neighbouring strings)
+ * @param glossary - Terms that must get a specific translation
  * @returns Promise resolving to translated text
  */
 export async function translateText(
@@ -55,17 +119,32 @@ export async function translateText(
   sourceLang: string = 'en',
   apiKey?: string,
   useFallbackLanguages = true,
-  protectedTerms: string[] = []
+  protectedTerms: string[] = [],
+  context?: TranslationContext,
+  glossary: GlossaryEntry[] = []
 ): Promise<string> {
   const provider = getTranslationProvider();
-  return provider.translate({
-    text,
-    sourceLang,
-    targetLang,
-    apiKey,
+
+  if (!translationMemory) {
+    return provider.translate({
+      text,
+      sourceLang,
+      targetLang,
+      apiKey,
+      useFallbackLanguages,
+      protectedTerms,
+      glossary,
+      context
+    });
+  }
+
+  const { translations } = await translateBatchWithProvider([text], targetLang, sourceLang, apiKey, 0, {
     useFallbackLanguages,
-    protectedTerms
+    protectedTerms,
+    glossary,
+    ...(context && { contexts: [context] })
   });
+  return translations[0];
 }
 
 /**
@@ -75,7 +154,8 @@ export async function translateText(
  * @param targetLang - Target language code
  * @param sourceLang - Source language code (default: "en")
  * @param apiKey - API key for the translation service
- * @param delayMs - Delay between requests in milliseconds (default: 100)
+ * @param delayMs - Deprecated delay between requests, only used by custom providers (default: 100)
+ * @param options - Options applied to every text (protected terms, language fallback)
  * @returns Promise resolving to array of translated texts
  */
 export async function translateBatch(
@@ -83,8 +163,150 @@ export async function translateBatch(
   targetLang: string,
   sourceLang: string = 'en',
   apiKey?: string,
-  delayMs: number = 100
+  delayMs: number = 100,
+  options: BatchTranslateOptions = {}
 ): Promise<string[]> {
+  if (translationMemory) {
+    const { translations } = await translateBatchWithProvider(texts, targetLang, sourceLang, apiKey, delayMs, options);
+    return translations;
+  }
+
+  const provider = getTranslationProvider();
+  return provider.translateBatch(texts, sourceLang, targetLang, apiKey, delayMs, options);
+}
+
+/**
+ * Translate multiple texts in batch and report which provider produced them
+ * The provider is only known for providers that route between services; otherwise it is undefined.
+ * With a translation memory, only texts missing from it are sent to the provider and `providers`
+ * reports the provider of each text.
+ *
+ * @param texts - Array of texts to translate
+ * @param targetLang - Target language code
+ * @param sourceLang - Source language code (default: "en")
+ * @param apiKey - API key for the translation service
+ * @param delayMs - Deprecated delay between requests, only used by custom providers (default: 100)
+ * @param options - Options applied to every text in the batch
+ */
+export async function translateBatchWithProvider(
+  texts: string[],
+  targetLang: string,
+  sourceLang: string = 'en',
+  apiKey?: string,
+  delayMs = 100,
+  options: BatchTranslateOptions = {}
+): Promise<ProviderBatchResult> {
+  if (!translationMemory) {
+    return translateWithActiveProvider(texts, targetLang, sourceLang, apiKey, delayMs, options);
+  }
+
+  const { memory, providersFor } = translationMemory;
+  const candidates = providersFor(targetLang);
+  const glossary = describeGlossaryTerms(getGlossaryTerms(options.glossary, targetLang));
+  const queries = texts.map((text) => ({
+    sourceLang,
+    targetLang,
+    text,
+    protectedTerms: options.protectedTerms,
+    glossary
+  }));
+  const translations: string[] = [];
+  const providers: string[] = [];
+  // Indices of the texts missing from the memory, grouped so repeated texts are only sent once
+  const missing = new Map<string, number[]>();
+
+  for (const [index, query] of queries.entries()) {
+    const entry = memory.lookup(candidates, query);
+    if (entry) {
+      translations[index] = entry.target;
+      providers[index] = entry.provider;
+    } else {
+      missing.set(query.text, [...(missing.get(query.text) ?? []), index]);
+    }
+  }
+
+  let provider: string | undefined;
+
+  if (missing.size > 0) {
+    const groups = [...missing.values()];
+    const result = await translateWithActiveProvider(
+      groups.map(([index]) => texts[index]),
+      targetLang,
+      sourceLang,
+      apiKey,
+      delayMs,
+      { ...options, ...(options.contexts && { contexts: groups.map(([index]) => options.contexts?.[index]) }) }
+    );
+    provider = result.provider;
+
+    for (const [position, indices] of groups.entries()) {
+      const producedBy = result.provider ?? candidates[0];
+      // Translations that lost interpolation variables aren't remembered, so a retry asks the provider again
+      if (validateVariables(texts[indices[0]], result.translations[position])) {
+        memory.store(producedBy, queries[indices[0]], result.translations[position]);
+      }
+
+      for (const index of indices) {
+        translations[index] = result.translations[position];
+        providers[index] = producedBy;
+      }
+    }
+  }
+
+  memory.save();
+  return { translations, provider, providers };
+}
+
+/**
+ * Translate a batch with the active provider, asking it for the provider name when it can report one
+ */
+async function translateWithActiveProvider(
+  texts: string[],
+  targetLang: string,
+  sourceLang: string,
+  apiKey: string | undefined,
+  delayMs: number,
+  options: BatchTranslateOptions
+): Promise<ProviderBatchResult> {
   const provider = getTranslationProvider();
-  return provider.translateBatch(texts, sourceLang, targetLang, apiKey, delayMs);
+
+  if (provider.translateBatchWithProvider) {
+    return provider.translateBatchWithProvider(texts, sourceLang, targetLang, apiKey, delayMs, options);
+  }
+
+  return { translations: await provider.translateBatch(texts, sourceLang, targetLang, apiKey, delayMs, options) };
+}
+
+/**
+ * Build the translation context for a key: its namespace, name and a few neighbouring
+ * source strings (in key order) that help context-aware providers pick consistent wording
+ *
+ * @param sourceFile - Source language translations of the namespace
+ * @param namespace - Namespace the key belongs to
+ * @param key - Translation key
+ * @param neighbourCount - Number of strings to include on each side of the key (default: 3)
+ */
+export function buildTranslationContext(
+  sourceFile: Record<string, string>,
+  namespace: string,
+  key: string,
+  neighbourCount = 3
+): TranslationContext {
+  const keys = Object.keys(sourceFile).sort();
+  const index = keys.indexOf(key);
+  const neighbours: Record<string, string> = {};
+
+  if (index !== -1) {
+    const nearby = [
+      ...keys.slice(Math.max(0, index - neighbourCount), index),
+      ...keys.slice(index + 1, index + 1 + neighbourCount)
+    ];
+    for (const neighbourKey of nearby) {
+      if (sourceFile[neighbourKey]) {
+        neighbours[neighbourKey] = sourceFile[neighbourKey];
+      }
+    }
+  }
+
+  return { namespace, key, neighbours };
 }
@@ -1,6 +1,15 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import type { TranslationFile, TranslationFiles } from '../core/types.js';
+import type {
+  TranslationFile,
+  TranslationFileFormat,
+  TranslationFileStructure,
+  TranslationFiles
+} from '../core/types.js';
+import { createUnifiedDiff } from './diff.js';
+import { findTranslationFile, getFileAdapter, getTranslationFilePath, listTranslationFiles } from './file-formats.js';
+import { getIcuArgumentNames, hasComplexArguments, tryParseIcuMessage } from './icu.js';
+import { getExpectedTranslationKeys } from './plurals.js';
 
 /**
  * Nested translation structure (allows nested objects)
@@ -61,25 +70,23 @@ export function isNestedObject(obj: Record<string, unknown>): boolean {
   return Object.values(obj).some((value) => typeof value === 'object' && value !== null);
 }
 
+/**
+ * Read a translation file in its format (JSON or YAML), without flattening it
+ */
+function readTranslationFile(filePath: string): NestedTranslationFile {
+  const language = path.basename(path.dirname(filePath));
+  return getFileAdapter(filePath).parse(fs.readFileSync(filePath, 'utf-8'), language);
+}
+
 /**
  * Read all translation files for a specific language
  * Automatically flattens nested structures into dot notation
  */
 export function readTranslations(translationsPath: string, language: string): TranslationFiles {
-  const langPath = path.join(translationsPath, language);
-
-  if (!fs.existsSync(langPath)) {
-    return {};
-  }
-
-  const files = fs.readdirSync(langPath).filter((f) => f.endsWith('.json'));
   const translations: TranslationFiles = {};
 
-  for (const file of files) {
-    const namespace = path.basename(file, '.json');
-    const filePath = path.join(langPath, file);
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const parsed = JSON.parse(content) as NestedTranslationFile;
+  for (const [namespace, filePath] of listTranslationFiles(path.join(translationsPath, language))) {
+    const parsed = readTranslationFile(filePath);
 
     // Flatten nested structures automatically
     if (isNestedObject(parsed)) {
@@ -92,14 +99,135 @@ export function readTranslations(translationsPath: string, language: string): Tr
   return translations;
 }
 
+/**
+ * Detect the on-disk shape of a translation file
+ * Returns null when the file does not exist or its shape can't be told apart
+ * (no nested objects and no dot-notation keys)
+ */
+export function detectFileStructure(filePath: string): Exclude<TranslationFileStructure, 'auto'> | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const parsed = readTranslationFile(filePath);
+
+  if (isNestedObject(parsed)) {
+    return 'nested';
+  }
+
+  return Object.keys(parsed).some((key) => key.includes('.')) ? 'flat' : null;
+}
+
+/**
+ * Check whether flat keys can be nested without losing values
+ * e.g. "home" and "home.title" can't both exist in a nested file
+ */
+function canUnflatten(translations: TranslationFile): boolean {
+  const keys = new Set(Object.keys(translations));
+
+  for (const key of keys) {
+    const parts = key.split('.');
+    for (let i = 1; i < parts.length; i++) {
+      if (keys.has(parts.slice(0, i).join('.'))) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Resolve which shape a namespace file should be written in
+ * 'auto' keeps the file's own shape, then follows the same namespace in other languages, then defaults to flat
+ */
+function resolveFileStructure(
+  translationsPath: string,
+  language: string,
+  namespace: string,
+  structure: TranslationFileStructure
+): Exclude<TranslationFileStructure, 'auto'> {
+  if (structure !== 'auto') {
+    return structure;
+  }
+
+  const ownFile = findTranslationFile(translationsPath, language, namespace);
+  const ownStructure = ownFile ? detectFileStructure(ownFile) : null;
+  if (ownStructure) {
+    return ownStructure;
+  }
+
+  for (const otherLanguage of getAvailableLanguages(translationsPath)) {
+    if (otherLanguage === language) continue;
+
+    const otherFile = findTranslationFile(translationsPath, otherLanguage, namespace);
+    const otherStructure = otherFile ? detectFileStructure(otherFile) : null;
+    if (otherStructure) {
+      return otherStructure;
+    }
+  }
+
+  return 'flat';
+}
+
+/**
+ * Format the content of a translation file for a specific language and namespace
+ * Translations are passed flat (dot notation) and formatted in the resolved on-disk shape and file format
+ * An existing YAML file is updated in place, keeping its comments and key order
+ */
+export function formatTranslation(
+  translationsPath: string,
+  language: string,
+  namespace: string,
+  translations: TranslationFile,
+  structure: TranslationFileStructure = 'auto',
+  format: TranslationFileFormat = 'auto'
+): string {
+  const filePath = getTranslationFilePath(translationsPath, language, namespace, format);
+
+  // Without dot-notation keys both shapes are identical, so there is nothing to resolve
+  const hasDottedKeys = Object.keys(translations).some((key) => key.includes('.'));
+  let content: TranslationFile | NestedTranslationFile = translations;
+
+  if (hasDottedKeys && resolveFileStructure(translationsPath, language, namespace, structure) === 'nested') {
+    if (canUnflatten(translations)) {
+      content = unflattenObject(translations);
+    } else {
+      console.warn(
+        `⚠️  ${language}/${path.basename(filePath)} has keys that can't be nested, writing flat keys instead`
+      );
+    }
+  }
+
+  const previous = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+
+  // A new file follows the layout of the same namespace in another language (e.g. a YAML language root key)
+  let reference: { language: string; content: string } | undefined;
+  if (previous === null) {
+    const referenceLanguage = getAvailableLanguages(translationsPath).find(
+      (other) =>
+        other !== language && findTranslationFile(translationsPath, other, namespace)?.endsWith(path.extname(filePath))
+    );
+    const referencePath = referenceLanguage && findTranslationFile(translationsPath, referenceLanguage, namespace);
+    if (referenceLanguage && referencePath) {
+      reference = { language: referenceLanguage, content: fs.readFileSync(referencePath, 'utf-8') };
+    }
+  }
+
+  return getFileAdapter(filePath).stringify(content, { language, previous, reference });
+}
+
 /**
  * Write translation file for a specific language and namespace
+ * Translations are passed flat (dot notation) and written in the resolved on-disk shape and file format
  */
 export function writeTranslation(
   translationsPath: string,
   language: string,
   namespace: string,
-  translations: TranslationFile
+  translations: TranslationFile,
+  structure: TranslationFileStructure = 'auto',
+  format: TranslationFileFormat = 'auto'
 ): void {
   const langPath = path.join(translationsPath, language);
 
@@ -107,8 +235,8 @@ export function writeTranslation(
     fs.mkdirSync(langPath, { recursive: true });
   }
 
-  const filePath = path.join(langPath, `${namespace}.json`);
-  fs.writeFileSync(filePath, `${JSON.stringify(translations, null, 2)}\n`, 'utf-8');
+  const content = formatTranslation(translationsPath, language, namespace, translations, structure, format);
+  fs.writeFileSync(getTranslationFilePath(translationsPath, language, namespace, format), content, 'utf-8');
 }
 
 /**
@@ -126,19 +254,10 @@ export function getAvailableLanguages(translationsPath: string): string[] {
 }
 
 /**
- * Get all namespaces for a specific language
+ * Get all namespaces for a specific language (from JSON and YAML files)
  */
 export function getNamespaces(translationsPath: string, language: string): string[] {
-  const langPath = path.join(translationsPath, language);
-
-  if (!fs.existsSync(langPath)) {
-    return [];
-  }
-
-  return fs
-    .readdirSync(langPath)
-    .filter((f) => f.endsWith('.json'))
-    .map((f) => path.basename(f, '.json'));
+  return [...listTranslationFiles(path.join(translationsPath, language)).keys()].sort();
 }
 
 /**
@@ -150,25 +269,51 @@ export function hasInterpolation(text: string): boolean {
 
 /**
  * Extract interpolation variable names from a string
+ * Covers i18next {{variable}} and single-brace {variable} syntax; for ICU plural/select messages
+ * the argument names are returned instead
  */
 export function extractVariables(text: string): string[] {
-  const matches = text.match(/\{\{([^}]+)\}\}/g);
-  if (!matches) return [];
-  return matches.map((match) => match.replace(/\{\{|\}\}/g, '').trim());
+  const icuNodes = tryParseIcuMessage(text);
+  if (icuNodes && hasComplexArguments(icuNodes)) {
+    return getIcuArgumentNames(icuNodes);
+  }
+
+  const doubleBraceVariables = Array.from(text.matchAll(/\{\{([^}]+)\}\}/g), (match) => match[1].trim());
+  const singleBraceVariables = Array.from(text.replace(/\{\{[^}]+\}\}/g, '').matchAll(/\{([^{}]+)\}/g), (match) =>
+    match[1].trim()
+  );
+
+  return [...doubleBraceVariables, ...singleBraceVariables];
 }
 
 /**
- * Validate that translated text has the same variables as source text
+ * Variables a translation lost or gained compared to its source text, or null when they match
+ * Repeated variables count, so a translation must use each variable as often as the source
  */
-export function validateVariables(sourceText: string, translatedText: string): boolean {
-  const sourceVars = extractVariables(sourceText).sort();
-  const translatedVars = extractVariables(translatedText).sort();
-
-  if (sourceVars.length !== translatedVars.length) {
-    return false;
+export function findVariableMismatch(
+  sourceText: string,
+  translatedText: string
+): { missingVariables: string[]; extraVariables: string[] } | null {
+  const missingVariables = extractVariables(sourceText);
+  const extraVariables: string[] = [];
+
+  for (const variable of extractVariables(translatedText)) {
+    const index = missingVariables.indexOf(variable);
+    if (index === -1) {
+      extraVariables.push(variable);
+    } else {
+      missingVariables.splice(index, 1);
+    }
   }
 
-  return sourceVars.every((v, i) => v === translatedVars[i]);
+  return missingVariables.length || extraVariables.length ? { missingVariables, extraVariables } : null;
+}
+
+/**
+ * Validate that translated text has the same variables as source text
+ */
+export function validateVariables(sourceText: string, translatedText: string): boolean {
+  return findVariableMismatch(sourceText, translatedText) === null;
 }
 
 /**
@@ -202,23 +347,68 @@ export function ensureTranslationsStructure(translationsPath: string, languages:
 /**
  * Create an empty translation structure from a source translation file
  * All values are set to empty strings, preserving the key structure
+ * With a target language, plural keys get the plural forms of that language
  */
-export function createEmptyTranslationStructure(sourceFile: TranslationFile): TranslationFile {
+export function createEmptyTranslationStructure(sourceFile: TranslationFile, language?: string): TranslationFile {
   const result: TranslationFile = {};
+  const keys = language ? getExpectedTranslationKeys(sourceFile, language).keys() : Object.keys(sourceFile);
 
-  for (const key of Object.keys(sourceFile)) {
+  for (const key of keys) {
     result[key] = '';
   }
 
   return result;
 }
 
+/**
+ * Folder inside each language folder where sync archives removed keys with --keep-orphans
+ */
+export const ARCHIVE_DIR = '_archive';
+
+export interface SyncOptions {
+  /** On-disk shape of written files (default: 'auto') */
+  fileStructure?: TranslationFileStructure;
+  /** Format of created files (default: 'auto') */
+  fileFormat?: TranslationFileFormat;
+  /** Only report what would change, without writing or deleting any files */
+  dryRun?: boolean;
+  /** Collect a unified diff of each changed file in `diffs` (default: false, since diffs of large files are costly) */
+  diffs?: boolean;
+  /** Move removed keys into `<language>/_archive/<namespace>.<ext>` (the format of the namespace file) instead of deleting them */
+  keepOrphans?: boolean;
+  /** Copy each file into this folder (same layout as the translations folder) before changing or deleting it */
+  backupDir?: string;
+  /** Only sync these source namespaces; orphaned namespace files are then left alone */
+  namespaces?: string[];
+  /**
+   * Remove orphaned keys and namespace files (default: true)
+   * When false the sync is non-destructive: it only creates missing files and adds missing keys with empty values
+   */
+  removeOrphans?: boolean;
+}
+
+/**
+ * Unified diff of a file changed (or that would be changed) by a sync
+ */
+export interface SyncFileDiff {
+  language: string;
+  namespace: string;
+  path: string;
+  diff: string;
+}
+
 export interface SyncResult {
   createdFolders: string[];
   createdFiles: Array<{ language: string; namespace: string; path: string }>;
   skippedFiles: Array<{ language: string; namespace: string; reason: string }>;
-  cleanedKeys: Array<{ language: string; namespace: string; key: string }>;
+  cleanedKeys: Array<{ language: string; namespace: string; key: string; path: string }>;
+  /** Missing keys added with an empty value to existing files */
+  addedKeys: Array<{ language: string; namespace: string; key: string; path: string }>;
   removedNamespaces: Array<{ language: string; namespace: string; path: string }>;
+  /** Diffs of every created, changed, deleted and archive file (only with the diffs option) */
+  diffs: SyncFileDiff[];
+  /** Backup copies written before changing files */
+  backups: string[];
 }
 
 /**
@@ -228,25 +418,101 @@ export interface SyncResult {
  * - Creates files with empty values matching source structure
  * - Removes orphaned namespace files from target languages (namespaces not in source)
  * - Removes orphaned keys from target languages (keys not in source)
+ * - Gives plural keys the CLDR plural forms of each target language (items_few in Polish, only items_other in Japanese)
+ * - With keepOrphans, moves the translated values of removed keys and namespaces into the language's _archive folder
  */
 export function syncTranslationStructure(
   translationsPath: string,
   languages: string[],
-  sourceLanguage: string
+  sourceLanguage: string,
+  options: SyncOptions = {}
 ): SyncResult {
+  const {
+    fileStructure = 'auto',
+    fileFormat = 'auto',
+    dryRun = false,
+    diffs = false,
+    keepOrphans = false,
+    backupDir,
+    removeOrphans = true
+  } = options;
   const result: SyncResult = {
     createdFolders: [],
     createdFiles: [],
     skippedFiles: [],
     cleanedKeys: [],
-    removedNamespaces: []
+    addedKeys: [],
+    removedNamespaces: [],
+    diffs: [],
+    backups: []
+  };
+
+  // Every change goes through here, so it gets a diff and a backup (null content deletes the file)
+  const applyChange = (language: string, namespace: string, filePath: string, content: string | null) => {
+    const relativePath = path.relative(translationsPath, filePath);
+    const previous = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+
+    if (previous === content) {
+      return;
+    }
+
+    if (diffs) {
+      const diff = createUnifiedDiff(relativePath.split(path.sep).join('/'), previous, content);
+      if (diff) {
+        result.diffs.push({ language, namespace, path: filePath, diff });
+      }
+    }
+
+    if (dryRun) {
+      return;
+    }
+
+    if (backupDir && previous !== null) {
+      const backupPath = path.join(backupDir, relativePath);
+      fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+      fs.writeFileSync(backupPath, previous, 'utf-8');
+      result.backups.push(backupPath);
+    }
+
+    if (content === null) {
+      fs.unlinkSync(filePath);
+    } else {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content, 'utf-8');
+    }
+  };
+
+  // Add removed keys to the archive file of their namespace (empty values have nothing worth keeping)
+  const archive = (language: string, namespace: string, removed: TranslationFile) => {
+    const entries = Object.entries(removed).filter(([, value]) => value !== '');
+
+    if (!keepOrphans || entries.length === 0) {
+      return;
+    }
+
+    // A new archive file gets the format of its namespace file
+    const { extensions } = getFileAdapter(getTranslationFilePath(translationsPath, language, namespace, fileFormat));
+    const archivePath =
+      findTranslationFile(path.join(translationsPath, language), ARCHIVE_DIR, namespace) ??
+      path.join(translationsPath, language, ARCHIVE_DIR, `${namespace}${extensions[0]}`);
+    const adapter = getFileAdapter(archivePath);
+    const previous = fs.existsSync(archivePath) ? fs.readFileSync(archivePath, 'utf-8') : null;
+    const archived = previous === null ? {} : flattenObject(adapter.parse(previous, language));
+    const content = sortKeys({ ...archived, ...Object.fromEntries(entries) });
+
+    applyChange(language, namespace, archivePath, adapter.stringify(content, { language, previous }));
   };
 
   // 1. Ensure all language folders exist
-  ensureTranslationsStructure(translationsPath, languages);
+  if (!dryRun) {
+    ensureTranslationsStructure(translationsPath, languages);
+  }
 
-  // 2. Get all namespaces from source language
+  // 2. Get all namespaces from source language (or the requested ones)
   const sourceNamespaces = getNamespaces(translationsPath, sourceLanguage);
+  const namespacesToSync = options.namespaces
+    ? sourceNamespaces.filter((namespace) => options.namespaces?.includes(namespace))
+    : sourceNamespaces;
 
   if (!sourceNamespaces.length) {
     return result; // No namespaces to sync
@@ -264,9 +530,10 @@ export function syncTranslationStructure(
 
     // 4.1. Remove orphaned namespace files (files that don't exist in source)
     for (const namespace of targetNamespaces) {
-      if (!sourceNamespaces.includes(namespace)) {
-        const filePath = path.join(translationsPath, language, `${namespace}.json`);
-        fs.unlinkSync(filePath);
+      if (removeOrphans && !options.namespaces && !sourceNamespaces.includes(namespace)) {
+        const filePath = getTranslationFilePath(translationsPath, language, namespace);
+        archive(language, namespace, targetTranslations[namespace] || {});
+        applyChange(language, namespace, filePath, null);
         result.removedNamespaces.push({
           language,
           namespace,
@@ -276,57 +543,84 @@ export function syncTranslationStructure(
     }
 
     // 4.2. Sync each source namespace
-    for (const namespace of sourceNamespaces) {
-      const filePath = path.join(translationsPath, language, `${namespace}.json`);
+    for (const namespace of namespacesToSync) {
+      const filePath = getTranslationFilePath(translationsPath, language, namespace, fileFormat);
       const sourceFile = sourceTranslations[namespace] || {};
 
       // Check if file already exists
       if (fs.existsSync(filePath)) {
         // File exists - check for orphaned keys and remove them
         const targetFile = targetTranslations[namespace] || {};
-        let hasOrphanedKeys = false;
+        const expectedKeys = getExpectedTranslationKeys(sourceFile, language);
         const cleanedFile: TranslationFile = {};
+        const removed: TranslationFile = {};
 
-        // Only keep keys that exist in source
+        // Only keep keys that exist in source, or plural forms the language needs
         for (const key of Object.keys(targetFile)) {
-          if (sourceFile[key] !== undefined) {
+          if (expectedKeys.has(key) || !removeOrphans) {
             cleanedFile[key] = targetFile[key];
           } else {
             // Orphaned key found
-            hasOrphanedKeys = true;
+            removed[key] = targetFile[key];
             result.cleanedKeys.push({
               language,
               namespace,
-              key
+              key,
+              path: filePath
             });
           }
         }
 
         // Add missing keys with empty values
-        for (const key of Object.keys(sourceFile)) {
+        const addedKeys: string[] = [];
+        for (const key of expectedKeys.keys()) {
           if (cleanedFile[key] === undefined) {
             cleanedFile[key] = '';
+            addedKeys.push(key);
           }
         }
 
-        // Write the cleaned file if there were orphaned keys
-        if (hasOrphanedKeys) {
-          writeTranslation(translationsPath, language, namespace, cleanedFile);
+        // Write the cleaned file if there were orphaned keys (a non-destructive sync writes added keys too)
+        const hasOrphanedKeys = Object.keys(removed).length > 0;
+        const hasAddedKeys = !removeOrphans && addedKeys.length > 0;
+        if (hasOrphanedKeys || hasAddedKeys) {
+          archive(language, namespace, removed);
+          applyChange(
+            language,
+            namespace,
+            filePath,
+            formatTranslation(translationsPath, language, namespace, cleanedFile, fileStructure, fileFormat)
+          );
+          result.addedKeys.push(...addedKeys.map((key) => ({ language, namespace, key, path: filePath })));
         }
 
         result.skippedFiles.push({
           language,
           namespace,
-          reason: hasOrphanedKeys ? 'cleaned orphaned keys' : 'already exists'
+          reason: hasOrphanedKeys ? 'cleaned orphaned keys' : hasAddedKeys ? 'added missing keys' : 'already exists'
         });
         continue;
       }
 
       // Create empty structure from source
-      const emptyStructure = createEmptyTranslationStructure(sourceFile);
+      const emptyStructure = createEmptyTranslationStructure(sourceFile, language);
 
-      // Write the file
-      writeTranslation(translationsPath, language, namespace, emptyStructure);
+      // Write the file, following the source file's shape unless a style is forced
+      const sourceFilePath = findTranslationFile(translationsPath, sourceLanguage, namespace);
+      const sourceStructure = sourceFilePath ? detectFileStructure(sourceFilePath) : null;
+      applyChange(
+        language,
+        namespace,
+        filePath,
+        formatTranslation(
+          translationsPath,
+          language,
+          namespace,
+          emptyStructure,
+          fileStructure === 'auto' ? (sourceStructure ?? 'auto') : fileStructure,
+          fileFormat
+        )
+      );
 
       result.createdFiles.push({
         language,